@@ -20,10 +20,49 @@
       return;
     }
 
+    const previewMergedButton = event.target.closest('[data-preview-merged-spec]');
+    if (previewMergedButton) {
+      event.preventDefault();
+      const filepath = previewMergedButton.getAttribute('data-preview-merged-spec');
+      if (filepath) {
+        vscode.postMessage({
+          type: 'previewMergedSpec',
+          filepath
+        });
+      }
+      return;
+    }
+
+    const taskCheckbox = event.target.closest('[data-task-toggle]');
+    if (taskCheckbox) {
+      const tasksContainer = taskCheckbox.closest('[data-openspec-artifact-file]');
+      const filepath = tasksContainer ? tasksContainer.getAttribute('data-openspec-artifact-file') : '';
+      if (filepath) {
+        // The extension re-renders the list from tasks.md once the edit is applied.
+        vscode.postMessage({
+          type: 'toggleTask',
+          filepath,
+          line: Number(taskCheckbox.getAttribute('data-task-line')),
+          taskId: taskCheckbox.getAttribute('data-task-id') || ''
+        });
+      }
+      return;
+    }
+
+    const tasksFilterButton = event.target.closest('[data-tasks-filter]');
+    if (tasksFilterButton) {
+      event.preventDefault();
+      const isPressed = tasksFilterButton.getAttribute('aria-pressed') === 'true';
+      setTasksUncheckedOnly(!isPressed);
+      vscode.setState(Object.assign({}, vscode.getState(), { tasksUncheckedOnly: !isPressed }));
+      return;
+    }
+
     const attachButton = event.target.closest('[data-opencode-attach]');
     if (attachButton) {
       event.preventDefault();
-      const url = attachButton.getAttribute('data-opencode-attach') || 'http://localhost:4099';
+      // Without a URL the extension attaches to the configured server.
+      const url = attachButton.getAttribute('data-opencode-attach') || undefined;
       vscode.postMessage({
         type: 'opencodeAttachClicked',
         url
@@ -308,6 +347,18 @@
     }
   }
 
+  function setTasksUncheckedOnly(enabled) {
+    const tasksContainer = document.getElementById('tasks-content');
+    if (tasksContainer) {
+      tasksContainer.classList.toggle('show-unchecked-only', enabled);
+    }
+
+    const filterButton = document.querySelector('[data-tasks-filter]');
+    if (filterButton) {
+      filterButton.setAttribute('aria-pressed', enabled ? 'true' : 'false');
+    }
+  }
+
   function requestTasksRefresh() {
     if (document.visibilityState === 'hidden') return;
 
@@ -341,9 +392,10 @@
       startButton.textContent = isListening ? 'OpenCode Running' : 'Start OpenCode';
       startButton.disabled = isListening;
       startButton.setAttribute('aria-disabled', isListening ? 'true' : 'false');
+      const address = startButton.getAttribute('data-opencode-address') || 'the configured port';
       const startTooltip = isListening
         ? 'OpenCode already started'
-        : 'Start OpenCode server on port 4099';
+        : `Start OpenCode server on ${address}`;
       startButton.setAttribute('title', startTooltip);
       startButton.setAttribute('aria-label', startTooltip);
     }
@@ -392,6 +444,10 @@
   // Initialize VS Code API
   const vscode = acquireVsCodeApi();
 
+  // Restore the tasks filter across re-renders of the panel
+  const savedState = vscode.getState();
+  setTasksUncheckedOnly(!!(savedState && savedState.tasksUncheckedOnly));
+
   // Periodically refresh OpenCode listening state
   requestOpenCodeStatus();
   setInterval(requestOpenCodeStatus, OPENCODE_STATUS_POLL_MS);
@@ -6,7 +6,39 @@ import * as path from 'path';
 import { spawnSync } from 'child_process';
 import * as readline from 'readline';
 
+// --json/--events: stdout carries only newline-delimited JSON events; human-readable output
+// (including opencode's) goes to stderr and the runner never waits for a keypress.
+const eventsMode = process.argv.slice(2).some(a => a === '--json' || a === '--events');
+
+// Progress reported in the final run.finished event.
+const runState = { completed: [], failedTaskId: undefined };
+
+function emit(event) {
+  if (eventsMode) {
+    process.stdout.write(`${JSON.stringify(event)}\n`);
+  }
+}
+
+function log(text) {
+  (eventsMode ? process.stderr : process.stdout).write(text);
+}
+
+function finish(reason, code, message) {
+  emit({
+    type: 'run.finished',
+    reason,
+    completed: runState.completed,
+    ...(runState.failedTaskId ? { failedTaskId: runState.failedTaskId } : {}),
+    ...(message ? { message } : {}),
+    exitCode: code,
+  });
+  process.exit(code);
+}
+
 function pauseBeforeExit() {
+  if (eventsMode) {
+    return Promise.resolve(undefined);
+  }
   return new Promise((resolve) => {
     const rl = readline.createInterface({
       input: process.stdin,
@@ -22,18 +54,26 @@ function pauseBeforeExit() {
 async function die(message, code = 1) {
   process.stderr.write(`${message}\n`);
   await pauseBeforeExit();
-  process.exit(code);
+  finish('failed', code, message.replace(/^ERROR: /, '').split('\n')[0]);
 }
 
 function printHelp() {
   process.stdout.write(
-    `Usage: ralph_opencode.mjs [--attach URL] [--change CHANGE] [--count <n>]\n\nOptions:\n` +
+    `Usage: ralph_opencode.mjs [--attach URL] [--change CHANGE] [--openspec-root DIR] [--count <n>] [--task ID | --section N] [--events]\n\nOptions:\n` +
     `  --attach URL     Attach to an opencode server (e.g. http://localhost:4096)\n` +
-    `  --change CHANGE  Target change id under openspec/changes/<change>\n` +
-    `  --count <n>      Include up to N tasks per opencode run iteration (default: 1)\n\nEnv:\n` +
+    `  --change CHANGE  Target change id under <openspec-root>/changes/<change>\n` +
+    `  --openspec-root DIR  OpenSpec root relative to the working directory (default: openspec)\n` +
+    `  --count <n>      Include up to N tasks per opencode run iteration (default: 1)\n` +
+    `  --task ID        Run only task ID (e.g. 2.3), then stop\n` +
+    `  --section N      Run only the unchecked tasks of section N (tasks N.*), then stop\n` +
+    `  --events, --json Print newline-delimited JSON events on stdout (human output goes to stderr)\n` +
+    `                   and exit without waiting for a keypress\n\nEnv:\n` +
     `  OPENCODE_ATTACH_URL  Same as --attach\n` +
     `  OPENSPEC_CHANGE      Same as --change\n` +
-    `  OPENCODE_NPX_PKG     Fallback npx package (default: opencode-ai@1.1.44)\n`
+    `  OPENSPEC_ROOT        Same as --openspec-root\n` +
+    `  OPENCODE_BIN         opencode binary name or path (default: opencode)\n` +
+    `  OPENCODE_NPX_PKG     Fallback npx package (default: opencode-ai@1.1.44)\n` +
+    `  OPENSPEC_CONTEXT     Project context appended to every prompt (the extension passes config.yaml \`context\`)\n`
   );
 }
 
@@ -41,8 +81,9 @@ function escapeRegexLiteral(s) {
   return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-function runCapture(cmd, args) {
+function runCapture(cmd, args, cwd) {
   const res = spawnSync(cmd, args, {
+    cwd,
     encoding: 'utf8',
     stdio: ['ignore', 'pipe', 'pipe'],
   });
@@ -117,7 +158,8 @@ function runInherit(cmd, args, input, options = {}) {
   const res = spawnSync(cmd, args, {
     encoding: 'utf8',
     input,
-    stdio: ['pipe', 'inherit', 'inherit'],
+    // Keep stdout free for events in --events mode.
+    stdio: ['pipe', eventsMode ? 2 : 'inherit', 'inherit'],
     shell: shouldUseShell(cmd),
     ...options,
   });
@@ -129,7 +171,7 @@ function runInherit(cmd, args, input, options = {}) {
 }
 
 function runOpencodeWithFallback(opencodeArgs, input) {
-  const directCmd = resolveWindowsCommand('opencode');
+  const directCmd = resolveWindowsCommand((process.env.OPENCODE_BIN || 'opencode').trim());
   const direct = runInherit(directCmd, opencodeArgs, input);
   if (!direct.error) {
     return direct;
@@ -150,7 +192,10 @@ async function parseArgs(argv) {
   const out = {
     attachUrl: process.env.OPENCODE_ATTACH_URL || process.env.ATTACH_URL || '',
     changeName: process.env.OPENSPEC_CHANGE || '',
+    openspecRoot: process.env.OPENSPEC_ROOT || 'openspec',
     count: 1,
+    taskId: '',
+    section: '',
   };
 
   async function parseCountValue(raw) {
@@ -166,6 +211,14 @@ async function parseArgs(argv) {
     return n;
   }
 
+  async function parseScopeValue(flag, raw, pattern, example) {
+    const s = String(raw ?? '').trim();
+    if (!pattern.test(s)) {
+      await die(`ERROR: ${flag} must look like ${example}`, 64);
+    }
+    return s;
+  }
+
   const args = [...argv];
   while (args.length > 0) {
     const a = args[0];
@@ -195,6 +248,19 @@ async function parseArgs(argv) {
       args.splice(0, 1);
       continue;
     }
+    if (a === '--openspec-root') {
+      if (args.length < 2 || !args[1]) {
+        await die('ERROR: --openspec-root requires a directory argument', 64);
+      }
+      out.openspecRoot = args[1];
+      args.splice(0, 2);
+      continue;
+    }
+    if (a.startsWith('--openspec-root=')) {
+      out.openspecRoot = a.slice('--openspec-root='.length);
+      args.splice(0, 1);
+      continue;
+    }
     if (a === '--count') {
       if (args.length < 2 || !args[1]) {
         await die('ERROR: --count requires an integer argument', 64);
@@ -208,6 +274,36 @@ async function parseArgs(argv) {
       args.splice(0, 1);
       continue;
     }
+    if (a === '--task') {
+      if (args.length < 2 || !args[1]) {
+        await die('ERROR: --task requires a task id argument', 64);
+      }
+      out.taskId = await parseScopeValue('--task', args[1], /^[0-9]+(\.[0-9]+)*$/, '2.3');
+      args.splice(0, 2);
+      continue;
+    }
+    if (a.startsWith('--task=')) {
+      out.taskId = await parseScopeValue('--task', a.slice('--task='.length), /^[0-9]+(\.[0-9]+)*$/, '2.3');
+      args.splice(0, 1);
+      continue;
+    }
+    if (a === '--section') {
+      if (args.length < 2 || !args[1]) {
+        await die('ERROR: --section requires a section number argument', 64);
+      }
+      out.section = await parseScopeValue('--section', args[1], /^[0-9]+$/, '2');
+      args.splice(0, 2);
+      continue;
+    }
+    if (a.startsWith('--section=')) {
+      out.section = await parseScopeValue('--section', a.slice('--section='.length), /^[0-9]+$/, '2');
+      args.splice(0, 1);
+      continue;
+    }
+    if (a === '--json' || a === '--events') {
+      args.splice(0, 1);
+      continue;
+    }
     if (a === '-h' || a === '--help') {
       printHelp();
       process.exit(0);
@@ -216,6 +312,10 @@ async function parseArgs(argv) {
     await die(`ERROR: Unknown argument: ${a}`, 64);
   }
 
+  if (out.taskId && out.section) {
+    await die('ERROR: --task and --section cannot be combined', 64);
+  }
+
   return out;
 }
 
@@ -239,12 +339,38 @@ function pickFirstChangeNameFromOpenSpecList(output) {
   return '';
 }
 
+// The openspec CLI only finds roots named `openspec/`; other roots pick the first active change
+// (alphabetically) that has a tasks.md.
+function pickFirstChangeNameFromChangesDir(changesDir) {
+  try {
+    return fs.readdirSync(changesDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && entry.name !== 'archive')
+      .map((entry) => entry.name)
+      .filter((name) => fs.existsSync(path.join(changesDir, name, 'tasks.md')))
+      .sort()[0] || '';
+  } catch {
+    return '';
+  }
+}
+
 function isTaskLine(line) {
   return /^- \[[ x]\] [0-9]+(\.[0-9]+)*([\s]|$)/.test(line);
 }
 
-function allDone(tasksText) {
-  return !/^- \[ \] [0-9]+(\.[0-9]+)*([\s]|$)/m.test(tasksText);
+// Scope narrows the loop to one task (--task) or one section (--section); empty scope means all tasks.
+function isInScope(id, scope) {
+  if (scope.taskId) return id === scope.taskId;
+  if (scope.section) return (String(id).split('.')[0] || '') === scope.section;
+  return true;
+}
+
+function allDone(tasksText, scope = {}) {
+  const re = /^- \[ \] ([0-9]+(\.[0-9]+)*)([\s]|$)/gm;
+  let m;
+  while ((m = re.exec(tasksText)) !== null) {
+    if (isInScope(m[1], scope)) return false;
+  }
+  return true;
 }
 
 function isTaskDone(tasksText, tid) {
@@ -253,7 +379,7 @@ function isTaskDone(tasksText, tid) {
   return re.test(tasksText);
 }
 
-function findNextUncheckedTaskIds(tasksText, limit) {
+function findNextUncheckedTaskIds(tasksText, limit, scope = {}) {
   const safeLimit = Number.isFinite(limit) && limit > 0 ? limit : 0;
   if (safeLimit <= 0) return [];
 
@@ -263,6 +389,7 @@ function findNextUncheckedTaskIds(tasksText, limit) {
   let m;
   while ((m = re.exec(tasksText)) !== null) {
     const id = m[1];
+    if (!isInScope(id, scope)) continue;
     if (out.length === 0) {
       parent = String(id).split('.')[0] || '';
       out.push(id);
@@ -352,13 +479,25 @@ function extractTaskBlock(tasksText, tid) {
 }
 
 (async () => {
-const { attachUrl, changeName: changeNameArg, count: tasksPerRun } = await parseArgs(process.argv.slice(2));
+const { attachUrl, changeName: changeNameArg, openspecRoot, count: tasksPerRun, taskId, section } = await parseArgs(process.argv.slice(2));
+const scope = { taskId, section };
+const scopeLabel = taskId ? `task ${taskId}` : (section ? `section ${section}` : '');
+const doneMessage = () => (scopeLabel ? `All tasks in ${scopeLabel} completed.` : 'All tasks completed.');
 const maxIters = Number.parseInt(process.env.MAX_ITERS || '30', 10);
 const maxItersSafe = Number.isFinite(maxIters) && maxIters > 0 ? maxIters : 30;
+const projectContext = String(process.env.OPENSPEC_CONTEXT || '').trim();
 
 let changeName = (changeNameArg || '').trim();
+if (!changeName && path.basename(path.resolve(openspecRoot)) !== 'openspec') {
+  const changesDir = path.join(openspecRoot, 'changes');
+  changeName = pickFirstChangeNameFromChangesDir(changesDir);
+  if (!changeName) {
+    await die(`ERROR: Could not determine CHANGE_NAME: no active change with tasks.md in ${changesDir}`);
+  }
+}
 if (!changeName) {
-  const listRes = runCapture('openspec', ['list']);
+  // The openspec CLI looks for `openspec/` in its working directory.
+  const listRes = runCapture('openspec', ['list'], path.dirname(path.resolve(openspecRoot)));
   if (listRes.error) {
     await die(`ERROR: Failed to run openspec list: ${String(listRes.error)}`);
   }
@@ -372,36 +511,50 @@ if (!changeName) {
   }
 }
 
-const tasksFile = path.join('openspec', 'changes', changeName, 'tasks.md');
+const tasksFile = path.join(openspecRoot, 'changes', changeName, 'tasks.md');
 if (!fs.existsSync(tasksFile)) {
   await die(`ERROR: tasks file not found: ${tasksFile}`);
 }
 
-process.stdout.write(`Change     : ${changeName}\n`);
-process.stdout.write(`Tasks file : ${tasksFile}\n`);
-process.stdout.write(`Max iters  : ${maxItersSafe}\n`);
-process.stdout.write(`Tasks/run  : ${tasksPerRun}\n`);
+if (scopeLabel && !findAllTaskIds(fs.readFileSync(tasksFile, 'utf8')).some(id => isInScope(id, scope))) {
+  await die(`ERROR: ${scopeLabel} not found in ${tasksFile}`, 2);
+}
+
+log(`Change     : ${changeName}\n`);
+log(`Tasks file : ${tasksFile}\n`);
+log(`Max iters  : ${maxItersSafe}\n`);
+log(`Tasks/run  : ${tasksPerRun}\n`);
+if (scopeLabel) {
+  log(`Scope      : ${scopeLabel}\n`);
+}
 if (attachUrl) {
-  process.stdout.write(`Attach     : ${attachUrl}\n`);
+  log(`Attach     : ${attachUrl}\n`);
 }
-process.stdout.write('\n');
+log('\n');
+emit({
+  type: 'run.started',
+  changeId: changeName,
+  tasksPath: tasksFile,
+  count: tasksPerRun,
+  maxIterations: maxItersSafe,
+  ...(scopeLabel ? { scope: scopeLabel } : {}),
+});
 
 for (let iter = 1; iter <= maxItersSafe; iter++) {
   const tasksTextBefore = fs.readFileSync(tasksFile, 'utf8');
-  if (allDone(tasksTextBefore)) {
-    process.stdout.write(`All tasks completed. Stopping early (iteration ${iter}).\n`);
-    process.exit(0);
+  if (allDone(tasksTextBefore, scope)) {
+    log(`${doneMessage()} Stopping early (iteration ${iter}).\n`);
+    finish('completed', 0);
   }
 
-  const batchIds = findNextUncheckedTaskIds(tasksTextBefore, tasksPerRun);
+  const batchIds = findNextUncheckedTaskIds(tasksTextBefore, tasksPerRun, scope);
   if (!batchIds || batchIds.length === 0) {
     await die(`ERROR: Could not find next unchecked task(s) in ${tasksFile}`, 2);
   }
 
   const firstId = batchIds[0];
-  process.stdout.write(
-    `== Iteration ${iter} / ${maxItersSafe} : starting ${firstId} (batch size ${batchIds.length}) ==\n`
-  );
+  log(`== Iteration ${iter} / ${maxItersSafe} : starting ${firstId} (batch size ${batchIds.length}) ==\n`);
+  emit({ type: 'batch.selected', iteration: iter, taskIds: batchIds });
 
   const blocks = [];
   for (const id of batchIds) {
@@ -433,9 +586,14 @@ for (let iter = 1; iter <= maxItersSafe; iter++) {
     `- You may check previous tasks to get context about the current task(s) context\n` +
     `- If it is a lint/test/qa/review and it fail, fix it\n` +
     `- As you finish each task, mark it done in ${tasksFile} by changing:\n` +
-    `- [ ] <id> -> - [x] <id>\n`;
+    `- [ ] <id> -> - [x] <id>\n` +
+    (projectContext ? `\nProject context (openspec/config.yaml):\n${projectContext}\n` : '');
 
+  emit({ type: 'opencode.invoked', iteration: iter, taskIds: batchIds });
   const runRes = runOpencodeWithFallback(opencodeArgs, prompt);
+  if (runRes.error || runRes.status !== 0) {
+    runState.failedTaskId = firstId;
+  }
   if (runRes.error) {
     if (isNotFound(runRes.error)) {
       await die(
@@ -455,6 +613,8 @@ for (let iter = 1; iter <= maxItersSafe; iter++) {
   const tasksTextAfter = fs.readFileSync(tasksFile, 'utf8');
   const completedIds = countNewlyCompletedIds(tasksTextBefore, tasksTextAfter, batchIds);
   if (completedIds.length === 0) {
+    runState.failedTaskId = firstId;
+    emit({ type: 'task.failed', iteration: iter, taskId: firstId, message: `not marked done in ${tasksFile}` });
     await die(
       `None of the requested tasks were marked done in ${tasksFile} after iteration ${iter}.\n` +
         `Requested (in order): ${batchIds.join(', ')}\n` +
@@ -464,6 +624,13 @@ for (let iter = 1; iter <= maxItersSafe; iter++) {
   }
 
   if (!isPrefix(completedIds, batchIds)) {
+    runState.failedTaskId = batchIds.find(id => !completedIds.includes(id)) || firstId;
+    emit({
+      type: 'task.failed',
+      iteration: iter,
+      taskId: runState.failedTaskId,
+      message: `checked off out of order (completed ${completedIds.join(', ')})`,
+    });
     await die(
       `Tasks were checked off out of order after iteration ${iter}.\n` +
         `Requested (in order): ${batchIds.join(', ')}\n` +
@@ -473,20 +640,24 @@ for (let iter = 1; iter <= maxItersSafe; iter++) {
     );
   }
 
-  process.stdout.write(`Completed ${completedIds.length} task(s): ${completedIds.join(', ')}\n\n`);
+  for (const id of completedIds) {
+    runState.completed.push(id);
+    emit({ type: 'task.verified', iteration: iter, taskId: id });
+  }
+  log(`Completed ${completedIds.length} task(s): ${completedIds.join(', ')}\n\n`);
 
-  if (allDone(tasksTextAfter)) {
-    process.stdout.write('All tasks completed.\n');
-    process.exit(0);
+  if (allDone(tasksTextAfter, scope)) {
+    log(`${doneMessage()}\n`);
+    finish('completed', 0);
   }
 }
 
 const tasksTextAfterLoop = fs.readFileSync(tasksFile, 'utf8');
-if (allDone(tasksTextAfterLoop)) {
-  process.stdout.write('All tasks completed.\n');
-  process.exit(0);
+if (allDone(tasksTextAfterLoop, scope)) {
+  log(`${doneMessage()}\n`);
+  finish('completed', 0);
 }
 
-process.stdout.write(`Hit MAX_ITERS=${maxItersSafe} but tasks still remain unfinished.\n`);
-process.exit(4);
+log(`Hit MAX_ITERS=${maxItersSafe} but tasks still remain unfinished.\n`);
+finish('max-iterations', 4, `tasks remain after ${maxItersSafe} iterations`);
 })();
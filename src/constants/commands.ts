@@ -4,17 +4,32 @@ export const Commands = {
   viewDetails: 'openspec.viewDetails',
   listChanges: 'openspec.listChanges',
   applyChange: 'openspec.applyChange',
+  // Internal: Apply loop for a change, task or section (tasks.md CodeLenses).
+  runTasks: 'openspec.runTasks',
   ffChange: 'openspec.ffChange',
   archiveChange: 'openspec.archiveChange',
+  unarchiveChange: 'openspec.unarchiveChange',
+  previewMergedSpec: 'openspec.previewMergedSpec',
+  goToRequirement: 'openspec.goToRequirement',
+  showConflicts: 'openspec.showConflicts',
+  selectRoot: 'openspec.selectRoot',
 
   generateProposal: 'openspec.generateProposal',
   init: 'openspec.init',
   showOutput: 'openspec.showOutput',
 
   explorerFocus: 'openspecExplorer.focus',
+  conflictsFocus: 'openspecConflicts.focus',
 
   opencodeStartServer: 'openspec.opencode.startServer',
+  opencodeStopServer: 'openspec.opencode.stopServer',
+  opencodeRestartServer: 'openspec.opencode.restartServer',
+  opencodeShowServerOutput: 'openspec.opencode.showServerOutput',
   opencodeOpenUi: 'openspec.opencode.openUi',
+  opencodeRefreshSessions: 'openspec.opencode.refreshSessions',
+  opencodeOpenSession: 'openspec.opencode.openSession',
+  opencodeContinueSession: 'openspec.opencode.continueSession',
+  opencodeAbortSession: 'openspec.opencode.abortSession',
   opencodeNewChange: 'openspec.opencode.newChange',
   opencodeGenerateRunnerScript: 'openspec.opencode.generateRunnerScript',
   opencodeRunRunnerAttached: 'openspec.opencode.runRunnerAttached'
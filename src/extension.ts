@@ -2,12 +2,26 @@ import * as vscode from 'vscode';
 
 import { OpenSpecExplorerProvider } from './providers/explorerProvider';
 import { OpenSpecWebviewProvider } from './providers/webviewProvider';
+import { MergedSpecContentProvider, MERGED_SPEC_SCHEME } from './providers/mergedSpecProvider';
+import { SpecDiagnosticsProvider } from './providers/specDiagnosticsProvider';
+import { TasksCodeActionProvider, TasksDiagnosticsProvider, TASKS_DOCUMENT_SELECTOR } from './providers/tasksDiagnosticsProvider';
+import { TasksCodeLensProvider } from './providers/tasksCodeLensProvider';
+import { OpenSpecOutlineProvider, OPENSPEC_MARKDOWN_SELECTOR } from './providers/outlineProvider';
+import { RequirementSymbolProvider } from './providers/requirementSearchProvider';
+import { DeltaNavigationProvider, DELTA_SPEC_SELECTOR } from './providers/deltaNavigationProvider';
+import { ConflictMonitor, ConflictsTreeProvider } from './providers/conflictProvider';
+import { OpenSpecConfigProvider } from './providers/configProvider';
+import { OpenCodeSessionsProvider } from './providers/sessionsProvider';
+import { ApplyRunMonitor } from './providers/applyRunMonitor';
 import { ErrorHandler } from './utils/errorHandler';
 import { CacheManager } from './utils/cache';
+import { WorkspaceUtils } from './utils/workspace';
 
 import { activateExtension } from './extension/activate';
 import { deactivateExtension } from './extension/deactivate';
 import { registerCommands } from './extension/commands';
+import { offerDiscoveredRoots } from './extension/openspecRoot';
+import { OpenCodeServerManager } from './extension/openCodeServer';
 import { checkWorkspaceInitialization, registerOpenSpecWatcher } from './extension/watcher';
 import { ExtensionRuntimeState } from './extension/runtime';
 
@@ -22,28 +36,113 @@ export function activate(context: vscode.ExtensionContext) {
   runtime = activateExtension(context);
   runtime.cacheManager = CacheManager.getInstance();
 
+  // Running Apply loops, shown in the status bar, the explorer and the details panel
+  runtime.applyRunMonitor = new ApplyRunMonitor();
+  context.subscriptions.push(runtime.applyRunMonitor);
+
   // Register the tree data provider
-  runtime.explorerProvider = new OpenSpecExplorerProvider();
+  runtime.explorerProvider = new OpenSpecExplorerProvider(runtime.applyRunMonitor);
   context.subscriptions.push(
     vscode.window.registerTreeDataProvider('openspecExplorer', runtime.explorerProvider),
     vscode.window.registerTreeDataProvider('openspecWelcome', runtime.explorerProvider)
   );
 
+  // Load openspec/config.yaml (project context and per-artifact rules)
+  runtime.openspecConfig = new OpenSpecConfigProvider();
+  context.subscriptions.push(runtime.openspecConfig);
+  void runtime.openspecConfig.load();
+
   // Register the webview provider
-  runtime.webviewProvider = new OpenSpecWebviewProvider(context.extensionUri);
+  runtime.webviewProvider = new OpenSpecWebviewProvider(context.extensionUri, runtime.openspecConfig, runtime.applyRunMonitor);
+  context.subscriptions.push(
+    vscode.window.registerWebviewPanelSerializer('openspec.details', runtime.webviewProvider),
+    // Each loop event can check off tasks; show them without waiting for the file watcher.
+    runtime.applyRunMonitor.onDidChangeRuns(run => {
+      WorkspaceUtils.invalidateCache(run.changeDir);
+      runtime?.explorerProvider?.refresh();
+      void runtime?.webviewProvider?.refreshTasks(run.changeDir);
+    }),
+    // OpenCode settings are read on use; only the rendered webview needs a refresh.
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('openspec.opencode')) {
+        void runtime?.webviewProvider?.refresh();
+      }
+    })
+  );
+
+  // Register the virtual document provider for merged spec previews
+  runtime.mergedSpecProvider = new MergedSpecContentProvider();
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(MERGED_SPEC_SCHEME, runtime.mergedSpecProvider),
+    runtime.mergedSpecProvider
+  );
+
+  // Validate spec files into the Problems panel
+  runtime.specDiagnostics = new SpecDiagnosticsProvider();
+  context.subscriptions.push(runtime.specDiagnostics);
+  void runtime.specDiagnostics.validateAll();
+
+  // Validate tasks.md files and offer quick fixes for format problems
+  runtime.tasksDiagnostics = new TasksDiagnosticsProvider();
+  context.subscriptions.push(
+    runtime.tasksDiagnostics,
+    vscode.languages.registerCodeActionsProvider(TASKS_DOCUMENT_SELECTOR, new TasksCodeActionProvider(), {
+      providedCodeActionKinds: TasksCodeActionProvider.providedCodeActionKinds
+    })
+  );
+  void runtime.tasksDiagnostics.validateAll();
+
+  // Run a single task or section from tasks.md
   context.subscriptions.push(
-    vscode.window.registerWebviewPanelSerializer('openspec.details', runtime.webviewProvider)
+    vscode.languages.registerCodeLensProvider(TASKS_DOCUMENT_SELECTOR, new TasksCodeLensProvider())
   );
 
+  // Outline, breadcrumbs and folding for spec.md and tasks.md
+  const outlineProvider = new OpenSpecOutlineProvider();
+  context.subscriptions.push(
+    vscode.languages.registerDocumentSymbolProvider(OPENSPEC_MARKDOWN_SELECTOR, outlineProvider, { label: 'OpenSpec' }),
+    vscode.languages.registerFoldingRangeProvider(OPENSPEC_MARKDOWN_SELECTOR, outlineProvider)
+  );
+
+  // Ctrl+T search across requirements and scenarios
+  context.subscriptions.push(
+    vscode.languages.registerWorkspaceSymbolProvider(new RequirementSymbolProvider())
+  );
+
+  // Hover and go-to-definition from delta requirements to the baseline spec
+  const deltaNavigationProvider = new DeltaNavigationProvider();
+  context.subscriptions.push(
+    vscode.languages.registerHoverProvider(DELTA_SPEC_SELECTOR, deltaNavigationProvider),
+    vscode.languages.registerDefinitionProvider(DELTA_SPEC_SELECTOR, deltaNavigationProvider)
+  );
+
+  // Flag requirements that more than one active change modifies, removes or renames
+  runtime.conflictMonitor = new ConflictMonitor();
+  const conflictsTreeProvider = new ConflictsTreeProvider(runtime.conflictMonitor);
+  context.subscriptions.push(
+    runtime.conflictMonitor,
+    conflictsTreeProvider,
+    vscode.window.registerFileDecorationProvider(runtime.conflictMonitor),
+    vscode.window.registerTreeDataProvider('openspecConflicts', conflictsTreeProvider)
+  );
+  void runtime.conflictMonitor.analyze();
+
+  // Own the `opencode serve` process (start/stop/restart, health, crash restarts)
+  runtime.openCodeServer = new OpenCodeServerManager();
+  context.subscriptions.push(runtime.openCodeServer);
+
+  // Sessions of the attached OpenCode server, linked to the changes they work on
+  runtime.sessionsProvider = new OpenCodeSessionsProvider(runtime.openCodeServer.onDidChangeStatus);
+  const sessionsView = vscode.window.createTreeView('openspecSessions', { treeDataProvider: runtime.sessionsProvider });
+  runtime.sessionsProvider.watchVisibility(sessionsView);
+  context.subscriptions.push(runtime.sessionsProvider, sessionsView);
+
   // Register commands
   registerCommands(context, runtime);
 
   // Keep terminal refs accurate when users close terminals.
   context.subscriptions.push(
     vscode.window.onDidCloseTerminal((terminal) => {
-      if (runtime?.openCodeServerTerminal && terminal === runtime.openCodeServerTerminal) {
-        runtime.openCodeServerTerminal = undefined;
-      }
       if (runtime?.openCodeRunnerTerminal && terminal === runtime.openCodeRunnerTerminal) {
         runtime.openCodeRunnerTerminal = undefined;
       }
@@ -55,11 +154,12 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Check workspace initialization
   checkWorkspaceInitialization(runtime);
+  void offerDiscoveredRoots();
 
   // Log activation success
   ErrorHandler.info('Extension activated successfully', false);
 }
 
-export function deactivate() {
-  deactivateExtension(runtime);
+export function deactivate(): Promise<void> {
+  return deactivateExtension(runtime);
 }
@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { RalphLoopEvent, RalphLoopResult, RalphScope } from '../types';
+import { ErrorHandler } from '../utils/errorHandler';
+import { OpenCodeClient } from '../utils/openCodeClient';
+import { OpenCodeSessions } from '../utils/openCodeSessions';
+import { RalphLoop } from '../utils/ralphLoop';
+import { Settings } from '../utils/settings';
+import { TasksParser } from '../utils/tasksParser';
+import { WorkspaceUtils } from '../utils/workspace';
+import { ensureLocalOpenCodeServerReady } from './opencodePrompt';
+import { ExtensionRuntimeState } from './runtime';
+
+export interface ApplyLoopRequest {
+  changeId: string;
+  // Change folder; resolved from the change ID in the first OpenSpec folder when missing.
+  changePath?: string;
+  // Tasks per OpenCode run.
+  count?: number;
+  scope?: RalphScope;
+}
+
+function logEvent(changeId: string, event: RalphLoopEvent): void {
+  switch (event.type) {
+    case 'batch.selected':
+      ErrorHandler.info(`Apply ${changeId}: run ${event.iteration} starts ${event.taskIds.join(', ')}`, false);
+      break;
+    case 'task.verified':
+      ErrorHandler.info(`Apply ${changeId}: task ${event.taskId} checked off`, false);
+      break;
+    case 'task.failed':
+      ErrorHandler.warning(`Apply ${changeId}: task ${event.taskId} failed verification: ${event.message}`, false);
+      break;
+    case 'run.finished':
+      ErrorHandler.info(`Apply ${changeId}: ${event.reason}${event.message ? ` (${event.message})` : ''}`, false);
+      break;
+  }
+}
+
+async function revealTask(tasksFile: string, taskId: string | undefined): Promise<void> {
+  const document = await vscode.workspace.openTextDocument(tasksFile);
+  const task = taskId ? TasksParser.parse(document.getText()).tasks.find(candidate => candidate.id === taskId) : undefined;
+  const line = task?.line ?? 0;
+  await vscode.window.showTextDocument(document, { selection: new vscode.Range(line, 0, line, 0) });
+}
+
+/**
+ * Apply Change inside the extension host: runs the Ralph loop against the attached OpenCode
+ * server behind a cancellable progress notification, one fresh session per batch. Cancelling
+ * aborts the running session.
+ */
+export async function runApplyLoop(request: ApplyLoopRequest, runtime: ExtensionRuntimeState): Promise<RalphLoopResult | undefined> {
+  const { changeId } = request;
+  const workspaceFolder = await WorkspaceUtils.resolveWorkspaceFolder(request.changePath);
+  if (!workspaceFolder) {
+    vscode.window.showWarningMessage('No workspace folder found');
+    return undefined;
+  }
+
+  const tasksFile = request.changePath
+    ? path.join(request.changePath, 'tasks.md')
+    : path.join(WorkspaceUtils.getChangesDir(workspaceFolder), changeId, 'tasks.md');
+  if (runtime.applyRuns.has(tasksFile)) {
+    vscode.window.showWarningMessage(`${changeId} is already being applied.`);
+    return undefined;
+  }
+  if (!(await WorkspaceUtils.fileExists(tasksFile))) {
+    vscode.window.showErrorMessage(`tasks.md not found for ${changeId}`);
+    return undefined;
+  }
+
+  // The loop reads tasks.md from disk, so flush unsaved edits first.
+  const tasksDocument = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === tasksFile);
+  if (tasksDocument?.isDirty) {
+    await tasksDocument.save();
+  }
+
+  if (!(await ensureLocalOpenCodeServerReady())) {
+    vscode.window.showErrorMessage(
+      `OpenCode server is not responding on ${Settings.opencodeAddress}. It may still be starting; check the OpenCode Server output.`
+    );
+    return undefined;
+  }
+
+  const cwd = workspaceFolder.uri.fsPath;
+  const scope = request.scope ?? {};
+  const scopeLabel = RalphLoop.describeScope(scope);
+  const client = new OpenCodeClient(Settings.opencodeUrl, { directory: cwd });
+  const readTasks = () => fs.readFile(tasksFile, 'utf8');
+  let sessionId: string | undefined;
+
+  runtime.applyRuns.add(tasksFile);
+  const tracker = runtime.applyRunMonitor?.track(cwd);
+  let result: RalphLoopResult;
+  try {
+    const total = RalphLoop.uncheckedTaskIds(await readTasks(), scope).length;
+    result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Applying ${changeId}${scopeLabel ? ` (${scopeLabel})` : ''}`,
+        cancellable: true
+      },
+      async (progress, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        try {
+          return await RalphLoop.run({
+            changeId,
+            tasksPath: path.relative(cwd, tasksFile).split(path.sep).join('/'),
+            count: request.count ?? 1,
+            scope,
+            context: runtime.openspecConfig?.configFor(cwd).context,
+            readTasks,
+            runBatch: async (prompt, taskIds) => {
+              const run = await client.runPrompt(prompt, {
+                title: `Apply ${changeId}: ${taskIds.join(', ')}`,
+                signal: controller.signal
+              });
+              sessionId = run.sessionId;
+              return run;
+            },
+            isCancelled: () => token.isCancellationRequested,
+            onEvent: event => {
+              logEvent(changeId, event);
+              tracker?.onEvent(event);
+              if (event.type === 'batch.selected') {
+                const label = event.taskIds.length === 1 ? `task ${event.taskIds[0]}` : `tasks ${event.taskIds.join(', ')}`;
+                progress.report({ message: `Working on ${label}…` });
+              } else if (event.type === 'task.verified') {
+                progress.report({ increment: total > 0 ? 100 / total : 0, message: `Task ${event.taskId} done` });
+              }
+            }
+          });
+        } finally {
+          cancellation.dispose();
+        }
+      }
+    );
+  } catch (error) {
+    ErrorHandler.handle(error as Error, `Failed to apply ${changeId}`);
+    return undefined;
+  } finally {
+    tracker?.dispose();
+    runtime.applyRuns.delete(tasksFile);
+    WorkspaceUtils.invalidateCache();
+    runtime.explorerProvider?.refresh();
+  }
+
+  const done = `${result.completed.length} task${result.completed.length === 1 ? '' : 's'}`;
+  if (result.reason === 'completed') {
+    vscode.window.showInformationMessage(
+      result.completed.length > 0
+        ? `Applied ${changeId}: ${done} completed${scopeLabel ? ` in ${scopeLabel}` : ''}.`
+        : `Nothing to apply: every task${scopeLabel ? ` in ${scopeLabel}` : ''} of ${changeId} is already checked off.`
+    );
+  } else if (result.reason === 'cancelled') {
+    vscode.window.showInformationMessage(`Apply of ${changeId} cancelled after ${done}.`);
+  } else {
+    const openTask = 'Open Task';
+    const openSession = 'Open Session';
+    const message = result.reason === 'failed'
+      ? `Apply of ${changeId} stopped${result.failedTaskId ? ` at task ${result.failedTaskId}` : ''}: ${result.message}`
+      : `Apply of ${changeId} stopped: ${result.message}`;
+    const show = result.reason === 'failed' ? vscode.window.showErrorMessage : vscode.window.showWarningMessage;
+    const selection = await show(message, openTask, ...(sessionId ? [openSession] : []));
+    if (selection === openTask) {
+      await revealTask(tasksFile, result.failedTaskId);
+    } else if (selection === openSession && sessionId) {
+      await vscode.env.openExternal(vscode.Uri.parse(OpenCodeSessions.uiUrl(Settings.opencodeUrl, sessionId, cwd)));
+    }
+  }
+  return result;
+}
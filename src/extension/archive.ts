@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { MergedSpecContentProvider } from '../providers/mergedSpecProvider';
+import { ArchivePlan, ArchiveSpecUpdate } from '../types';
+import { ChangeArchiver } from '../utils/changeArchive';
+import { ChangeScaffolder } from '../utils/changeScaffold';
+import { ErrorHandler } from '../utils/errorHandler';
+import { WorkspaceUtils } from '../utils/workspace';
+import { sendPromptToOpenCode } from './opencodePrompt';
+import { ExtensionRuntimeState } from './runtime';
+
+async function describeTaskStatus(changeDir: string): Promise<{ line: string; unchecked: number } | undefined> {
+  try {
+    const tasks = await WorkspaceUtils.readTasks(path.join(changeDir, 'tasks.md'));
+    if (!tasks) {
+      return undefined;
+    }
+    const unchecked = tasks.totalCount - tasks.completedCount;
+    return {
+      line: unchecked === 0 ? 'Tasks: completed' : `Tasks: NOT completed (${unchecked} unchecked)`,
+      unchecked
+    };
+  } catch {
+    // best-effort
+    return undefined;
+  }
+}
+
+function describeSpecUpdate(update: ArchiveSpecUpdate): string {
+  const parts = (['ADDED', 'MODIFIED', 'REMOVED', 'RENAMED'] as const)
+    .filter(operation => update.counts[operation] > 0)
+    .map(operation => `${update.counts[operation]} ${operation.toLowerCase()}`);
+  const suffix = update.baselineExists ? '' : ' (new spec)';
+  return `${update.capability}: ${parts.join(', ') || 'no changes'}${suffix}`;
+}
+
+async function saveChangeDocuments(changeDir: string): Promise<void> {
+  const prefix = changeDir + path.sep;
+  const dirty = vscode.workspace.textDocuments.filter(
+    document => document.isDirty && document.uri.scheme === 'file' && document.uri.fsPath.startsWith(prefix)
+  );
+  for (const document of dirty) {
+    await document.save();
+  }
+}
+
+async function previewSpecUpdates(plan: ArchivePlan, runtime: ExtensionRuntimeState): Promise<void> {
+  runtime.mergedSpecProvider?.refresh();
+  for (const update of plan.specUpdates) {
+    const left = update.baselineExists
+      ? vscode.Uri.file(update.baselinePath)
+      : MergedSpecContentProvider.buildUri(update.deltaPath, 'baseline');
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      left,
+      MergedSpecContentProvider.buildUri(update.deltaPath, 'merged'),
+      `${update.capability}: current ↔ after ${plan.changeId}`,
+      { preview: false }
+    );
+  }
+}
+
+/**
+ * Hands the archive to the OpenCode server as a prompt. Kept as the opt-in fallback
+ * (`openspec.archive.useOpenCode`) for changes the native archive cannot merge.
+ */
+export async function archiveChangeWithOpenCode(
+  changeId: string,
+  changeDir: string | undefined,
+  runtime: ExtensionRuntimeState
+): Promise<void> {
+  const status = changeDir ? await describeTaskStatus(changeDir) : undefined;
+  const tasksStatusLine = status?.line ?? 'Tasks: unknown';
+  if (status && status.unchecked > 0) {
+    vscode.window.showWarningMessage(`${changeId}: ${tasksStatusLine}`);
+  } else if (status) {
+    vscode.window.showInformationMessage(`${changeId}: ${tasksStatusLine}`);
+  }
+
+  // User-requested archive prompt content (delegated to opencode).
+  const basePrompt =
+    'use openspec skill to archive the changes, use question tools when there is multiple spec. let the user know if the tasks is completed or not. '
+    + `Change: ${changeId}. ${tasksStatusLine}.`;
+  const prompt = runtime.openspecConfig?.withContext(basePrompt, changeDir) ?? basePrompt;
+
+  const result = await sendPromptToOpenCode({
+    title: `Archive ${changeId}`,
+    prompt,
+    cwd: changeDir ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(changeDir))?.uri.fsPath : undefined
+  });
+  if (result?.success) {
+    WorkspaceUtils.invalidateCache();
+    runtime.explorerProvider?.refresh();
+  }
+}
+
+/**
+ * Merges the change's delta specs into `openspec/specs` and moves the change to
+ * `changes/archive/YYYY-MM-DD-<changeId>`, after showing a diff of every touched spec
+ * and asking for confirmation. Merge problems block the archive.
+ */
+export async function archiveChangeNatively(changeDir: string, runtime: ExtensionRuntimeState): Promise<void> {
+  await saveChangeDocuments(changeDir);
+
+  const plan = await ChangeArchiver.plan(changeDir, filePath => WorkspaceUtils.readLiveText(filePath));
+  if (plan.issues.length > 0) {
+    plan.issues.forEach(issue => ErrorHandler.warning(`Archive ${plan.changeId}: ${issue.message}`, false));
+    const openDelta = 'Open Delta Spec';
+    const useOpenCode = 'Archive with OpenCode';
+    const firstIssue = plan.issues[0];
+    const actions = firstIssue.capability ? [openDelta, useOpenCode] : [useOpenCode];
+    const selection = await vscode.window.showErrorMessage(
+      `Cannot archive ${plan.changeId}: ${firstIssue.message}${plan.issues.length > 1 ? ` (+${plan.issues.length - 1} more, see output)` : ''}`,
+      ...actions
+    );
+    if (selection === openDelta) {
+      await vscode.window.showTextDocument(vscode.Uri.file(firstIssue.filePath), {
+        selection: new vscode.Range(firstIssue.line, 0, firstIssue.line, 0)
+      });
+    } else if (selection === useOpenCode) {
+      await archiveChangeWithOpenCode(plan.changeId, changeDir, runtime);
+    }
+    return;
+  }
+
+  await previewSpecUpdates(plan, runtime);
+
+  const status = await describeTaskStatus(changeDir);
+  const detail = [
+    ...(plan.specUpdates.length > 0
+      ? plan.specUpdates.map(describeSpecUpdate)
+      : ['No spec changes.']),
+    ...(status ? ['', status.line] : [])
+  ].join('\n');
+  const archive = 'Archive';
+  const selection = await vscode.window.showWarningMessage(
+    `Archive ${plan.changeId} to archive/${path.basename(plan.archiveDir)}?`,
+    { modal: true, detail },
+    archive
+  );
+  if (selection !== archive) {
+    return;
+  }
+
+  await ChangeArchiver.execute(plan);
+  WorkspaceUtils.invalidateCache();
+  runtime.explorerProvider?.refresh();
+  runtime.conflictMonitor?.scheduleAnalysis();
+
+  const updated = plan.specUpdates.map(update => update.capability).join(', ');
+  ErrorHandler.info(
+    `Archived ${plan.changeId} to ${path.basename(plan.archiveDir)}${updated ? `; updated specs: ${updated}` : ''}`,
+    true
+  );
+}
+
+/**
+ * Moves an archived change back to `changes/<id>`. When the archive left a snapshot,
+ * the user can also revert the spec merges it made.
+ */
+export async function unarchiveChange(archiveDir: string, runtime: ExtensionRuntimeState): Promise<void> {
+  const folderName = path.basename(archiveDir);
+  const changesDir = path.dirname(path.dirname(archiveDir));
+
+  const changeId = await vscode.window.showInputBox({
+    title: `Unarchive ${folderName}`,
+    prompt: 'Active change ID',
+    value: ChangeArchiver.activeChangeId(folderName),
+    validateInput: async value => {
+      const invalid = ChangeScaffolder.validateName(value, 'Change ID');
+      if (invalid) {
+        return invalid;
+      }
+      if (await WorkspaceUtils.fileExists(path.join(changesDir, value))) {
+        return `An active change named ${value} already exists`;
+      }
+      return undefined;
+    }
+  });
+  if (!changeId) {
+    return;
+  }
+
+  const snapshot = await ChangeArchiver.readSnapshot(archiveDir);
+  const capabilities = snapshot?.specs.map(spec => spec.capability) ?? [];
+  const revert = 'Move and Revert Specs';
+  const moveOnly = capabilities.length > 0 ? 'Move Only' : 'Unarchive';
+  const detail = capabilities.length > 0
+    ? `The archive merged this change into: ${capabilities.join(', ')}. Revert those specs too? Specs edited since the archive are left as they are.`
+    : snapshot
+      ? 'The archive did not change any spec.'
+      : 'No archive snapshot was found, so spec changes made by the archive stay in the baseline specs.';
+  const selection = await vscode.window.showWarningMessage(
+    `Move ${folderName} back to changes/${changeId}?`,
+    { modal: true, detail },
+    ...(capabilities.length > 0 ? [revert, moveOnly] : [moveOnly])
+  );
+  if (!selection) {
+    return;
+  }
+
+  const result = await ChangeArchiver.unarchive(archiveDir, changeId, selection === revert);
+  WorkspaceUtils.invalidateCache();
+  runtime.explorerProvider?.refresh();
+  runtime.conflictMonitor?.scheduleAnalysis();
+
+  const reverted = result.revertedSpecs.length > 0 ? `; reverted specs: ${result.revertedSpecs.join(', ')}` : '';
+  ErrorHandler.info(`Unarchived ${folderName} to ${changeId}${reverted}`, true);
+  if (result.skippedSpecs.length > 0) {
+    ErrorHandler.warning(
+      `${changeId}: not reverted because they changed after the archive: ${result.skippedSpecs.join(', ')}`
+    );
+  }
+}
@@ -4,43 +4,98 @@ import * as path from 'path';
 import { Commands } from '../constants/commands';
 import { WorkspaceUtils } from '../utils/workspace';
 import { ErrorHandler } from '../utils/errorHandler';
+import { OpenCodeClient } from '../utils/openCodeClient';
+import { OpenCodeSessions } from '../utils/openCodeSessions';
+import { Settings } from '../utils/settings';
 import { ExtensionRuntimeState } from './runtime';
+import { runApplyLoop } from './applyLoop';
+import { archiveChangeNatively, archiveChangeWithOpenCode, unarchiveChange } from './archive';
+import { runNewChangeWizard } from './newChange';
+import { selectOpenSpecRoot } from './openspecRoot';
+import { ensureLocalOpenCodeServerReady, sendPromptToOpenCode } from './opencodePrompt';
+import { createRunnerTerminal } from './runnerTerminal';
+import { MergedSpecContentProvider } from '../providers/mergedSpecProvider';
+import { OpenCodeSessionNode } from '../providers/sessionsProvider';
+import { showRequirementQuickPick } from '../providers/requirementSearchProvider';
 
-async function sleep(ms: number): Promise<void> {
-  await new Promise(resolve => setTimeout(resolve, ms));
+function pickNodeCommand(): string {
+  const base = path.basename(process.execPath).toLowerCase();
+  if (base === 'node' || base === 'node.exe') {
+    return process.execPath;
+  }
+  // Fallback to PATH resolution (eg. user shell / remote environment).
+  return 'node';
 }
 
-async function ensureLocalOpenCodeServerReady(timeoutMs: number = 15000): Promise<boolean> {
-  try {
-    const alreadyListening = await WorkspaceUtils.isOpenCodeServerListening();
-    if (alreadyListening) {
-      return true;
+function resolveTargetPath(target: unknown): string | undefined {
+  if (target instanceof vscode.Uri) {
+    return target.fsPath;
+  }
+  if (typeof target === 'string' && target.trim().length > 0) {
+    return target.trim();
+  }
+  if (target && typeof target === 'object') {
+    const payload = target as Record<string, unknown>;
+    if (typeof payload.path === 'string') {
+      return payload.path;
+    }
+    if (typeof payload.filepath === 'string') {
+      return payload.filepath;
     }
+  }
 
-    // Use the same behavior as the explicit start button.
-    await vscode.commands.executeCommand(Commands.opencodeStartServer);
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+  return activeUri?.scheme === 'file' ? activeUri.fsPath : undefined;
+}
 
-    const startedAt = Date.now();
-    while (Date.now() - startedAt < timeoutMs) {
-      if (await WorkspaceUtils.isOpenCodeServerListening(500)) {
-        return true;
-      }
-      await sleep(500);
-    }
+interface RunnerPayload {
+  url: string;
+  changeId: string;
+  // Change folder, so the run starts in the workspace folder that owns the change.
+  changePath?: string;
+  count?: number;
+  // Optional scope: a single task id (e.g. "2.3") or a section number (e.g. "2").
+  taskId: string;
+  section: string;
+}
 
-    return false;
-  } catch {
-    return false;
+// Accepts an attach URL or `{ url?, changeId?, changePath?, count?, taskId?, section? }`.
+function parseRunnerPayload(target: unknown): RunnerPayload {
+  const parsed: RunnerPayload = { url: Settings.opencodeUrl, changeId: '', taskId: '', section: '' };
+  if (typeof target === 'string' && target.trim().length > 0) {
+    parsed.url = target.trim();
+    return parsed;
+  }
+  if (!target || typeof target !== 'object') {
+    return parsed;
   }
-}
 
-function pickNodeCommand(): string {
-  const base = path.basename(process.execPath).toLowerCase();
-  if (base === 'node' || base === 'node.exe') {
-    return process.execPath;
+  const payload = target as Record<string, unknown>;
+  if (typeof payload.url === 'string' && payload.url.trim().length > 0) {
+    parsed.url = payload.url.trim();
   }
-  // Fallback to PATH resolution (eg. user shell / remote environment).
-  return 'node';
+  if (typeof payload.changeId === 'string' && payload.changeId.trim().length > 0) {
+    parsed.changeId = payload.changeId.trim();
+  }
+  if (typeof payload.changePath === 'string' && payload.changePath.length > 0) {
+    parsed.changePath = payload.changePath;
+  }
+
+  if (typeof payload.count === 'number') {
+    parsed.count = payload.count;
+  } else if (typeof payload.count === 'string' && /^\d+$/.test(payload.count.trim())) {
+    parsed.count = Number(payload.count.trim());
+  }
+  if (parsed.count !== undefined && (!Number.isSafeInteger(parsed.count) || parsed.count < 1)) {
+    parsed.count = undefined;
+  }
+
+  if (typeof payload.taskId === 'string' && /^\d+(\.\d+)*$/.test(payload.taskId.trim())) {
+    parsed.taskId = payload.taskId.trim();
+  } else if (typeof payload.section === 'string' && /^\d+$/.test(payload.section.trim())) {
+    parsed.section = payload.section.trim();
+  }
+  return parsed;
 }
 
 export function registerCommands(context: vscode.ExtensionContext, runtime: ExtensionRuntimeState): void {
@@ -79,12 +134,28 @@ export function registerCommands(context: vscode.ExtensionContext, runtime: Exte
         if (!validation.isValid) {
           // Tasks file exists but format is invalid or has no valid tasks
           const changeId = item.label;
-          const terminalName = `OpenSpec Fix Format: ${changeId}`;
-          const terminal = vscode.window.createTerminal({ name: terminalName });
-          terminal.show(true);
+          const tasksPath = path.join(item.path, 'tasks.md');
+          const choice = await vscode.window.showWarningMessage(
+            `tasks.md for "${changeId}" has no tasks in the "- [ ] 1.1 Description" format.`,
+            ...(validation.hasTasksFile ? ['Open tasks.md'] : []),
+            'Fix with OpenCode'
+          );
+
+          if (choice === 'Open tasks.md') {
+            // Diagnostics and quick fixes for the file show up once it is open.
+            const document = await vscode.workspace.openTextDocument(tasksPath);
+            await vscode.window.showTextDocument(document);
+            return;
+          }
+          if (choice !== 'Fix with OpenCode') {
+            return;
+          }
+
+          const cwd = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(item.path))?.uri.fsPath;
+          const tasksLabel = cwd ? path.relative(cwd, tasksPath).split(path.sep).join('/') : tasksPath;
 
           const fixPrompt =
-            `The tasks.md file at openspec/changes/${changeId}/tasks.md has an incompatible format or contains no valid tasks. ` +
+            `The tasks.md file at ${tasksLabel} has an incompatible format or contains no valid tasks. ` +
             'Please convert it to the OpenSpec standard format:\n\n' +
             'FORMAT TEMPLATE:\n' +
             '## 1. [Section Title]\n\n' +
@@ -101,9 +172,10 @@ export function registerCommands(context: vscode.ExtensionContext, runtime: Exte
             '- One blank line between sections\n' +
             '- Preserve ALL original task content and meaning—only restructure the format\n' +
             '- Do not add, remove, or modify the substance of any task\n\n' +
-            `Please read the file at openspec/changes/${changeId}/tasks.md and rewrite it in this format.`;
+            `Please read the file at ${tasksLabel} and rewrite it in this format.`;
 
-          terminal.sendText(`opencode --prompt ${JSON.stringify(fixPrompt)}`, true);
+          const fixPromptWithContext = runtime.openspecConfig?.withContext(fixPrompt, item.path) ?? fixPrompt;
+          await sendPromptToOpenCode({ title: `Fix tasks.md format: ${changeId}`, prompt: fixPromptWithContext, cwd });
           return; // Exit without proceeding to ralph_opencode.mjs
         }
       } catch (error) {
@@ -141,19 +213,10 @@ export function registerCommands(context: vscode.ExtensionContext, runtime: Exte
 
       const count = Number(tasksPerRun.trim());
 
-      const ready = await ensureLocalOpenCodeServerReady();
-      if (!ready) {
-        vscode.window.showErrorMessage(
-          'OpenCode server is not responding on port 4099. It may still be starting; check the "OpenCode Server" terminal.'
-        );
-        return;
-      }
-
-      // Apply is the Ralph loop: generate runner and run attached.
-      // This mirrors the spec behavior (task loop parity) using the cross-platform script.
-      await vscode.commands.executeCommand(Commands.opencodeRunRunnerAttached, {
-        url: 'http://localhost:4099',
+      // Apply is the Ralph loop, in the extension host or in a terminal (openspec.apply.useTerminalRunner).
+      await vscode.commands.executeCommand(Commands.runTasks, {
         changeId: item.label,
+        changePath: item.path,
         count
       });
     } catch (error) {
@@ -163,6 +226,24 @@ export function registerCommands(context: vscode.ExtensionContext, runtime: Exte
     }
   });
 
+  // Ralph loop for a change, or one task or section of it
+  const runTasksCommand = vscode.commands.registerCommand(Commands.runTasks, async (target?: unknown) => {
+    if (Settings.applyWithTerminalRunner) {
+      await vscode.commands.executeCommand(Commands.opencodeRunRunnerAttached, target);
+      return;
+    }
+
+    const { changeId, changePath, count, taskId, section } = parseRunnerPayload(target);
+    if (!changeId) {
+      vscode.window.showWarningMessage('No change selected');
+      return;
+    }
+    await runApplyLoop(
+      { changeId, changePath, count, scope: taskId ? { taskId } : section ? { section } : undefined },
+      runtime
+    );
+  });
+
   // Fast-forward scaffold-only change (create artifacts)
   const fastForwardChangeCommand = vscode.commands.registerCommand(Commands.ffChange, async (item) => {
     if (!item || !item.label || typeof item.path !== 'string') {
@@ -184,20 +265,18 @@ export function registerCommands(context: vscode.ExtensionContext, runtime: Exte
     }
 
     try {
-      const ready = await ensureLocalOpenCodeServerReady();
-      if (!ready) {
-        vscode.window.showErrorMessage(
-          'OpenCode server is not responding on port 4099. It may still be starting; check the "OpenCode Server" terminal.'
-        );
-        return;
+      const basePrompt = `use openspec ff skill to populate ${changeId}`;
+      const prompt = runtime.openspecConfig?.withContext(basePrompt, item.path) ?? basePrompt;
+      const result = await sendPromptToOpenCode({
+        title: `Fast-forward ${changeId}`,
+        prompt,
+        cwd: vscode.workspace.getWorkspaceFolder(vscode.Uri.file(item.path))?.uri.fsPath,
+        continueLatest: true
+      });
+      if (result?.success) {
+        WorkspaceUtils.invalidateCache();
+        runtime.explorerProvider?.refresh();
       }
-
-      const terminalName = `OpenSpec FF: ${changeId}`;
-      const terminal = vscode.window.createTerminal({ name: terminalName });
-      terminal.show(true);
-
-      const prompt = `use openspec ff skill to populate ${changeId}`;
-      terminal.sendText(`opencode run --attach localhost:4099 --continue ${JSON.stringify(prompt)}`, true);
     } catch (error) {
       vscode.window.showErrorMessage(
         `Failed to start fast-forward flow: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -214,81 +293,199 @@ export function registerCommands(context: vscode.ExtensionContext, runtime: Exte
 
     // Extract the change ID from the label (folder name in kebab case)
     const changeId = item.label;
+    const changeDir = typeof item.path === 'string' ? item.path : undefined;
 
-    try {
-      const terminalName = `OpenSpec Archive: ${changeId}`;
-      const terminal = vscode.window.createTerminal({ name: terminalName });
-      terminal.show(true);
-
-      let tasksStatusLine = 'Tasks: unknown';
+    if (Settings.archiveWithOpenCode || !changeDir) {
       try {
-        const tasksPath = typeof item.path === 'string' ? path.join(item.path, 'tasks.md') : '';
-        if (tasksPath && await WorkspaceUtils.fileExists(tasksPath)) {
-          const content = await WorkspaceUtils.readFile(tasksPath);
-          const unchecked = (content.match(/^- \[ \] /gm) || []).length;
-          tasksStatusLine = unchecked === 0
-            ? 'Tasks: completed'
-            : `Tasks: NOT completed (${unchecked} unchecked)`;
-          if (unchecked > 0) {
-            vscode.window.showWarningMessage(`${changeId}: ${tasksStatusLine}`);
-          } else {
-            vscode.window.showInformationMessage(`${changeId}: ${tasksStatusLine}`);
-          }
-        }
-      } catch {
-        // best-effort
+        await archiveChangeWithOpenCode(changeId, changeDir, runtime);
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to start archive flow: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
       }
+      return;
+    }
+
+    try {
+      await archiveChangeNatively(changeDir, runtime);
+    } catch (error) {
+      ErrorHandler.handle(error as Error, `Failed to archive ${changeId}`);
+    }
+  });
 
-      // User-requested archive prompt content (delegated to opencode).
-      const prompt =
-        'use openspec skill to archive the changes, use question tools when there is multiple spec. let the user know if the tasks is completed or not. '
-        + `Change: ${changeId}. ${tasksStatusLine}.`;
+  // Move an archived change back to the active changes
+  const unarchiveChangeCommand = vscode.commands.registerCommand(Commands.unarchiveChange, async (item) => {
+    if (!item || typeof item.path !== 'string') {
+      vscode.window.showWarningMessage('No archived change selected');
+      return;
+    }
 
-      // Feed opencode a direct prompt. (Matches existing extension pattern of delegating workflows to opencode.)
-      terminal.sendText(`opencode --prompt ${JSON.stringify(prompt)}`, true);
+    try {
+      await unarchiveChange(item.path, runtime);
     } catch (error) {
-      vscode.window.showErrorMessage(
-        `Failed to start archive flow: ${error instanceof Error ? error.message : 'Unknown error'}`
+      ErrorHandler.handle(error as Error, `Failed to unarchive ${item.label}`);
+    }
+  });
+
+  // Preview the baseline spec with a change delta applied (side-by-side diff)
+  const previewMergedSpecCommand = vscode.commands.registerCommand(Commands.previewMergedSpec, async (target?: unknown) => {
+    const deltaSpecPath = resolveTargetPath(target);
+    const location = deltaSpecPath ? WorkspaceUtils.resolveDeltaSpec(deltaSpecPath) : undefined;
+    if (!deltaSpecPath || !location) {
+      vscode.window.showWarningMessage('Open a change delta spec (changes/<id>/specs/<capability>/spec.md) to preview the merged spec');
+      return;
+    }
+
+    try {
+      const result = await MergedSpecContentProvider.computeMerge(deltaSpecPath);
+      const hasBaseline = await WorkspaceUtils.fileExists(location.baselinePath);
+      const left = hasBaseline
+        ? vscode.Uri.file(location.baselinePath)
+        : MergedSpecContentProvider.buildUri(deltaSpecPath, 'baseline');
+      const right = MergedSpecContentProvider.buildUri(deltaSpecPath, 'merged');
+
+      runtime.mergedSpecProvider?.refresh();
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        left,
+        right,
+        `${location.capability}: current ↔ after ${location.changeId}`,
+        { preview: true }
       );
+
+      if (result && result.issues.length > 0) {
+        vscode.window.showWarningMessage(
+          `${location.capability}: ${result.issues.length} delta operation(s) could not be applied. ${result.issues[0].message}`
+        );
+      }
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to preview merged spec');
+    }
+  });
+
+  // Search requirements and scenarios across specs and changes
+  const goToRequirementCommand = vscode.commands.registerCommand(Commands.goToRequirement, async () => {
+    try {
+      await showRequirementQuickPick();
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to search requirements');
+    }
+  });
+
+  // Reveal requirements touched by more than one active change
+  const showConflictsCommand = vscode.commands.registerCommand(Commands.showConflicts, async () => {
+    try {
+      await runtime.conflictMonitor?.analyze();
+      await vscode.commands.executeCommand(Commands.conflictsFocus);
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to show conflicts');
+    }
+  });
+
+  // Pick the OpenSpec root among the openspec/config.yaml files in the workspace
+  const selectRootCommand = vscode.commands.registerCommand(Commands.selectRoot, async () => {
+    try {
+      await selectOpenSpecRoot();
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to select the OpenSpec root');
     }
   });
 
   // Start OpenCode server command
   const startOpenCodeServerCommand = vscode.commands.registerCommand(Commands.opencodeStartServer, async () => {
-    try {
-      const alreadyListening = await WorkspaceUtils.isOpenCodeServerListening();
-      if (alreadyListening) {
-        // If we have (or can find) the terminal, reveal it for convenience.
-        const existing = vscode.window.terminals.find(t => t.name === 'OpenCode Server');
-        existing?.show(true);
-        vscode.window.showInformationMessage('OpenCode server already running on port 4099');
-        return;
-      }
+    const server = runtime.openCodeServer;
+    if (!server) {
+      return false;
+    }
 
-      // Reuse an existing terminal if it still exists; otherwise create a new one.
-      if (runtime.openCodeServerTerminal && !vscode.window.terminals.includes(runtime.openCodeServerTerminal)) {
-        runtime.openCodeServerTerminal = undefined;
+    try {
+      if (server.isManaged || server.status.state === 'external') {
+        const health = await server.checkHealth();
+        if (health?.healthy) {
+          server.showOutput();
+          vscode.window.showInformationMessage(`OpenCode server already running on ${Settings.opencodeAddress}`);
+          return true;
+        }
       }
 
-      if (!runtime.openCodeServerTerminal) {
-        runtime.openCodeServerTerminal = vscode.window.terminals.find(t => t.name === 'OpenCode Server')
-          ?? vscode.window.createTerminal({ name: 'OpenCode Server' });
+      const cwd = (await WorkspaceUtils.resolveWorkspaceFolder())?.uri.fsPath;
+      const ready = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: 'Starting OpenCode server' },
+        () => server.start(cwd)
+      );
+      if (!ready && server.status.state !== 'failed') {
+        const showOutput = 'Show Output';
+        const selection = await vscode.window.showWarningMessage(
+          `OpenCode server is not responding on ${Settings.opencodeAddress} yet.`,
+          showOutput
+        );
+        if (selection === showOutput) {
+          server.showOutput();
+        }
       }
-
-      runtime.openCodeServerTerminal.show(true);
-      // `--print-logs` makes failures visible in the terminal.
-      runtime.openCodeServerTerminal.sendText('opencode serve --port 4099 --print-logs', true);
+      return ready;
     } catch (error) {
       vscode.window.showErrorMessage(
         `Failed to start OpenCode server: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
+      return false;
     }
   });
 
-  // Open OpenCode UI (http://localhost:4099) in default browser
+  // Stop the OpenCode server started by the extension
+  const stopOpenCodeServerCommand = vscode.commands.registerCommand(Commands.opencodeStopServer, async () => {
+    const server = runtime.openCodeServer;
+    if (!server) {
+      return;
+    }
+    if (!server.isManaged) {
+      vscode.window.showInformationMessage(
+        server.status.state === 'external'
+          ? `The OpenCode server on ${Settings.opencodeAddress} was not started by the extension; stop it where it runs.`
+          : 'The OpenCode server is not running.'
+      );
+      return;
+    }
+
+    try {
+      await server.stop();
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to stop OpenCode server');
+    }
+  });
+
+  // Restart the OpenCode server started by the extension
+  const restartOpenCodeServerCommand = vscode.commands.registerCommand(Commands.opencodeRestartServer, async () => {
+    const server = runtime.openCodeServer;
+    if (!server) {
+      return;
+    }
+    if (server.status.state === 'external') {
+      vscode.window.showInformationMessage(
+        `The OpenCode server on ${Settings.opencodeAddress} was not started by the extension; restart it where it runs.`
+      );
+      return;
+    }
+
+    try {
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: 'Restarting OpenCode server' },
+        () => server.restart()
+      );
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to restart OpenCode server');
+    }
+  });
+
+  // Show the OpenCode server log
+  const showOpenCodeServerOutputCommand = vscode.commands.registerCommand(Commands.opencodeShowServerOutput, () => {
+    runtime.openCodeServer?.showOutput();
+  });
+
+  // Open OpenCode UI (`openspec.opencode.host`/`port`) in default browser
   const openOpenCodeUiCommand = vscode.commands.registerCommand(Commands.opencodeOpenUi, async () => {
     try {
-      const url = vscode.Uri.parse('http://localhost:4099');
+      const url = vscode.Uri.parse(Settings.opencodeUrl);
       await vscode.env.openExternal(url);
     } catch (error) {
       vscode.window.showErrorMessage(
@@ -297,22 +494,74 @@ export function registerCommands(context: vscode.ExtensionContext, runtime: Exte
     }
   });
 
-  // OpenCode: load "openspec new change" skill prompt
+  // OpenCode Sessions view
+  const refreshSessionsCommand = vscode.commands.registerCommand(Commands.opencodeRefreshSessions, () => {
+    runtime.sessionsProvider?.refresh();
+  });
+
+  const openSessionCommand = vscode.commands.registerCommand(Commands.opencodeOpenSession, async (node?: OpenCodeSessionNode) => {
+    if (!node?.session) {
+      vscode.window.showWarningMessage('No session selected');
+      return;
+    }
+    try {
+      const url = OpenCodeSessions.uiUrl(Settings.opencodeUrl, node.session.id, node.session.directory ?? node.cwd);
+      await vscode.env.openExternal(vscode.Uri.parse(url));
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to open the session in the OpenCode UI');
+    }
+  });
+
+  const continueSessionCommand = vscode.commands.registerCommand(Commands.opencodeContinueSession, async (node?: OpenCodeSessionNode) => {
+    if (!node?.session) {
+      vscode.window.showWarningMessage('No session selected');
+      return;
+    }
+    const prompt = await vscode.window.showInputBox({
+      title: `Continue "${node.session.title || node.session.id}"`,
+      prompt: node.changeId ? `Prompt for the session working on ${node.changeId}` : 'Prompt to send to the session',
+      ignoreFocusOut: true
+    });
+    if (!prompt?.trim()) {
+      return;
+    }
+    try {
+      await sendPromptToOpenCode({
+        title: node.session.title || node.session.id,
+        prompt: prompt.trim(),
+        cwd: node.cwd,
+        sessionId: node.session.id
+      });
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to continue the OpenCode session');
+    } finally {
+      runtime.sessionsProvider?.refresh();
+    }
+  });
+
+  const abortSessionCommand = vscode.commands.registerCommand(Commands.opencodeAbortSession, async (node?: OpenCodeSessionNode) => {
+    if (!node?.session) {
+      vscode.window.showWarningMessage('No session selected');
+      return;
+    }
+    try {
+      const aborted = await new OpenCodeClient(Settings.opencodeUrl, { directory: node.cwd }).abort(node.session.id);
+      if (!aborted) {
+        vscode.window.showWarningMessage(`"${node.session.title || node.session.id}" was not running.`);
+      }
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to abort the OpenCode session');
+    } finally {
+      runtime.sessionsProvider?.refresh();
+    }
+  });
+
+  // Scaffold a new change (wizard), optionally handing off to OpenCode
   const newChangeCommand = vscode.commands.registerCommand(Commands.opencodeNewChange, async () => {
     try {
-      const prompt = 'load openspec new change skill';
-
-      const terminalName = 'OpenSpec New Change';
-      const terminal = vscode.window.createTerminal({ name: terminalName });
-      terminal.show(true);
-      terminal.sendText(
-        `opencode --agent plan --prompt ${JSON.stringify(prompt)}`,
-        true
-      );
+      await runNewChangeWizard(runtime);
     } catch (error) {
-      vscode.window.showErrorMessage(
-        `Failed to start new change flow: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      ErrorHandler.handle(error as Error, 'Failed to create change');
     }
   });
 
@@ -346,53 +595,21 @@ export function registerCommands(context: vscode.ExtensionContext, runtime: Exte
   const runRunnerAttachedCommand = vscode.commands.registerCommand(
     Commands.opencodeRunRunnerAttached,
     async (attachUrl?: unknown) => {
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-      if (!workspaceFolders || workspaceFolders.length === 0) {
+      const { url, changeId, changePath, count, taskId, section } = parseRunnerPayload(attachUrl);
+
+      const workspaceFolder = await WorkspaceUtils.resolveWorkspaceFolder(changePath);
+      if (!workspaceFolder) {
         vscode.window.showWarningMessage('No workspace folder found');
         return;
       }
 
-      let url = 'http://localhost:4099';
-      let changeId = '';
-      let count: number | undefined;
-      if (typeof attachUrl === 'string' && attachUrl.trim().length > 0) {
-        url = attachUrl.trim();
-      } else if (attachUrl && typeof attachUrl === 'object') {
-        const payload = attachUrl as Record<string, unknown>;
-        const maybeUrl = payload.url;
-        const maybeChangeId = payload.changeId;
-        const maybeCount = payload.count;
-        if (typeof maybeUrl === 'string' && maybeUrl.trim().length > 0) {
-          url = maybeUrl.trim();
-        }
-        if (typeof maybeChangeId === 'string' && maybeChangeId.trim().length > 0) {
-          changeId = maybeChangeId.trim();
-        }
-
-        if (typeof maybeCount === 'number') {
-          count = maybeCount;
-        } else if (typeof maybeCount === 'string') {
-          const trimmed = maybeCount.trim();
-          if (/^\d+$/.test(trimmed)) {
-            count = Number(trimmed);
-          }
-        }
-
-        if (count !== undefined && (!Number.isSafeInteger(count) || count < 1)) {
-          count = undefined;
-        }
-      }
-
-      // If we're attaching to the local default server, ensure it's actually running first.
+      // If we're attaching to the configured server, ensure it's actually running first.
       try {
-        const parsed = new URL(url);
-        const isLocalHost = parsed.hostname === 'localhost' || parsed.hostname === '127.0.0.1' || parsed.hostname === '::1';
-        const isDefaultPort = (parsed.port ? Number(parsed.port) : (parsed.protocol === 'https:' ? 443 : 80)) === 4099;
-        if (isLocalHost && isDefaultPort) {
+        if (new URL(url).host === new URL(Settings.opencodeUrl).host) {
           const ready = await ensureLocalOpenCodeServerReady();
           if (!ready) {
             vscode.window.showErrorMessage(
-              'OpenCode server is not responding on port 4099. It may still be starting; check the "OpenCode Server" terminal.'
+              `OpenCode server is not responding on ${Settings.opencodeAddress}. It may still be starting; check the OpenCode Server output.`
             );
             return;
           }
@@ -401,40 +618,62 @@ export function registerCommands(context: vscode.ExtensionContext, runtime: Exte
         // If URL parsing fails, proceed without auto-starting.
       }
 
-      const workspaceRoot = workspaceFolders[0].uri;
+      const workspaceRoot = workspaceFolder.uri;
       const runnerUri = vscode.Uri.joinPath(context.extensionUri, 'ralph_opencode.mjs');
 
       try {
         await vscode.workspace.fs.stat(runnerUri);
 
-        // Create a dedicated terminal that directly executes Node with args.
-        // This avoids shell-specific quoting issues across cmd.exe / PowerShell / bash.
+        // Run Node directly with args (no shell quoting across cmd.exe / PowerShell / bash) behind a
+        // pseudoterminal, so the runner's events can update the explorer, status bar and details panel.
         if (runtime.openCodeRunnerTerminal) {
           runtime.openCodeRunnerTerminal.dispose();
         }
 
         const nodeCmd = pickNodeCommand();
-        const args: string[] = [runnerUri.fsPath, '--attach', url];
+        const args: string[] = [runnerUri.fsPath, '--events', '--attach', url];
         if (changeId) {
           args.push('--change', changeId);
         }
+        args.push('--openspec-root', path.relative(workspaceRoot.fsPath, WorkspaceUtils.getOpenSpecRoot(workspaceFolder)) || '.');
         if (count !== undefined) {
           args.push('--count', String(count));
         }
+        if (taskId) {
+          args.push('--task', taskId);
+        } else if (section) {
+          args.push('--section', section);
+        }
 
-        // Provide a sane default for environments where `opencode` isn't on PATH.
-        // The runner will attempt direct `opencode` first, then fall back to `npx -y opencode-ai@1.1.44`.
+        // The runner reads tasks.md from disk, so flush unsaved edits first.
+        if (changeId) {
+          const tasksPath = changePath
+            ? path.join(changePath, 'tasks.md')
+            : path.join(WorkspaceUtils.getChangesDir(workspaceFolder), changeId, 'tasks.md');
+          const tasksDocument = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === tasksPath);
+          if (tasksDocument?.isDirty) {
+            await tasksDocument.save();
+          }
+        }
+
+        // The runner tries `openspec.opencode.binary` first, then falls back to
+        // `npx -y <openspec.opencode.npxPackage>` for environments where it isn't on PATH.
         const env = {
           ...process.env,
-          OPENCODE_NPX_PKG: process.env.OPENCODE_NPX_PKG || 'opencode-ai@1.1.44'
+          OPENCODE_BIN: Settings.opencodeBinary,
+          OPENCODE_NPX_PKG: Settings.opencodeNpxPackage,
+          // Project context from openspec/config.yaml, appended to each runner prompt.
+          OPENSPEC_CONTEXT: runtime.openspecConfig?.configFor(workspaceRoot.fsPath).context?.trim() ?? ''
         };
 
-        runtime.openCodeRunnerTerminal = vscode.window.createTerminal({
-          name: 'OpenCode Runner',
+        const tracker = runtime.applyRunMonitor?.track(workspaceRoot.fsPath);
+        runtime.openCodeRunnerTerminal = createRunnerTerminal('OpenCode Runner', {
+          command: nodeCmd,
+          args,
           cwd: workspaceRoot.fsPath,
-          shellPath: nodeCmd,
-          shellArgs: args,
-          env
+          env,
+          onEvent: event => tracker?.onEvent(event),
+          onExit: () => tracker?.dispose()
         });
 
         runtime.openCodeRunnerTerminal.show(true);
@@ -447,44 +686,23 @@ export function registerCommands(context: vscode.ExtensionContext, runtime: Exte
     }
   );
 
-  // Generate proposal command
+  // Generate proposal command (alias of New Change)
   const generateProposalCommand = vscode.commands.registerCommand(Commands.generateProposal, async () => {
-    const changeId = await vscode.window.showInputBox({
-      prompt: 'Enter a change ID (kebab-case, verb-led)',
-      placeHolder: 'add-new-feature',
-      validateInput: (value) => {
-        if (!value) return 'Change ID is required';
-        if (!/^[a-z][a-z0-9-]+$/.test(value)) {
-          return 'Use kebab-case, starting with a letter';
-        }
-        return null;
-      }
-    });
-
-    if (!changeId) {
-      return;
-    }
-
-    const commandText = `openspec create-proposal ${changeId}`;
-    const choice = await vscode.window.showInformationMessage(
-      `Ready to run: ${commandText}`,
-      'Run in Terminal',
-      'Copy Command'
-    );
-
-    if (choice === 'Run in Terminal') {
-      const terminal = vscode.window.createTerminal({ name: 'OpenSpec' });
-      terminal.show(true);
-      terminal.sendText(commandText, true);
-    } else if (choice === 'Copy Command') {
-      await vscode.env.clipboard.writeText(commandText);
-      vscode.window.showInformationMessage('Command copied to clipboard');
-    }
+    // Kept as an alias of the New Change wizard for existing keybindings.
+    await vscode.commands.executeCommand(Commands.opencodeNewChange);
   });
 
   // Initialize workspace command
   const initCommand = vscode.commands.registerCommand(Commands.init, async () => {
-    const terminal = vscode.window.createTerminal({ name: 'OpenSpec Init' });
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    const workspaceFolder = workspaceFolders.length > 1
+      ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Workspace folder to initialize OpenSpec in' })
+      : workspaceFolders[0];
+    if (workspaceFolders.length > 1 && !workspaceFolder) {
+      return;
+    }
+
+    const terminal = vscode.window.createTerminal({ name: 'OpenSpec Init', cwd: workspaceFolder?.uri.fsPath });
     terminal.show(true);
     terminal.sendText('openspec init', true);
     vscode.window.showInformationMessage('Initialized terminal with `openspec init`');
@@ -499,10 +717,23 @@ export function registerCommands(context: vscode.ExtensionContext, runtime: Exte
     viewDetailsCommand,
     listChangesCommand,
     applyChangeCommand,
+    runTasksCommand,
     fastForwardChangeCommand,
     archiveChangeCommand,
+    unarchiveChangeCommand,
+    previewMergedSpecCommand,
+    goToRequirementCommand,
+    showConflictsCommand,
+    selectRootCommand,
     startOpenCodeServerCommand,
+    stopOpenCodeServerCommand,
+    restartOpenCodeServerCommand,
+    showOpenCodeServerOutputCommand,
     openOpenCodeUiCommand,
+    refreshSessionsCommand,
+    openSessionCommand,
+    continueSessionCommand,
+    abortSessionCommand,
     newChangeCommand,
     generateRunnerScriptCommand,
     runRunnerAttachedCommand,
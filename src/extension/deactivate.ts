@@ -1,13 +1,17 @@
 import { ErrorHandler } from '../utils/errorHandler';
 import { ExtensionRuntimeState } from './runtime';
 
-export function deactivateExtension(runtime?: ExtensionRuntimeState) {
+// VS Code awaits the returned promise, so the server gets its SIGTERM-then-SIGKILL shutdown.
+export async function deactivateExtension(runtime?: ExtensionRuntimeState): Promise<void> {
   try {
     runtime?.debounceMap.forEach(timeout => clearTimeout(timeout));
     runtime?.debounceMap.clear();
 
-    if (runtime?.fileWatcher) {
-      runtime.fileWatcher.dispose();
+    runtime?.fileWatchers.forEach(watcher => watcher.dispose());
+    // Stop the OpenCode server the extension started so it does not outlive the window.
+    if (runtime?.openCodeServer) {
+      await runtime.openCodeServer.stop();
+      runtime.openCodeServer.dispose();
     }
     if (runtime?.cacheManager) {
       runtime.cacheManager.dispose();
@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { ChangeScaffolder } from '../utils/changeScaffold';
+import { ErrorHandler } from '../utils/errorHandler';
+import { Settings } from '../utils/settings';
+import { WorkspaceUtils } from '../utils/workspace';
+import { sendPromptToOpenCode } from './opencodePrompt';
+import { ExtensionRuntimeState } from './runtime';
+
+const TOTAL_STEPS = 3;
+const TITLE = 'New OpenSpec Change';
+
+function parseCapabilityList(value: string): string[] {
+  return [...new Set(value.split(/[\s,]+/).map(name => name.trim()).filter(name => name.length > 0))];
+}
+
+/**
+ * Scaffolds a change without OpenCode: asks for the change ID, the existing capabilities it
+ * modifies and any new ones, writes the files, then optionally hands off to OpenCode.
+ */
+export async function runNewChangeWizard(runtime: ExtensionRuntimeState): Promise<void> {
+  const hasOpenSpecFolder = (await WorkspaceUtils.getOpenSpecFolders()).length > 0;
+  const workspaceFolder = hasOpenSpecFolder
+    ? await WorkspaceUtils.pickOpenSpecFolder('Workspace folder to create the change in')
+    : vscode.workspace.workspaceFolders?.[0];
+  if (!workspaceFolder) {
+    if (!hasOpenSpecFolder) {
+      vscode.window.showWarningMessage('Open a workspace folder to create a change');
+    }
+    return;
+  }
+
+  const changesDir = WorkspaceUtils.getChangesDir(workspaceFolder);
+  const activeIds = (await WorkspaceUtils.listDirectories(changesDir)).filter(name => name !== 'archive');
+  const archivedFolders = await WorkspaceUtils.listDirectories(WorkspaceUtils.getArchiveDir(workspaceFolder));
+  const existingCapabilities = (await WorkspaceUtils.listDirectories(WorkspaceUtils.getSpecsDir(workspaceFolder))).sort();
+
+  const changeId = await vscode.window.showInputBox({
+    title: `${TITLE} (1/${TOTAL_STEPS})`,
+    prompt: 'Change ID (kebab-case, verb-led)',
+    placeHolder: 'add-new-feature',
+    ignoreFocusOut: true,
+    validateInput: value => ChangeScaffolder.validateChangeId(value.trim(), activeIds, archivedFolders)
+  });
+  if (!changeId) {
+    return;
+  }
+
+  let modifiedCapabilities: string[] = [];
+  if (existingCapabilities.length > 0) {
+    const picked = await vscode.window.showQuickPick(
+      existingCapabilities.map(capability => ({ label: capability, description: WorkspaceUtils.describeOpenSpecPath(workspaceFolder, 'specs', capability) })),
+      {
+        title: `${TITLE} (2/${TOTAL_STEPS})`,
+        placeHolder: 'Existing capabilities this change modifies (none is fine)',
+        canPickMany: true,
+        ignoreFocusOut: true
+      }
+    );
+    if (!picked) {
+      return;
+    }
+    modifiedCapabilities = picked.map(item => item.label);
+  }
+
+  const newCapabilitiesInput = await vscode.window.showInputBox({
+    title: `${TITLE} (3/${TOTAL_STEPS})`,
+    prompt: 'New capabilities this change introduces (comma-separated, optional)',
+    placeHolder: 'task-scope, runner-events',
+    ignoreFocusOut: true,
+    validateInput: value => {
+      for (const capability of parseCapabilityList(value)) {
+        const invalid = ChangeScaffolder.validateName(capability, 'Capability');
+        if (invalid) {
+          return `${capability}: ${invalid}`;
+        }
+        if (existingCapabilities.includes(capability)) {
+          return `${capability} already exists in ${WorkspaceUtils.describeOpenSpecPath(workspaceFolder, 'specs')}; pick it in the previous step instead`;
+        }
+      }
+      return undefined;
+    }
+  });
+  if (newCapabilitiesInput === undefined) {
+    return;
+  }
+
+  const options = {
+    changeId: changeId.trim(),
+    modifiedCapabilities,
+    newCapabilities: parseCapabilityList(newCapabilitiesInput)
+  };
+  const changeDir = await ChangeScaffolder.create(changesDir, options);
+  WorkspaceUtils.invalidateCache();
+  runtime.explorerProvider?.refresh();
+  ErrorHandler.info(`Created change ${options.changeId} at ${changeDir}`, false);
+
+  await vscode.window.showTextDocument(vscode.Uri.file(path.join(changeDir, 'proposal.md')), { preview: false });
+
+  const fillIn = 'Fill in with OpenCode';
+  const selection = await vscode.window.showInformationMessage(
+    `Created change ${options.changeId}. Write the proposal yourself or let OpenCode draft it.`,
+    fillIn
+  );
+  if (selection === fillIn) {
+    const basePrompt = `use openspec skill to fill in the proposal and delta specs of change ${options.changeId}, then create design.md and tasks.md`;
+    const prompt = runtime.openspecConfig?.withContext(basePrompt, changeDir) ?? basePrompt;
+    const result = await sendPromptToOpenCode({
+      title: `Draft ${options.changeId}`,
+      prompt,
+      cwd: workspaceFolder.uri.fsPath,
+      agent: Settings.opencodeAgent
+    });
+    if (result?.success) {
+      WorkspaceUtils.invalidateCache();
+      runtime.explorerProvider?.refresh();
+    }
+  }
+}
@@ -0,0 +1,334 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn, spawnSync } from 'child_process';
+
+import { Commands } from '../constants/commands';
+import { OpenCodeHealth, OpenCodeServerStatus } from '../types';
+import { ErrorHandler } from '../utils/errorHandler';
+import { OpenCodeClient } from '../utils/openCodeClient';
+import { OPENCODE_DEFAULTS, Settings } from '../utils/settings';
+
+const HEALTH_INTERVAL_MS = 10000;
+const STARTUP_TIMEOUT_MS = 15000;
+const STOP_TIMEOUT_MS = 5000;
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 30000;
+const MAX_RESTARTS = 5;
+// A server that stays up this long starts the restart backoff over.
+const STABLE_AFTER_MS = 60000;
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs `opencode serve` as a child process owned by the extension: logs its output to the
+ * "OpenCode Server" output channel, polls `GET /global/health`, restarts it with exponential
+ * backoff when it exits unexpectedly, and stops it on dispose.
+ */
+export class OpenCodeServerManager implements vscode.Disposable {
+  private _process: ChildProcess | undefined;
+  private _status: OpenCodeServerStatus = { state: 'stopped', restarts: 0 };
+  private _cwd: string | undefined;
+  private _startedAt = 0;
+  private _stopping = false;
+  private _disposed = false;
+  private _restartTimer: NodeJS.Timeout | undefined;
+  private _healthTimer: NodeJS.Timeout | undefined;
+  private readonly _output = vscode.window.createOutputChannel('OpenCode Server');
+  private readonly _statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
+  private readonly _onDidChangeStatus = new vscode.EventEmitter<OpenCodeServerStatus>();
+  readonly onDidChangeStatus = this._onDidChangeStatus.event;
+  private readonly _disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this._statusBar.command = Commands.opencodeShowServerOutput;
+    this._disposables.push(
+      this._output,
+      this._statusBar,
+      this._onDidChangeStatus,
+      vscode.workspace.onDidChangeConfiguration(event => {
+        const affectsServer = ['host', 'port', 'binary', 'printLogs']
+          .some(key => event.affectsConfiguration(`openspec.opencode.${key}`));
+        if (affectsServer && this._process) {
+          void this.offerRestart();
+        }
+      })
+    );
+  }
+
+  get status(): OpenCodeServerStatus {
+    return this._status;
+  }
+
+  get isManaged(): boolean {
+    return this._process !== undefined;
+  }
+
+  showOutput(): void {
+    this._output.show(true);
+  }
+
+  /**
+   * Starts the server in `cwd` unless one already answers on the configured host and port.
+   * Resolves once the health check passes, or false when it does not within the startup timeout.
+   */
+  async start(cwd?: string): Promise<boolean> {
+    if (this._process) {
+      return this.waitUntilHealthy();
+    }
+
+    const existing = await this.client().health();
+    if (existing?.healthy) {
+      this.setStatus({ state: 'external', version: existing.version, pid: undefined, restarts: 0 });
+      return true;
+    }
+
+    this.clearRestartTimer();
+    this._cwd = cwd;
+    this._stopping = false;
+    this._status.restarts = 0;
+    this.spawnServer();
+    return this.waitUntilHealthy();
+  }
+
+  async stop(): Promise<void> {
+    this._stopping = true;
+    this.clearRestartTimer();
+    this.stopHealthPolling();
+
+    const child = this._process;
+    if (child) {
+      const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+      this.killProcess(child);
+      await Promise.race([exited, sleep(STOP_TIMEOUT_MS)]);
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGKILL');
+      }
+      this._process = undefined;
+      this._output.appendLine('[openspec] Server stopped');
+    }
+
+    this.setStatus({ state: 'stopped', version: undefined, pid: undefined });
+  }
+
+  async restart(): Promise<boolean> {
+    const cwd = this._cwd;
+    await this.stop();
+    return this.start(cwd);
+  }
+
+  async checkHealth(): Promise<OpenCodeHealth | undefined> {
+    const health = await this.client().health();
+    if (this._process && health?.healthy) {
+      if (this._status.state !== 'running' || this._status.version !== health.version) {
+        if (this._status.state !== 'running') {
+          this._output.appendLine(`[openspec] Server healthy${health.version ? ` (version ${health.version})` : ''}`);
+        }
+        this.setStatus({ state: 'running', version: health.version });
+      }
+    } else if (!this._process && this._status.state === 'external' && !health?.healthy) {
+      this.setStatus({ state: 'stopped', version: undefined });
+    }
+    return health;
+  }
+
+  private spawnServer(): void {
+    const args = ['serve', '--port', String(Settings.opencodePort)];
+    if (Settings.opencodeHost !== OPENCODE_DEFAULTS.host) {
+      args.push('--hostname', Settings.opencodeHost);
+    }
+    // `--print-logs` makes server failures visible in the output channel.
+    if (Settings.opencodePrintLogs) {
+      args.push('--print-logs');
+    }
+
+    // `.cmd` shims on Windows only run through a shell.
+    const useShell = process.platform === 'win32';
+    const command = useShell ? Settings.opencodeCommand : Settings.opencodeBinary;
+    this._output.appendLine(`[openspec] $ ${command} ${args.join(' ')}${this._cwd ? ` (in ${this._cwd})` : ''}`);
+
+    const child = spawn(command, args, { cwd: this._cwd, env: process.env, shell: useShell });
+    child.stdout?.on('data', (chunk: Buffer) => this._output.append(chunk.toString()));
+    child.stderr?.on('data', (chunk: Buffer) => this._output.append(chunk.toString()));
+    child.on('error', error => this.handleError(child, error));
+    child.on('exit', (code, signal) => this.handleExit(child, code, signal));
+
+    this._process = child;
+    this._startedAt = Date.now();
+    this.setStatus({ state: 'starting', version: undefined, pid: child.pid });
+    this.startHealthPolling();
+  }
+
+  private handleError(child: ChildProcess, error: Error): void {
+    this._output.appendLine(`[openspec] Failed to run ${Settings.opencodeBinary}: ${error.message}`);
+    if (child !== this._process || (error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      return;
+    }
+
+    // A missing binary will not fix itself, so do not retry.
+    this._process = undefined;
+    this.stopHealthPolling();
+    this.setStatus({ state: 'failed', pid: undefined });
+    const openSettings = 'Open Settings';
+    void vscode.window.showErrorMessage(
+      `Could not find "${Settings.opencodeBinary}". Install OpenCode or set openspec.opencode.binary.`,
+      openSettings
+    ).then(selection => {
+      if (selection === openSettings) {
+        void vscode.commands.executeCommand('workbench.action.openSettings', 'openspec.opencode.binary');
+      }
+    });
+  }
+
+  private handleExit(child: ChildProcess, code: number | null, signal: NodeJS.Signals | null): void {
+    if (child !== this._process) {
+      return;
+    }
+
+    this._process = undefined;
+    this.stopHealthPolling();
+    this._output.appendLine(`[openspec] Server exited (${signal ? `signal ${signal}` : `code ${code}`})`);
+    if (this._stopping || this._disposed) {
+      return;
+    }
+    this.scheduleRestart();
+  }
+
+  private scheduleRestart(): void {
+    if (Date.now() - this._startedAt > STABLE_AFTER_MS) {
+      this._status.restarts = 0;
+    }
+
+    if (this._status.restarts >= MAX_RESTARTS) {
+      this.setStatus({ state: 'failed', pid: undefined });
+      ErrorHandler.warning(`OpenCode server exited ${MAX_RESTARTS + 1} times in a row; not restarting it again`, false);
+      const showOutput = 'Show Output';
+      const restart = 'Restart';
+      void vscode.window.showErrorMessage('The OpenCode server keeps exiting.', showOutput, restart)
+        .then(selection => {
+          if (selection === showOutput) {
+            this.showOutput();
+          } else if (selection === restart) {
+            void this.restart();
+          }
+        });
+      return;
+    }
+
+    const delay = Math.min(RESTART_BASE_DELAY_MS * 2 ** this._status.restarts, RESTART_MAX_DELAY_MS);
+    this.setStatus({ state: 'restarting', pid: undefined, restarts: this._status.restarts + 1 });
+    this._output.appendLine(`[openspec] Restarting in ${delay / 1000}s (attempt ${this._status.restarts}/${MAX_RESTARTS})`);
+    this._restartTimer = setTimeout(() => {
+      this._restartTimer = undefined;
+      if (!this._stopping && !this._disposed) {
+        this.spawnServer();
+      }
+    }, delay);
+  }
+
+  private async waitUntilHealthy(): Promise<boolean> {
+    const startedAt = Date.now();
+    while (Date.now() - startedAt < STARTUP_TIMEOUT_MS) {
+      if ((await this.checkHealth())?.healthy) {
+        return true;
+      }
+      if (!this._process) {
+        return false;
+      }
+      await sleep(500);
+    }
+    return false;
+  }
+
+  private async offerRestart(): Promise<void> {
+    const restart = 'Restart';
+    const selection = await vscode.window.showInformationMessage(
+      'OpenCode server settings changed. Restart the server to apply them?',
+      restart
+    );
+    if (selection === restart) {
+      await this.restart();
+    }
+  }
+
+  private startHealthPolling(): void {
+    this.stopHealthPolling();
+    this._healthTimer = setInterval(() => void this.checkHealth(), HEALTH_INTERVAL_MS);
+  }
+
+  private stopHealthPolling(): void {
+    if (this._healthTimer) {
+      clearInterval(this._healthTimer);
+      this._healthTimer = undefined;
+    }
+  }
+
+  private clearRestartTimer(): void {
+    if (this._restartTimer) {
+      clearTimeout(this._restartTimer);
+      this._restartTimer = undefined;
+    }
+  }
+
+  private killProcess(child: ChildProcess): void {
+    if (process.platform === 'win32' && child.pid !== undefined) {
+      // The server runs under a shell on Windows; kill the whole tree.
+      spawnSync('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+    } else {
+      child.kill('SIGTERM');
+    }
+  }
+
+  private client(): OpenCodeClient {
+    return new OpenCodeClient(Settings.opencodeUrl);
+  }
+
+  private setStatus(patch: Partial<OpenCodeServerStatus>): void {
+    this._status = { ...this._status, ...patch };
+    this.renderStatusBar();
+    this._onDidChangeStatus.fire(this._status);
+  }
+
+  private renderStatusBar(): void {
+    const { state, version, restarts } = this._status;
+    const versionSuffix = version ? ` ${version}` : '';
+    const texts: Record<OpenCodeServerStatus['state'], string> = {
+      stopped: '',
+      starting: '$(loading~spin) OpenCode',
+      running: `$(server-process) OpenCode${versionSuffix}`,
+      restarting: `$(sync~spin) OpenCode (restart ${restarts}/${MAX_RESTARTS})`,
+      failed: '$(error) OpenCode',
+      external: `$(server) OpenCode${versionSuffix}`
+    };
+    const tooltips: Record<OpenCodeServerStatus['state'], string> = {
+      stopped: '',
+      starting: `Starting OpenCode server on ${Settings.opencodeAddress}`,
+      running: `OpenCode server running on ${Settings.opencodeAddress}`,
+      restarting: 'OpenCode server exited; restarting',
+      failed: 'OpenCode server is not running; see the OpenCode Server output',
+      external: `OpenCode server on ${Settings.opencodeAddress} (not started by the extension)`
+    };
+
+    if (state === 'stopped') {
+      this._statusBar.hide();
+      return;
+    }
+    this._statusBar.text = texts[state];
+    this._statusBar.tooltip = tooltips[state];
+    this._statusBar.show();
+  }
+
+  dispose(): void {
+    if (this._disposed) {
+      return;
+    }
+    this._disposed = true;
+    this.clearRestartTimer();
+    this.stopHealthPolling();
+    if (this._process) {
+      this.killProcess(this._process);
+      this._process = undefined;
+    }
+    this._disposables.forEach(disposable => disposable.dispose());
+  }
+}
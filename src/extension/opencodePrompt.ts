@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+
+import { Commands } from '../constants/commands';
+import { OpenCodeEvent, OpenCodePromptResult } from '../types';
+import { ErrorHandler } from '../utils/errorHandler';
+import { OpenCodeClient } from '../utils/openCodeClient';
+import { OpenCodeSessions } from '../utils/openCodeSessions';
+import { Settings } from '../utils/settings';
+import { WorkspaceUtils } from '../utils/workspace';
+
+// Events that mean the session is blocked until someone answers in the OpenCode UI.
+const INPUT_EVENTS = new Set(['permission.updated', 'permission.asked', 'question.asked']);
+
+export interface OpenCodePromptRequest {
+  // Shown in the progress notification and used as the session title.
+  title: string;
+  prompt: string;
+  // Project directory the session runs in.
+  cwd?: string;
+  agent?: string;
+  // Continue this session instead of creating one.
+  sessionId?: string;
+  // Continue the most recently updated session instead of creating one.
+  continueLatest?: boolean;
+}
+
+export async function ensureLocalOpenCodeServerReady(): Promise<boolean> {
+  try {
+    const alreadyListening = await WorkspaceUtils.isOpenCodeServerListening();
+    if (alreadyListening) {
+      return true;
+    }
+
+    // Use the same behavior as the explicit start button; it resolves once the health check passes.
+    return (await vscode.commands.executeCommand<boolean>(Commands.opencodeStartServer)) === true;
+  } catch {
+    return false;
+  }
+}
+
+type ShowMessage = (message: string, ...items: string[]) => Thenable<string | undefined>;
+
+// Opens the session in the OpenCode UI when it is known, the UI's start page otherwise.
+function offerOpenUi(show: ShowMessage, message: string, sessionId?: string, cwd?: string): void {
+  const openUi = 'Open OpenCode UI';
+  void show(message, openUi).then(selection => {
+    if (selection === openUi) {
+      const url = sessionId ? OpenCodeSessions.uiUrl(Settings.opencodeUrl, sessionId, cwd) : Settings.opencodeUrl;
+      void vscode.env.openExternal(vscode.Uri.parse(url));
+    }
+  });
+}
+
+/**
+ * Sends a prompt to the attached OpenCode server and waits for the session to finish behind a
+ * cancellable progress notification. Cancelling aborts the session. Resolves undefined when the
+ * server is not reachable or the request fails.
+ */
+export async function sendPromptToOpenCode(request: OpenCodePromptRequest): Promise<OpenCodePromptResult | undefined> {
+  const ready = await ensureLocalOpenCodeServerReady();
+  if (!ready) {
+    vscode.window.showErrorMessage(
+      `OpenCode server is not responding on ${Settings.opencodeAddress}. It may still be starting; check the OpenCode Server output.`
+    );
+    return undefined;
+  }
+
+  const client = new OpenCodeClient(Settings.opencodeUrl, { directory: request.cwd });
+  let result: OpenCodePromptResult;
+  try {
+    result = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `OpenCode: ${request.title}`, cancellable: true },
+      async (progress, token) => {
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        try {
+          const sessionId = request.sessionId ?? (request.continueLatest ? (await client.latestSession())?.id : undefined);
+          let waitingForInput = false;
+          progress.report({ message: sessionId ? 'Continuing the session…' : 'Starting a session…' });
+
+          return await client.runPrompt(request.prompt, {
+            sessionId,
+            title: request.title,
+            agent: request.agent,
+            signal: controller.signal,
+            onEvent: (event: OpenCodeEvent) => {
+              if (INPUT_EVENTS.has(event.type) && !waitingForInput) {
+                waitingForInput = true;
+                progress.report({ message: 'Waiting for your answer in the OpenCode UI…' });
+                const eventSessionId = typeof event.properties.sessionID === 'string' ? event.properties.sessionID : undefined;
+                offerOpenUi(vscode.window.showInformationMessage, `OpenCode needs input for "${request.title}".`, eventSessionId, request.cwd);
+              }
+            }
+          });
+        } finally {
+          cancellation.dispose();
+        }
+      }
+    );
+  } catch (error) {
+    ErrorHandler.handle(error as Error, `OpenCode prompt "${request.title}" failed`, false);
+    offerOpenUi(
+      vscode.window.showErrorMessage,
+      `OpenCode prompt "${request.title}" failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    return undefined;
+  }
+
+  if (result.aborted) {
+    vscode.window.showInformationMessage(`OpenCode: ${request.title} cancelled.`);
+  } else if (result.success) {
+    offerOpenUi(vscode.window.showInformationMessage, `OpenCode: ${request.title} finished.`, result.sessionId, request.cwd);
+  } else {
+    ErrorHandler.warning(`OpenCode session ${result.sessionId} failed: ${result.error ?? 'unknown error'}`, false);
+    offerOpenUi(
+      vscode.window.showErrorMessage,
+      `OpenCode: ${request.title} failed: ${result.error ?? 'unknown error'}`,
+      result.sessionId,
+      request.cwd
+    );
+  }
+  return result;
+}
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { ErrorHandler } from '../utils/errorHandler';
+import { Settings } from '../utils/settings';
+import { WorkspaceUtils } from '../utils/workspace';
+
+/**
+ * Lists the `openspec/config.yaml` files in the workspace and stores the chosen one's folder as
+ * `openspec.root` of its workspace folder. Returns false when nothing was found or picked.
+ */
+export async function selectOpenSpecRoot(): Promise<boolean> {
+  const roots = await WorkspaceUtils.discoverOpenSpecRoots();
+  if (roots.length === 0) {
+    vscode.window.showInformationMessage('No openspec/config.yaml found in the workspace.');
+    return false;
+  }
+
+  const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+  const picked = await vscode.window.showQuickPick(
+    roots.map(({ workspaceFolder, root }) => {
+      const relative = path.relative(workspaceFolder.uri.fsPath, root).split(path.sep).join('/') || '.';
+      const isCurrent = WorkspaceUtils.getOpenSpecRoot(workspaceFolder) === root;
+      return {
+        label: relative,
+        description: [isMultiRoot ? workspaceFolder.name : '', isCurrent ? 'current' : ''].filter(Boolean).join(' · '),
+        workspaceFolder,
+        relative
+      };
+    }),
+    { placeHolder: 'OpenSpec root to use', ignoreFocusOut: true }
+  );
+  if (!picked) {
+    return false;
+  }
+
+  await Settings.setOpenSpecRoot(picked.workspaceFolder, picked.relative);
+  ErrorHandler.info(`OpenSpec root of ${picked.workspaceFolder.name} set to ${picked.relative}`, false);
+  return true;
+}
+
+/**
+ * Discovery mode (`openspec.discoverRoot`): when no workspace folder has an OpenSpec root at the
+ * configured path but `openspec/config.yaml` files exist elsewhere, offers to pick one.
+ */
+export async function offerDiscoveredRoots(): Promise<void> {
+  if (!Settings.discoverRoot || (await WorkspaceUtils.getOpenSpecFolders()).length > 0) {
+    return;
+  }
+
+  const roots = await WorkspaceUtils.discoverOpenSpecRoots();
+  if (roots.length === 0) {
+    return;
+  }
+
+  const choose = 'Choose Root';
+  const selection = await vscode.window.showInformationMessage(
+    `Found ${roots.length} OpenSpec root${roots.length === 1 ? '' : 's'} outside the configured location.`,
+    choose
+  );
+  if (selection === choose) {
+    await selectOpenSpecRoot();
+  }
+}
@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
+
+import { RalphLoopEvent } from '../types';
+import { RalphEventParser } from '../utils/ralphLoop';
+
+export interface RunnerTerminalOptions {
+  command: string;
+  // Runner script and arguments, including `--events`.
+  args: string[];
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  onEvent: (event: RalphLoopEvent) => void;
+  // Called once the runner exits or fails to start.
+  onExit?: (code: number | null) => void;
+}
+
+const CTRL_C = '\x03';
+
+/**
+ * Runs `ralph_opencode.mjs --events` behind a terminal: the runner's log (stderr) is shown in
+ * the terminal while its JSON events (stdout) go to `onEvent`. Ctrl+C or closing the terminal
+ * stops the runner.
+ */
+export function createRunnerTerminal(name: string, options: RunnerTerminalOptions): vscode.Terminal {
+  const writeEmitter = new vscode.EventEmitter<string>();
+  const closeEmitter = new vscode.EventEmitter<number | void>();
+  const parser = new RalphEventParser();
+  let child: ChildProcess | undefined;
+  let exited = false;
+
+  // Terminals need CRLF line endings.
+  const write = (text: string) => writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+  const exit = (code: number | null, message: string) => {
+    if (exited) {
+      return;
+    }
+    exited = true;
+    parser.flush().forEach(options.onEvent);
+    options.onExit?.(code);
+    write(`\n${message} Press any key to close this terminal.\n`);
+  };
+
+  const pty: vscode.Pseudoterminal = {
+    onDidWrite: writeEmitter.event,
+    onDidClose: closeEmitter.event,
+    open: () => {
+      child = spawn(options.command, options.args, { cwd: options.cwd, env: options.env, stdio: ['ignore', 'pipe', 'pipe'] });
+      child.stdout?.setEncoding('utf8');
+      child.stdout?.on('data', (chunk: string) => parser.feed(chunk).forEach(options.onEvent));
+      child.stderr?.setEncoding('utf8');
+      child.stderr?.on('data', (chunk: string) => write(chunk));
+      child.on('error', error => exit(null, `Failed to start the runner: ${error.message}.`));
+      child.on('close', code => exit(code, `Runner exited with code ${code ?? 'unknown'}.`));
+    },
+    handleInput: data => {
+      if (exited) {
+        closeEmitter.fire();
+      } else if (data === CTRL_C) {
+        write('^C\n');
+        child?.kill();
+      }
+    },
+    close: () => {
+      if (child && !exited) {
+        child.kill();
+      }
+      writeEmitter.dispose();
+      closeEmitter.dispose();
+    }
+  };
+
+  return vscode.window.createTerminal({ name, pty });
+}
@@ -2,18 +2,36 @@ import * as vscode from 'vscode';
 
 import { OpenSpecExplorerProvider } from '../providers/explorerProvider';
 import { OpenSpecWebviewProvider } from '../providers/webviewProvider';
+import { MergedSpecContentProvider } from '../providers/mergedSpecProvider';
+import { SpecDiagnosticsProvider } from '../providers/specDiagnosticsProvider';
+import { TasksDiagnosticsProvider } from '../providers/tasksDiagnosticsProvider';
+import { ConflictMonitor } from '../providers/conflictProvider';
+import { OpenSpecConfigProvider } from '../providers/configProvider';
+import { OpenCodeSessionsProvider } from '../providers/sessionsProvider';
+import { ApplyRunMonitor } from '../providers/applyRunMonitor';
 import { CacheManager } from '../utils/cache';
+import { OpenCodeServerManager } from './openCodeServer';
 
 export interface ExtensionRuntimeState {
   explorerProvider?: OpenSpecExplorerProvider;
   webviewProvider?: OpenSpecWebviewProvider;
-  fileWatcher?: vscode.FileSystemWatcher;
+  mergedSpecProvider?: MergedSpecContentProvider;
+  specDiagnostics?: SpecDiagnosticsProvider;
+  tasksDiagnostics?: TasksDiagnosticsProvider;
+  conflictMonitor?: ConflictMonitor;
+  openspecConfig?: OpenSpecConfigProvider;
+  // One per workspace folder.
+  fileWatchers: vscode.FileSystemWatcher[];
   cacheManager?: CacheManager;
-  openCodeServerTerminal?: vscode.Terminal;
+  openCodeServer?: OpenCodeServerManager;
+  sessionsProvider?: OpenCodeSessionsProvider;
   openCodeRunnerTerminal?: vscode.Terminal;
+  // tasks.md paths with an Apply loop running in the extension host.
+  applyRuns: Set<string>;
+  applyRunMonitor?: ApplyRunMonitor;
   debounceMap: Map<string, NodeJS.Timeout>;
 }
 
 export function createExtensionRuntimeState(): ExtensionRuntimeState {
-  return { debounceMap: new Map<string, NodeJS.Timeout>() };
+  return { debounceMap: new Map<string, NodeJS.Timeout>(), fileWatchers: [], applyRuns: new Set<string>() };
 }
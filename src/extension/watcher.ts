@@ -8,50 +8,95 @@ export function registerOpenSpecWatcher(
   context: vscode.ExtensionContext,
   runtime: ExtensionRuntimeState
 ): void {
+  watchWorkspaceFolders(runtime);
+
+  // Folders added to or removed from a multi-root workspace get their own watcher.
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      WorkspaceUtils.invalidateCache();
+      watchWorkspaceFolders(runtime);
+      checkWorkspaceInitialization(runtime);
+      runtime.conflictMonitor?.scheduleAnalysis();
+      runtime.sessionsProvider?.refresh();
+    }),
+    // A new `openspec.root` moves the watchers, explorer and diagnostics (config.yaml reloads itself).
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (!event.affectsConfiguration('openspec.root')) {
+        return;
+      }
+      WorkspaceUtils.invalidateCache();
+      watchWorkspaceFolders(runtime);
+      checkWorkspaceInitialization(runtime);
+      void runtime.specDiagnostics?.validateAll();
+      void runtime.tasksDiagnostics?.validateAll();
+      runtime.conflictMonitor?.scheduleAnalysis();
+      runtime.sessionsProvider?.refresh();
+    }),
+    { dispose: () => disposeWatchers(runtime) }
+  );
+}
+
+function watchWorkspaceFolders(runtime: ExtensionRuntimeState): void {
+  disposeWatchers(runtime);
+
   const workspaceFolders = vscode.workspace.workspaceFolders;
   if (!workspaceFolders || workspaceFolders.length === 0) {
     ErrorHandler.warning('No workspace folder found', false);
     return;
   }
 
-  const workspaceFolder = workspaceFolders[0];
-  // Only watch the workspace-root openspec folder.
-  // This avoids accidentally binding to nested examples (e.g. testingproject/openspec).
-  const openspecGlob = new vscode.RelativePattern(workspaceFolder, 'openspec/**');
+  for (const workspaceFolder of workspaceFolders) {
+    // Only watch each folder's configured OpenSpec root (`openspec.root`).
+    // This avoids accidentally binding to nested examples (e.g. testingproject/openspec).
+    const openspecGlob = WorkspaceUtils.getOpenSpecPattern(workspaceFolder, '**');
 
-  try {
-    runtime.fileWatcher = vscode.workspace.createFileSystemWatcher(openspecGlob);
+    try {
+      const fileWatcher = vscode.workspace.createFileSystemWatcher(openspecGlob);
 
-    runtime.fileWatcher.onDidCreate(() => {
-      debounce(runtime, () => {
-        WorkspaceUtils.invalidateCache();
-        runtime.explorerProvider?.refresh();
-        checkWorkspaceInitialization(runtime);
-      }, 500);
-    });
+      fileWatcher.onDidCreate(() => {
+        debounce(runtime, () => {
+          WorkspaceUtils.invalidateCache();
+          runtime.explorerProvider?.refresh();
+          void runtime.specDiagnostics?.validateAll();
+          void runtime.tasksDiagnostics?.validateAll();
+          runtime.conflictMonitor?.scheduleAnalysis();
+          checkWorkspaceInitialization(runtime);
+        }, 500);
+      });
 
-    runtime.fileWatcher.onDidChange(() => {
-      debounce(runtime, () => {
-        WorkspaceUtils.invalidateCache();
-        runtime.explorerProvider?.refresh();
-      }, 500);
-    });
+      fileWatcher.onDidChange(() => {
+        debounce(runtime, () => {
+          WorkspaceUtils.invalidateCache();
+          runtime.explorerProvider?.refresh();
+          runtime.mergedSpecProvider?.refresh();
+          runtime.conflictMonitor?.scheduleAnalysis();
+        }, 500);
+      });
 
-    runtime.fileWatcher.onDidDelete(() => {
-      debounce(runtime, () => {
-        WorkspaceUtils.invalidateCache();
-        runtime.explorerProvider?.refresh();
-        checkWorkspaceInitialization(runtime);
-      }, 500);
-    });
+      fileWatcher.onDidDelete(() => {
+        debounce(runtime, () => {
+          WorkspaceUtils.invalidateCache();
+          runtime.explorerProvider?.refresh();
+          void runtime.specDiagnostics?.validateAll();
+          void runtime.tasksDiagnostics?.validateAll();
+          runtime.conflictMonitor?.scheduleAnalysis();
+          checkWorkspaceInitialization(runtime);
+        }, 500);
+      });
 
-    context.subscriptions.push(runtime.fileWatcher);
-    ErrorHandler.info('File system watcher initialized', false);
-  } catch (error) {
-    ErrorHandler.handle(error as Error, 'Failed to setup file system watcher');
+      runtime.fileWatchers.push(fileWatcher);
+      ErrorHandler.info(`File system watcher initialized for ${workspaceFolder.name}`, false);
+    } catch (error) {
+      ErrorHandler.handle(error as Error, `Failed to setup file system watcher for ${workspaceFolder.name}`);
+    }
   }
 }
 
+function disposeWatchers(runtime: ExtensionRuntimeState): void {
+  runtime.fileWatchers.forEach(watcher => watcher.dispose());
+  runtime.fileWatchers = [];
+}
+
 export function checkWorkspaceInitialization(runtime: ExtensionRuntimeState): void {
   const workspaceFolders = vscode.workspace.workspaceFolders;
   if (!workspaceFolders || workspaceFolders.length === 0) {
@@ -59,13 +104,15 @@ export function checkWorkspaceInitialization(runtime: ExtensionRuntimeState): vo
     return;
   }
 
-  const workspaceFolder = workspaceFolders[0];
-
-  WorkspaceUtils.isOpenSpecInitialized(workspaceFolder)
-    .then(isInitialized => {
+  WorkspaceUtils.getOpenSpecFolders()
+    .then(openspecFolders => {
+      const isInitialized = openspecFolders.length > 0;
       vscode.commands.executeCommand('setContext', 'openspec:initialized', isInitialized);
       runtime.explorerProvider?.refresh();
-      ErrorHandler.info(`Workspace initialization status: ${isInitialized}`, false);
+      ErrorHandler.info(
+        `Workspace initialization status: ${isInitialized}${isInitialized ? ` (${openspecFolders.map(folder => folder.name).join(', ')})` : ''}`,
+        false
+      );
     })
     .catch(error => {
       ErrorHandler.handle(error as Error, 'Failed to check workspace initialization');
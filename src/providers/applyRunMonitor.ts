@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { Commands } from '../constants/commands';
+import { RalphLoopEvent, TreeItemData } from '../types';
+
+export interface ApplyRun {
+  changeId: string;
+  changeDir: string;
+  iteration: number;
+  // Tasks of the batch OpenCode is working on that are not checked off yet.
+  taskIds: string[];
+  completed: string[];
+}
+
+export interface ApplyRunTracker extends vscode.Disposable {
+  onEvent(event: RalphLoopEvent): void;
+}
+
+/**
+ * Follows running Apply loops, in the extension host or in the runner terminal, through their
+ * Ralph loop events. Shows the running tasks in the status bar and tells the explorer and the
+ * details panel which tasks are in progress.
+ */
+export class ApplyRunMonitor implements vscode.Disposable {
+  private readonly _runs = new Map<string, ApplyRun>();
+  private readonly _statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
+  private readonly _onDidChangeRuns = new vscode.EventEmitter<ApplyRun>();
+  readonly onDidChangeRuns = this._onDidChangeRuns.event;
+  private readonly _disposables: vscode.Disposable[] = [this._statusBar, this._onDidChangeRuns];
+
+  runFor(changeDir: string): ApplyRun | undefined {
+    return this._runs.get(changeDir);
+  }
+
+  // "task 1.2", "tasks 1.2, 1.3", or "starting" before the first batch.
+  static describeTasks(taskIds: readonly string[]): string {
+    if (taskIds.length === 0) {
+      return 'starting';
+    }
+    return taskIds.length === 1 ? `task ${taskIds[0]}` : `tasks ${taskIds.join(', ')}`;
+  }
+
+  /**
+   * Starts following one run. `cwd` is the directory the run's `tasksPath` is relative to;
+   * disposing the tracker drops the run even if it never reported `run.finished`.
+   */
+  track(cwd: string): ApplyRunTracker {
+    let run: ApplyRun | undefined;
+    const end = () => {
+      if (run && this._runs.get(run.changeDir) === run) {
+        this._runs.delete(run.changeDir);
+        this.update(run);
+      }
+      run = undefined;
+    };
+
+    return {
+      onEvent: event => {
+        if (event.type === 'run.started') {
+          end();
+          run = {
+            changeId: event.changeId,
+            changeDir: path.dirname(path.resolve(cwd, event.tasksPath)),
+            iteration: 0,
+            taskIds: [],
+            completed: []
+          };
+          this._runs.set(run.changeDir, run);
+          this.update(run);
+          return;
+        }
+        if (!run) {
+          return;
+        }
+
+        switch (event.type) {
+          case 'batch.selected':
+            run.iteration = event.iteration;
+            run.taskIds = [...event.taskIds];
+            break;
+          case 'task.verified':
+            run.completed.push(event.taskId);
+            run.taskIds = run.taskIds.filter(id => id !== event.taskId);
+            break;
+          case 'run.finished':
+            end();
+            return;
+          default:
+            return;
+        }
+        this.update(run);
+      },
+      dispose: end
+    };
+  }
+
+  private update(run: ApplyRun): void {
+    this.updateStatusBar();
+    this._onDidChangeRuns.fire(run);
+  }
+
+  private updateStatusBar(): void {
+    const runs = [...this._runs.values()];
+    if (runs.length === 0) {
+      this._statusBar.hide();
+      return;
+    }
+
+    const lines = runs.map(run => `${run.changeId}: ${ApplyRunMonitor.describeTasks(run.taskIds)} (${run.completed.length} done)`);
+    if (runs.length === 1) {
+      const [run] = runs;
+      const item: TreeItemData = {
+        id: `change-${run.changeId}`,
+        label: run.changeId,
+        type: 'change',
+        path: run.changeDir,
+        contextValue: 'change:active',
+        metadata: { isActive: true, status: 'in-progress' }
+      };
+      this._statusBar.text = `$(sync~spin) Applying ${run.changeId}: ${ApplyRunMonitor.describeTasks(run.taskIds)}`;
+      this._statusBar.command = { command: Commands.viewDetails, title: 'View Details', arguments: [item] };
+    } else {
+      this._statusBar.text = `$(sync~spin) Applying ${runs.length} changes`;
+      this._statusBar.command = undefined;
+    }
+    this._statusBar.tooltip = lines.join('\n');
+    this._statusBar.show();
+  }
+
+  dispose(): void {
+    this._runs.clear();
+    this._disposables.forEach(disposable => disposable.dispose());
+  }
+}
@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { OpenSpecConfig } from '../types';
+import { ErrorHandler } from '../utils/errorHandler';
+import { OpenSpecConfigParser } from '../utils/openspecConfig';
+import { ValidationIssue } from '../utils/specValidator';
+import { WorkspaceUtils } from '../utils/workspace';
+import { toDiagnosticSeverity } from './specDiagnosticsProvider';
+
+const VALIDATION_DELAY_MS = 300;
+
+/**
+ * Loads `openspec/config.yaml` of every workspace folder, keeps them current as the files change,
+ * and reports config problems and rule violations in change artifacts to the Problems panel.
+ */
+export class OpenSpecConfigProvider implements vscode.Disposable {
+  // Workspace folder path -> config.
+  private readonly _configs = new Map<string, OpenSpecConfig>();
+  private readonly _collection = vscode.languages.createDiagnosticCollection('openspec-config');
+  private readonly _onDidChangeConfig = new vscode.EventEmitter<OpenSpecConfig>();
+  readonly onDidChangeConfig = this._onDidChangeConfig.event;
+  private readonly _disposables: vscode.Disposable[] = [];
+  private _watchers: vscode.FileSystemWatcher[] = [];
+  private readonly _pending = new Map<string, NodeJS.Timeout>();
+
+  constructor() {
+    this._disposables.push(
+      this._collection,
+      this._onDidChangeConfig,
+      vscode.workspace.onDidOpenTextDocument(document => this.schedule(document.uri)),
+      vscode.workspace.onDidChangeTextDocument(event => this.schedule(event.document.uri)),
+      vscode.workspace.onDidSaveTextDocument(document => this.schedule(document.uri)),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => {
+        this.watchConfigFiles();
+        void this.load();
+      }),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('openspec.root')) {
+          this.watchConfigFiles();
+          void this.load();
+        }
+      })
+    );
+    this.watchConfigFiles();
+  }
+
+  // Config of the workspace folder containing `fsPath`; the first folder's when `fsPath` is unset.
+  configFor(fsPath?: string): OpenSpecConfig {
+    const workspaceFolder = fsPath
+      ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath))
+      : vscode.workspace.workspaceFolders?.[0];
+    return (workspaceFolder && this._configs.get(workspaceFolder.uri.fsPath)) || { rules: {} };
+  }
+
+  rulesFor(artifact: string, fsPath?: string): string[] {
+    return this.configFor(fsPath).rules[artifact] ?? [];
+  }
+
+  // Adds the config.yaml `context` of the folder containing `fsPath` to a prompt sent to OpenCode.
+  withContext(prompt: string, fsPath?: string): string {
+    return OpenSpecConfigParser.withContext(prompt, this.configFor(fsPath));
+  }
+
+  async load(): Promise<void> {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    this._configs.clear();
+
+    for (const workspaceFolder of workspaceFolders) {
+      const configPath = WorkspaceUtils.getConfigPath(workspaceFolder);
+      try {
+        const content = await WorkspaceUtils.readLiveText(configPath);
+        const parsed = content === undefined ? { config: { rules: {} }, issues: [] } : OpenSpecConfigParser.parse(content);
+        this._configs.set(workspaceFolder.uri.fsPath, parsed.config);
+        this._collection.set(vscode.Uri.file(configPath), parsed.issues.map(issue => this.toDiagnostic(issue, content)));
+        this._onDidChangeConfig.fire(parsed.config);
+      } catch (error) {
+        ErrorHandler.handle(error as Error, `Failed to load ${configPath}`, false);
+      }
+    }
+
+    await this.validateAll();
+  }
+
+  async validateAll(): Promise<void> {
+    try {
+      this._collection.forEach(uri => {
+        if (!this.isConfigPath(uri.fsPath)) {
+          this._collection.delete(uri);
+        }
+      });
+      const hasRules = Array.from(this._configs.values()).some(config => Object.keys(config.rules).length > 0);
+      if (!hasRules) {
+        return;
+      }
+
+      const files = await WorkspaceUtils.findOpenSpecFiles('{changes/*/{proposal,design,tasks}.md,changes/*/specs/*/spec.md}');
+      for (const file of files) {
+        await this.validateFile(file);
+      }
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to check config.yaml rules', false);
+    }
+  }
+
+  private watchConfigFiles(): void {
+    this._watchers.forEach(watcher => watcher.dispose());
+    this._watchers = (vscode.workspace.workspaceFolders ?? []).map(workspaceFolder => {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        WorkspaceUtils.getOpenSpecPattern(workspaceFolder, 'config.yaml')
+      );
+      watcher.onDidCreate(() => void this.load());
+      watcher.onDidChange(() => void this.load());
+      watcher.onDidDelete(() => void this.load());
+      return watcher;
+    });
+  }
+
+  private artifactFor(fsPath: string): string | undefined {
+    return OpenSpecConfigParser.artifactForPath(fsPath, dir => WorkspaceUtils.isOpenSpecRootDir(dir));
+  }
+
+  private isConfigPath(fsPath: string): boolean {
+    return (vscode.workspace.workspaceFolders ?? []).some(
+      workspaceFolder => WorkspaceUtils.getConfigPath(workspaceFolder) === fsPath
+    );
+  }
+
+  private schedule(uri: vscode.Uri): void {
+    if (uri.scheme !== 'file') {
+      return;
+    }
+    const isConfig = this.isConfigPath(uri.fsPath);
+    if (!isConfig && !this.artifactFor(uri.fsPath)) {
+      return;
+    }
+
+    const key = uri.toString();
+    const existing = this._pending.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this._pending.set(key, setTimeout(() => {
+      this._pending.delete(key);
+      void (isConfig ? this.load() : this.validateFile(uri));
+    }, VALIDATION_DELAY_MS));
+  }
+
+  private async validateFile(uri: vscode.Uri): Promise<void> {
+    const artifact = this.artifactFor(uri.fsPath);
+    const rules = artifact ? this.rulesFor(artifact, uri.fsPath) : [];
+    const content = rules.length > 0 ? await WorkspaceUtils.readLiveText(uri.fsPath) : undefined;
+    if (content === undefined) {
+      this._collection.delete(uri);
+      return;
+    }
+
+    this._collection.set(uri, OpenSpecConfigParser.checkRules(content, rules).map(issue => this.toDiagnostic(issue, content)));
+  }
+
+  private toDiagnostic(
+    issue: ValidationIssue,
+    content: string | undefined
+  ): vscode.Diagnostic {
+    const lineLength = content?.split(/\r?\n/)[issue.line]?.length ?? 0;
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(issue.line, 0, issue.line, lineLength),
+      issue.message,
+      toDiagnosticSeverity(issue.severity)
+    );
+    diagnostic.source = 'OpenSpec';
+    diagnostic.code = issue.code;
+    return diagnostic;
+  }
+
+  dispose(): void {
+    this._pending.forEach(timeout => clearTimeout(timeout));
+    this._pending.clear();
+    this._watchers.forEach(watcher => watcher.dispose());
+    this._disposables.forEach(disposable => disposable.dispose());
+  }
+}
@@ -0,0 +1,226 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ChangeDeltaSpec, ConflictSide, RequirementConflict } from '../types';
+import { ConflictAnalyzer } from '../utils/conflictAnalyzer';
+import { ErrorHandler } from '../utils/errorHandler';
+import { SpecParser } from '../utils/specParser';
+import { WorkspaceUtils } from '../utils/workspace';
+
+const ANALYSIS_DELAY_MS = 500;
+
+const OPERATION_VERBS: Record<ConflictSide['operation'], string> = {
+  ADDED: 'added',
+  MODIFIED: 'modified',
+  REMOVED: 'removed',
+  RENAMED: 'renamed'
+};
+
+/**
+ * Watches active change delta specs for requirements touched by more than one change and
+ * reports them as diagnostics in both delta files and as decorations on the change folders.
+ */
+export class ConflictMonitor implements vscode.FileDecorationProvider, vscode.Disposable {
+  private _conflicts: RequirementConflict[] = [];
+  private _conflictingChanges = new Map<string, Set<string>>();
+  private _pending: NodeJS.Timeout | undefined;
+  private readonly _collection = vscode.languages.createDiagnosticCollection('openspec-conflicts');
+  private readonly _onDidChangeConflicts = new vscode.EventEmitter<void>();
+  readonly onDidChangeConflicts = this._onDidChangeConflicts.event;
+  private readonly _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+  readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
+  private readonly _disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this._disposables.push(
+      this._collection,
+      this._onDidChangeConflicts,
+      this._onDidChangeFileDecorations,
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleAnalysisFor(event.document.uri)),
+      vscode.workspace.onDidSaveTextDocument(document => this.scheduleAnalysisFor(document.uri))
+    );
+  }
+
+  get conflicts(): readonly RequirementConflict[] {
+    return this._conflicts;
+  }
+
+  scheduleAnalysis(): void {
+    if (this._pending) {
+      clearTimeout(this._pending);
+    }
+    this._pending = setTimeout(() => {
+      this._pending = undefined;
+      void this.analyze();
+    }, ANALYSIS_DELAY_MS);
+  }
+
+  async analyze(): Promise<void> {
+    try {
+      // Changes only conflict with changes of the same OpenSpec root.
+      const conflicts: RequirementConflict[] = [];
+      for (const workspaceFolder of await WorkspaceUtils.getOpenSpecFolders()) {
+        conflicts.push(...ConflictAnalyzer.findConflicts(await this.loadActiveDeltas(workspaceFolder)));
+      }
+      this._conflicts = conflicts;
+      this.publishDiagnostics();
+
+      const previous = [...this._conflictingChanges.keys()];
+      this._conflictingChanges = this.groupByChangeDir();
+      const changed = [...new Set([...previous, ...this._conflictingChanges.keys()])].map(dir => vscode.Uri.file(dir));
+      this._onDidChangeFileDecorations.fire(changed);
+      this._onDidChangeConflicts.fire();
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to analyze change conflicts', false);
+    }
+  }
+
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    const others = this._conflictingChanges.get(uri.fsPath);
+    if (!others || others.size === 0) {
+      return undefined;
+    }
+    return {
+      badge: '!',
+      tooltip: `Conflicts with ${[...others].sort().join(', ')}`,
+      color: new vscode.ThemeColor('list.warningForeground')
+    };
+  }
+
+  private scheduleAnalysisFor(uri: vscode.Uri): void {
+    const location = uri.scheme === 'file' ? WorkspaceUtils.resolveDeltaSpec(uri.fsPath) : undefined;
+    if (location && !location.isArchived) {
+      this.scheduleAnalysis();
+    }
+  }
+
+  private async loadActiveDeltas(workspaceFolder: vscode.WorkspaceFolder): Promise<ChangeDeltaSpec[]> {
+    const changesDir = WorkspaceUtils.getChangesDir(workspaceFolder);
+    const deltas: ChangeDeltaSpec[] = [];
+    for (const changeId of await WorkspaceUtils.listDirectories(changesDir)) {
+      if (changeId === 'archive') {
+        continue;
+      }
+      const specsDir = path.join(changesDir, changeId, 'specs');
+      for (const capability of await WorkspaceUtils.listDirectories(specsDir)) {
+        const filePath = path.join(specsDir, capability, 'spec.md');
+        const content = await WorkspaceUtils.readLiveText(filePath);
+        if (content !== undefined) {
+          deltas.push({ changeId, capability, filePath, spec: SpecParser.parse(content) });
+        }
+      }
+    }
+    return deltas;
+  }
+
+  private publishDiagnostics(): void {
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    const add = (conflict: RequirementConflict, side: ConflictSide, other: ConflictSide) => {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(side.line, 0, side.line, Number.MAX_SAFE_INTEGER),
+        `"${conflict.requirement}" is also ${OPERATION_VERBS[other.operation]} by change "${other.changeId}"; whichever change is archived second will fail to merge`,
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'OpenSpec';
+      diagnostic.code = 'requirement-conflict';
+      diagnostic.relatedInformation = [
+        new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(vscode.Uri.file(other.filePath), new vscode.Position(other.line, 0)),
+          `${other.operation} in ${other.changeId}`
+        )
+      ];
+      const diagnostics = byFile.get(side.filePath) ?? [];
+      diagnostics.push(diagnostic);
+      byFile.set(side.filePath, diagnostics);
+    };
+
+    for (const conflict of this._conflicts) {
+      add(conflict, conflict.first, conflict.second);
+      add(conflict, conflict.second, conflict.first);
+    }
+
+    this._collection.clear();
+    byFile.forEach((diagnostics, filePath) => this._collection.set(vscode.Uri.file(filePath), diagnostics));
+  }
+
+  // Change folder path -> IDs of the changes it conflicts with.
+  private groupByChangeDir(): Map<string, Set<string>> {
+    const groups = new Map<string, Set<string>>();
+    const add = (side: ConflictSide, other: ConflictSide) => {
+      const changeDir = path.dirname(path.dirname(path.dirname(side.filePath)));
+      const others = groups.get(changeDir) ?? new Set<string>();
+      others.add(other.changeId);
+      groups.set(changeDir, others);
+    };
+    for (const conflict of this._conflicts) {
+      add(conflict.first, conflict.second);
+      add(conflict.second, conflict.first);
+    }
+    return groups;
+  }
+
+  dispose(): void {
+    if (this._pending) {
+      clearTimeout(this._pending);
+    }
+    this._disposables.forEach(disposable => disposable.dispose());
+  }
+}
+
+type ConflictTreeNode =
+  | { kind: 'conflict'; conflict: RequirementConflict }
+  | { kind: 'side'; conflict: RequirementConflict; side: ConflictSide };
+
+/**
+ * Backs the "Conflicts" view: one node per overlapping pair, expanding to both delta entries.
+ */
+export class ConflictsTreeProvider implements vscode.TreeDataProvider<ConflictTreeNode>, vscode.Disposable {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<ConflictTreeNode | undefined | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private readonly _subscription: vscode.Disposable;
+
+  constructor(private readonly _monitor: ConflictMonitor) {
+    this._subscription = _monitor.onDidChangeConflicts(() => this._onDidChangeTreeData.fire());
+  }
+
+  getTreeItem(node: ConflictTreeNode): vscode.TreeItem {
+    if (node.kind === 'conflict') {
+      const { conflict } = node;
+      const item = new vscode.TreeItem(conflict.requirement, vscode.TreeItemCollapsibleState.Expanded);
+      item.description = `${conflict.capability} · ${conflict.first.changeId} ↔ ${conflict.second.changeId}`;
+      item.tooltip = `${conflict.capability}: "${conflict.requirement}" is changed by both ${conflict.first.changeId} (${conflict.first.operation}) and ${conflict.second.changeId} (${conflict.second.operation})`;
+      item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+      item.contextValue = 'conflict';
+      return item;
+    }
+
+    const { side } = node;
+    const item = new vscode.TreeItem(side.changeId, vscode.TreeItemCollapsibleState.None);
+    item.description = side.operation;
+    item.tooltip = side.filePath;
+    item.iconPath = new vscode.ThemeIcon('file-text');
+    item.command = {
+      command: 'vscode.open',
+      title: 'Open Delta Spec',
+      arguments: [vscode.Uri.file(side.filePath), { selection: new vscode.Range(side.line, 0, side.line, 0) }]
+    };
+    return item;
+  }
+
+  getChildren(node?: ConflictTreeNode): ConflictTreeNode[] {
+    if (!node) {
+      return this._monitor.conflicts.map(conflict => ({ kind: 'conflict', conflict }));
+    }
+    if (node.kind === 'conflict') {
+      return [
+        { kind: 'side', conflict: node.conflict, side: node.conflict.first },
+        { kind: 'side', conflict: node.conflict, side: node.conflict.second }
+      ];
+    }
+    return [];
+  }
+
+  dispose(): void {
+    this._subscription.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { DeltaSpecLocation, SpecRequirement } from '../types';
+import { SpecParser } from '../utils/specParser';
+import { WorkspaceUtils } from '../utils/workspace';
+
+export const DELTA_SPEC_SELECTOR: vscode.DocumentSelector = {
+  scheme: 'file',
+  language: 'markdown',
+  pattern: '**/openspec/changes/**/specs/*/spec.md'
+};
+
+interface BaselineLookup {
+  location: DeltaSpecLocation;
+  // Name as written in the delta (the FROM name for RENAMED entries).
+  name: string;
+  headerRange: vscode.Range;
+  requirement?: SpecRequirement;
+  suggestion?: SpecRequirement;
+  hasBaseline: boolean;
+}
+
+/**
+ * Hover and go-to-definition from MODIFIED/REMOVED requirements and RENAMED FROM entries
+ * in a change delta spec to the matching requirement in the baseline spec.
+ */
+export class DeltaNavigationProvider implements vscode.HoverProvider, vscode.DefinitionProvider {
+  async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+    const lookup = await this.lookup(document, position.line);
+    if (!lookup) {
+      return undefined;
+    }
+
+    const { location, name } = lookup;
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const baselineLabel = workspaceFolder
+      ? WorkspaceUtils.describeOpenSpecPath(workspaceFolder, 'specs', location.capability, 'spec.md')
+      : location.baselinePath;
+    const markdown = new vscode.MarkdownString();
+    if (lookup.requirement) {
+      markdown.appendMarkdown(`**Current baseline** · \`${baselineLabel}\`\n\n`);
+      markdown.appendCodeblock(lookup.requirement.text, 'markdown');
+    } else if (!lookup.hasBaseline) {
+      markdown.appendMarkdown(`$(warning) \`${baselineLabel}\` does not exist, so "${name}" cannot be modified, removed or renamed.`);
+    } else {
+      markdown.appendMarkdown(`$(warning) No requirement named "${name}" in \`${baselineLabel}\`. Archiving this change will fail.`);
+      if (lookup.suggestion) {
+        markdown.appendMarkdown(`\n\nDid you mean "${lookup.suggestion.name}"?`);
+      }
+    }
+    markdown.supportThemeIcons = true;
+    return new vscode.Hover(markdown, lookup.headerRange);
+  }
+
+  async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location | undefined> {
+    const lookup = await this.lookup(document, position.line);
+    if (!lookup?.requirement) {
+      return undefined;
+    }
+    const line = lookup.requirement.headerLine;
+    return new vscode.Location(vscode.Uri.file(lookup.location.baselinePath), new vscode.Range(line, 0, line, 0));
+  }
+
+  private async lookup(document: vscode.TextDocument, line: number): Promise<BaselineLookup | undefined> {
+    // Archived deltas are already merged into the baseline, so there is nothing to compare against.
+    const location = WorkspaceUtils.resolveDeltaSpec(document.uri.fsPath);
+    if (!location || location.isArchived) {
+      return undefined;
+    }
+
+    const name = this.referencedName(document.getText(), line);
+    if (!name) {
+      return undefined;
+    }
+
+    const headerRange = document.lineAt(line).range;
+    const baselineContent = await WorkspaceUtils.readLiveText(location.baselinePath);
+    if (baselineContent === undefined) {
+      return { location, name, headerRange, hasBaseline: false };
+    }
+
+    const baseline = SpecParser.parse(baselineContent);
+    const requirement = SpecParser.findRequirement(baseline.requirements, name);
+    return {
+      location,
+      name,
+      headerRange,
+      requirement,
+      suggestion: requirement ? undefined : SpecParser.findClosestRequirement(baseline.requirements, name),
+      hasBaseline: true
+    };
+  }
+
+  // Requirement name referenced on `line`, if it points at an existing baseline requirement.
+  private referencedName(content: string, line: number): string | undefined {
+    const delta = SpecParser.parse(content);
+    for (const section of delta.deltas) {
+      if (line < section.range.startLine || line > section.range.endLine) {
+        continue;
+      }
+      if (section.operation === 'MODIFIED' || section.operation === 'REMOVED') {
+        return section.requirements.find(requirement => requirement.headerLine === line)?.name;
+      }
+      if (section.operation === 'RENAMED') {
+        return section.renames.find(rename => rename.fromLine === line)?.from;
+      }
+    }
+    return undefined;
+  }
+}
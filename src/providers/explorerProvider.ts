@@ -1,56 +1,73 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { TreeItemData } from '../types';
+import { ParsedTasks, SpecRequirement, TreeItemData } from '../types';
 import { ErrorHandler } from '../utils/errorHandler';
 import { WorkspaceUtils } from '../utils/workspace';
+import { TasksParser } from '../utils/tasksParser';
+import { ApplyRunMonitor } from './applyRunMonitor';
 
 export class OpenSpecExplorerProvider implements vscode.TreeDataProvider<TreeItemData> {
   private _onDidChangeTreeData: vscode.EventEmitter<TreeItemData | undefined | null | void> = new vscode.EventEmitter<TreeItemData | undefined | null | void>();
   readonly onDidChangeTreeData: vscode.Event<TreeItemData | undefined | null | void> = this._onDidChangeTreeData.event;
 
-  private _workspaceFolder: vscode.WorkspaceFolder | undefined;
+  // Set while the workspace has more than one OpenSpec folder; node IDs are then prefixed per folder.
+  private _isMultiRoot = false;
 
-  constructor() {
-    this.updateWorkspaceFolder();
-  }
+  constructor(private readonly _applyRuns?: ApplyRunMonitor) {}
 
   refresh(): void {
-    this.updateWorkspaceFolder();
     this._onDidChangeTreeData.fire();
   }
 
   getTreeItem(element: TreeItemData): vscode.TreeItem {
-    const collapsibleState = element.type === 'folder' 
-      ? vscode.TreeItemCollapsibleState.Collapsed 
-      : (element.children && element.children.length > 0) 
+    const collapsibleState = element.type === 'workspace'
+      ? vscode.TreeItemCollapsibleState.Expanded
+      : element.type === 'folder' 
         ? vscode.TreeItemCollapsibleState.Collapsed 
-        : vscode.TreeItemCollapsibleState.None;
+        : (element.children && element.children.length > 0) 
+          ? vscode.TreeItemCollapsibleState.Collapsed 
+          : vscode.TreeItemCollapsibleState.None;
     
     const treeItem = new vscode.TreeItem(element.label, collapsibleState);
 
     treeItem.id = element.id;
+    treeItem.description = element.description;
     treeItem.tooltip = this.getTooltip(element);
     treeItem.contextValue = element.contextValue || 'default';
     
-    if (element.iconPath) {
+    const run = element.type === 'change' && element.path ? this._applyRuns?.runFor(element.path) : undefined;
+    if (run) {
+      treeItem.iconPath = new vscode.ThemeIcon('sync~spin');
+      treeItem.description = [element.description, ApplyRunMonitor.describeTasks(run.taskIds)].filter(Boolean).join(' · ');
+      treeItem.tooltip = `${treeItem.tooltip}\nApplying: ${ApplyRunMonitor.describeTasks(run.taskIds)}`;
+    } else if (element.iconPath) {
       treeItem.iconPath = new vscode.ThemeIcon(element.iconPath);
     } else if (element.type === 'change') {
-      const isActive = element.metadata?.isActive;
-      treeItem.iconPath = new vscode.ThemeIcon(isActive ? 'circle-outline' : 'check-circle');
+      treeItem.iconPath = this.getChangeIcon(element);
     } else if (element.type === 'spec') {
       treeItem.iconPath = new vscode.ThemeIcon('file-text');
+    } else if (element.type === 'requirement') {
+      treeItem.iconPath = new vscode.ThemeIcon('symbol-class');
+    } else if (element.type === 'scenario') {
+      treeItem.iconPath = new vscode.ThemeIcon('symbol-method');
     } else if (element.type === 'folder') {
       treeItem.iconPath = new vscode.ThemeIcon('folder');
     }
 
     if (element.path) {
-      if (element.type === 'spec') {
+      if (element.type === 'spec' || element.type === 'requirement' || element.type === 'scenario') {
+        const line = element.line ?? 0;
         treeItem.command = {
           command: 'vscode.open',
           title: 'Open Spec',
-          arguments: [vscode.Uri.file(element.path)]
+          arguments: [
+            vscode.Uri.file(element.path),
+            { selection: new vscode.Range(line, 0, line, 0) }
+          ]
         };
       } else if (element.type === 'change') {
+        // Lets file decorations (e.g. requirement conflicts) badge the change node.
+        treeItem.resourceUri = vscode.Uri.file(element.path);
         treeItem.command = {
           command: 'openspec.viewDetails',
           title: 'View Details',
@@ -62,32 +79,54 @@ export class OpenSpecExplorerProvider implements vscode.TreeDataProvider<TreeIte
     return treeItem;
   }
 
-  getChildren(element?: TreeItemData): Thenable<TreeItemData[]> {
-    if (!this._workspaceFolder) {
-      return Promise.resolve([this.getWelcomeItem()]);
-    }
-
-    return WorkspaceUtils.isOpenSpecInitialized(this._workspaceFolder).then(isInitialized => {
-      if (!isInitialized) {
+  async getChildren(element?: TreeItemData): Promise<TreeItemData[]> {
+    if (!element) {
+      const folders = await WorkspaceUtils.getOpenSpecFolders();
+      ErrorHandler.debug(`[ExplorerProvider] OpenSpec folders: ${JSON.stringify(folders.map(folder => folder.uri.fsPath))}`);
+      this._isMultiRoot = folders.length > 1;
+      if (folders.length === 0) {
         return [this.getWelcomeItem()];
       }
-
-      if (!element) {
-        return this.getRootItems();
+      if (folders.length === 1) {
+        return this.getRootItems(folders[0]);
       }
+      return folders.map(folder => ({
+        id: `workspace-${folder.uri.fsPath}`,
+        label: folder.name,
+        type: 'workspace' as const,
+        iconPath: 'root-folder',
+        contextValue: 'workspace',
+        rootPath: folder.uri.fsPath
+      }));
+    }
 
-      if (element.type === 'folder') {
-        if (element.id === 'changes') {
-          return this.getChangesItems();
-        } else if (element.id === 'active-changes' || element.id === 'completed-changes') {
-          return Promise.resolve(element.children || []);
-        } else if (element.id === 'specs') {
-          return this.getSpecsItems();
-        }
+    const workspaceFolder = element.rootPath
+      ? vscode.workspace.workspaceFolders?.find(folder => folder.uri.fsPath === element.rootPath)
+      : undefined;
+
+    if (element.type === 'workspace') {
+      return workspaceFolder ? this.getRootItems(workspaceFolder) : [];
+    }
+
+    if (element.type === 'folder') {
+      if (element.id === this.scopedId(workspaceFolder, 'changes')) {
+        return workspaceFolder ? this.getChangesItems(workspaceFolder) : [];
+      } else if (element.id === this.scopedId(workspaceFolder, 'specs')) {
+        return workspaceFolder ? this.getSpecsItems(workspaceFolder) : [];
       }
+      return element.children || [];
+    }
 
-      return Promise.resolve([]);
-    });
+    if (element.type === 'spec' || element.type === 'requirement') {
+      return element.children || [];
+    }
+
+    return [];
+  }
+
+  // Tree item IDs must be unique across the whole tree, so multi-root nodes carry their folder.
+  private scopedId(workspaceFolder: vscode.WorkspaceFolder | undefined, id: string): string {
+    return this._isMultiRoot && workspaceFolder ? `${workspaceFolder.uri.fsPath}#${id}` : id;
   }
 
   private getWelcomeItem(): TreeItemData {
@@ -99,57 +138,57 @@ export class OpenSpecExplorerProvider implements vscode.TreeDataProvider<TreeIte
     };
   }
 
-  private getRootItems(): TreeItemData[] {
+  private getRootItems(workspaceFolder: vscode.WorkspaceFolder): TreeItemData[] {
     return [
       {
-        id: 'changes',
+        id: this.scopedId(workspaceFolder, 'changes'),
         label: 'Changes',
         type: 'folder',
         iconPath: 'folder-opened',
+        rootPath: workspaceFolder.uri.fsPath,
         children: [] // Will be populated lazily
       },
       {
-        id: 'specs',
+        id: this.scopedId(workspaceFolder, 'specs'),
         label: 'Specifications',
         type: 'folder', 
         iconPath: 'folder',
+        rootPath: workspaceFolder.uri.fsPath,
         children: [] // Will be populated lazily
       }
     ];
   }
 
-  private async getChangesItems(): Promise<TreeItemData[]> {
-    if (!this._workspaceFolder) {
-      return [];
-    }
-
+  private async getChangesItems(workspaceFolder: vscode.WorkspaceFolder): Promise<TreeItemData[]> {
     const items: TreeItemData[] = [];
 
     // Active changes
-    const changesDir = WorkspaceUtils.getChangesDir(this._workspaceFolder);
-    const activeChanges = await this.getActiveChanges(changesDir);
+    const changesDir = WorkspaceUtils.getChangesDir(workspaceFolder);
+    const activeChanges = await this.getActiveChanges(workspaceFolder, changesDir);
     
     if (activeChanges.length > 0) {
       const activeFolder = {
-        id: 'active-changes',
+        id: this.scopedId(workspaceFolder, 'active-changes'),
         label: `Active Changes (${activeChanges.length})`,
         type: 'folder' as const,
         iconPath: 'circle-outline',
+        rootPath: workspaceFolder.uri.fsPath,
         children: activeChanges
       };
       items.push(activeFolder);
     }
 
     // Completed changes
-    const archiveDir = WorkspaceUtils.getArchiveDir(this._workspaceFolder);
-    const completedChanges = await this.getCompletedChanges(archiveDir);
+    const archiveDir = WorkspaceUtils.getArchiveDir(workspaceFolder);
+    const completedChanges = await this.getCompletedChanges(workspaceFolder, archiveDir);
     
     if (completedChanges.length > 0) {
       const completedFolder = {
-        id: 'completed-changes',
+        id: this.scopedId(workspaceFolder, 'completed-changes'),
         label: `Completed Changes (${completedChanges.length})`,
         type: 'folder' as const,
         iconPath: 'check-circle',
+        rootPath: workspaceFolder.uri.fsPath,
         children: completedChanges
       };
       items.push(completedFolder);
@@ -158,7 +197,7 @@ export class OpenSpecExplorerProvider implements vscode.TreeDataProvider<TreeIte
     return items;
   }
 
-  private async getActiveChanges(changesDir: string): Promise<TreeItemData[]> {
+  private async getActiveChanges(workspaceFolder: vscode.WorkspaceFolder, changesDir: string): Promise<TreeItemData[]> {
     const changeNames = await WorkspaceUtils.listDirectories(changesDir);
     ErrorHandler.debug(`[ExplorerProvider] Looking for changes in: ${changesDir}`);
     ErrorHandler.debug(`[ExplorerProvider] Found directories: ${JSON.stringify(changeNames)}`);
@@ -170,17 +209,23 @@ export class OpenSpecExplorerProvider implements vscode.TreeDataProvider<TreeIte
       const changePath = path.join(changesDir, changeName);
       const isScaffoldOnly = await WorkspaceUtils.isScaffoldOnlyActiveChange(changePath);
       const hasNoTasks = await WorkspaceUtils.hasNoTasks(changePath);
+      const tasks = hasNoTasks ? undefined : await this.readTasks(changePath);
+      const nextTask = tasks ? TasksParser.nextUncheckedTask(tasks) : undefined;
 
       items.push({
-        id: `change-${changeName}`,
+        id: this.scopedId(workspaceFolder, `change-${changeName}`),
         label: changeName,
         type: 'change',
         path: changePath,
+        description: tasks && tasks.totalCount > 0 ? `${tasks.completedCount}/${tasks.totalCount}` : undefined,
         contextValue: hasNoTasks ? 'change:active:no-tasks' : 'change:active',
         metadata: {
           isActive: true,
           isScaffoldOnly,
           hasNoTasks,
+          completedTasks: tasks?.completedCount,
+          totalTasks: tasks?.totalCount,
+          nextTaskId: nextTask?.id,
           status: 'in-progress'
         }
       });
@@ -190,7 +235,16 @@ export class OpenSpecExplorerProvider implements vscode.TreeDataProvider<TreeIte
     return items.sort((a, b) => a.label.localeCompare(b.label));
   }
 
-  private async getCompletedChanges(archiveDir: string): Promise<TreeItemData[]> {
+  private async readTasks(changePath: string): Promise<ParsedTasks | undefined> {
+    try {
+      return await WorkspaceUtils.readTasks(path.join(changePath, 'tasks.md'));
+    } catch (error) {
+      ErrorHandler.debug(`[ExplorerProvider] Failed to read tasks for ${changePath}: ${error}`);
+      return undefined;
+    }
+  }
+
+  private async getCompletedChanges(workspaceFolder: vscode.WorkspaceFolder, archiveDir: string): Promise<TreeItemData[]> {
     const changeNames = await WorkspaceUtils.listDirectories(archiveDir);
     const items: TreeItemData[] = [];
 
@@ -198,7 +252,7 @@ export class OpenSpecExplorerProvider implements vscode.TreeDataProvider<TreeIte
       const changePath = path.join(archiveDir, changeName);
 
       items.push({
-        id: `change-${changeName}`,
+        id: this.scopedId(workspaceFolder, `change-${changeName}`),
         label: changeName,
         type: 'change',
         path: changePath,
@@ -213,12 +267,8 @@ export class OpenSpecExplorerProvider implements vscode.TreeDataProvider<TreeIte
     return items.sort((a, b) => a.label.localeCompare(b.label));
   }
 
-  private async getSpecsItems(): Promise<TreeItemData[]> {
-    if (!this._workspaceFolder) {
-      return [];
-    }
-
-    const specsDir = WorkspaceUtils.getSpecsDir(this._workspaceFolder);
+  private async getSpecsItems(workspaceFolder: vscode.WorkspaceFolder): Promise<TreeItemData[]> {
+    const specsDir = WorkspaceUtils.getSpecsDir(workspaceFolder);
     const specNames = await WorkspaceUtils.listDirectories(specsDir);
     const items: TreeItemData[] = [];
 
@@ -226,17 +276,24 @@ export class OpenSpecExplorerProvider implements vscode.TreeDataProvider<TreeIte
       const specPath = path.join(specsDir, specName);
       const specMdPath = path.join(specPath, 'spec.md');
       
-      let requirementCount = 0;
+      let requirementItems: TreeItemData[] = [];
       if (await WorkspaceUtils.fileExists(specMdPath)) {
-        requirementCount = await WorkspaceUtils.countRequirementsInSpec(specMdPath);
+        try {
+          const spec = await WorkspaceUtils.readSpec(specMdPath);
+          requirementItems = this.getRequirementItems(this.scopedId(workspaceFolder, `spec-${specName}`), specMdPath, spec.requirements);
+        } catch (error) {
+          ErrorHandler.debug(`[ExplorerProvider] Failed to parse ${specMdPath}: ${error}`);
+        }
       }
+      const requirementCount = requirementItems.length;
 
       items.push({
-        id: `spec-${specName}`,
+        id: this.scopedId(workspaceFolder, `spec-${specName}`),
         label: `${specName} (${requirementCount} requirements)`,
         type: 'spec',
         path: specMdPath,
         contextValue: 'spec',
+        children: requirementItems,
         metadata: {
           requirementCount
         }
@@ -246,11 +303,66 @@ export class OpenSpecExplorerProvider implements vscode.TreeDataProvider<TreeIte
     return items.sort((a, b) => a.label.localeCompare(b.label));
   }
 
+  private getRequirementItems(parentId: string, specMdPath: string, requirements: SpecRequirement[]): TreeItemData[] {
+    return requirements.map((requirement, index) => {
+      const requirementId = `${parentId}-requirement-${index}`;
+      const scenarioItems: TreeItemData[] = requirement.scenarios.map((scenario, scenarioIndex) => ({
+        id: `${requirementId}-scenario-${scenarioIndex}`,
+        label: scenario.name,
+        type: 'scenario',
+        path: specMdPath,
+        line: scenario.headerLine,
+        contextValue: 'scenario',
+        metadata: {
+          summary: scenario.steps.map(step => `${step.keyword} ${step.text}`).join('\n')
+        }
+      }));
+
+      return {
+        id: requirementId,
+        label: requirement.name,
+        description: `${scenarioItems.length} scenario${scenarioItems.length === 1 ? '' : 's'}`,
+        type: 'requirement',
+        path: specMdPath,
+        line: requirement.headerLine,
+        contextValue: 'requirement',
+        children: scenarioItems,
+        metadata: {
+          scenarioCount: scenarioItems.length,
+          summary: requirement.body
+        }
+      };
+    });
+  }
+
+  // Active changes fill up as tasks are checked off; archived ones keep the check mark.
+  private getChangeIcon(element: TreeItemData): vscode.ThemeIcon {
+    if (!element.metadata?.isActive) {
+      return new vscode.ThemeIcon('check-circle');
+    }
+
+    const total = element.metadata.totalTasks ?? 0;
+    const completed = element.metadata.completedTasks ?? 0;
+    if (total > 0 && completed === total) {
+      return new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('charts.green'));
+    }
+    if (completed > 0) {
+      return new vscode.ThemeIcon('circle-large-filled', new vscode.ThemeColor('charts.yellow'));
+    }
+    return new vscode.ThemeIcon('circle-outline');
+  }
+
   private getTooltip(element: TreeItemData): string {
     if (element.type === 'change') {
       const isActive = element.metadata?.isActive;
       const status = element.metadata?.status;
-      return `${element.label} - ${isActive ? 'Active' : 'Completed'} (${status})`;
+      const lines = [`${element.label} - ${isActive ? 'Active' : 'Completed'} (${status})`];
+      const total = element.metadata?.totalTasks;
+      if (isActive && total) {
+        lines.push(`Tasks: ${element.metadata?.completedTasks ?? 0}/${total} done`);
+        lines.push(element.metadata?.nextTaskId ? `Next task: ${element.metadata.nextTaskId}` : 'All tasks done');
+      }
+      return lines.join('\n');
     }
     
     if (element.type === 'spec') {
@@ -258,17 +370,14 @@ export class OpenSpecExplorerProvider implements vscode.TreeDataProvider<TreeIte
       return `${element.label} - ${count} requirements`;
     }
 
+    if ((element.type === 'requirement' || element.type === 'scenario') && element.metadata?.summary) {
+      return `${element.label}\n\n${element.metadata.summary}`;
+    }
+
+    if (element.type === 'workspace' && element.rootPath) {
+      return element.rootPath;
+    }
+
     return element.label;
   }
-
-  private updateWorkspaceFolder(): void {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    ErrorHandler.debug(`[ExplorerProvider] Workspace folders: ${JSON.stringify(workspaceFolders?.map(f => f.uri.fsPath) || [])}`);
-    if (workspaceFolders && workspaceFolders.length > 0) {
-      this._workspaceFolder = workspaceFolders[0];
-      ErrorHandler.debug(`[ExplorerProvider] Selected workspace: ${this._workspaceFolder.uri.fsPath}`);
-    } else {
-      this._workspaceFolder = undefined;
-    }
-  }
 }
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SpecMerger, SpecMergeResult } from '../utils/specMerge';
+import { WorkspaceUtils } from '../utils/workspace';
+
+export const MERGED_SPEC_SCHEME = 'openspec-merged';
+
+type MergedSpecSide = 'merged' | 'baseline';
+
+interface MergedSpecQuery {
+  delta: string;
+  side: MergedSpecSide;
+}
+
+/**
+ * Serves read-only virtual documents with the result of applying a change delta spec
+ * to its baseline (`openspec-merged:` URIs), so they can be shown in `vscode.diff`.
+ */
+export class MergedSpecContentProvider implements vscode.TextDocumentContentProvider {
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange: vscode.Event<vscode.Uri> = this._onDidChange.event;
+
+  private _knownUris = new Map<string, vscode.Uri>();
+
+  static buildUri(deltaSpecPath: string, side: MergedSpecSide): vscode.Uri {
+    const location = WorkspaceUtils.resolveDeltaSpec(deltaSpecPath);
+    const capability = location?.capability ?? path.basename(path.dirname(deltaSpecPath));
+    const label = side === 'merged' ? `${capability}/spec.md (after ${location?.changeId ?? 'change'})` : `${capability}/spec.md`;
+    const query: MergedSpecQuery = { delta: deltaSpecPath, side };
+    return vscode.Uri.from({ scheme: MERGED_SPEC_SCHEME, path: `/${label}`, query: JSON.stringify(query) });
+  }
+
+  static async computeMerge(deltaSpecPath: string): Promise<SpecMergeResult | undefined> {
+    const location = WorkspaceUtils.resolveDeltaSpec(deltaSpecPath);
+    const deltaContent = await WorkspaceUtils.readLiveText(deltaSpecPath);
+    if (!location || deltaContent === undefined) {
+      return undefined;
+    }
+
+    const baselineContent = await WorkspaceUtils.readLiveText(location.baselinePath);
+    return SpecMerger.apply(baselineContent, deltaContent, location.capability);
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    this._knownUris.set(uri.toString(), uri);
+
+    let query: MergedSpecQuery;
+    try {
+      query = JSON.parse(uri.query) as MergedSpecQuery;
+    } catch {
+      return '';
+    }
+
+    if (query.side === 'baseline') {
+      // Only used when the capability has no baseline spec yet.
+      return '';
+    }
+
+    const result = await MergedSpecContentProvider.computeMerge(query.delta);
+    return result?.content ?? '';
+  }
+
+  refresh(): void {
+    for (const uri of this._knownUris.values()) {
+      this._onDidChange.fire(uri);
+    }
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+    this._knownUris.clear();
+  }
+}
@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { OutlineNode, OutlineNodeKind } from '../types';
+import { MarkdownOutline } from '../utils/markdownOutline';
+
+export const OPENSPEC_MARKDOWN_SELECTOR: vscode.DocumentSelector = {
+  scheme: 'file',
+  language: 'markdown',
+  pattern: '**/openspec/**/*.md'
+};
+
+const SYMBOL_KINDS: Record<OutlineNodeKind, vscode.SymbolKind> = {
+  purpose: vscode.SymbolKind.String,
+  section: vscode.SymbolKind.Namespace,
+  requirement: vscode.SymbolKind.Class,
+  scenario: vscode.SymbolKind.Method,
+  rename: vscode.SymbolKind.Key,
+  task: vscode.SymbolKind.Event
+};
+
+/**
+ * Outline, breadcrumbs and folding for `spec.md` (requirements, scenarios, delta sections)
+ * and `tasks.md` (sections and tasks). Other markdown files are left to the built-in provider.
+ */
+export class OpenSpecOutlineProvider implements vscode.DocumentSymbolProvider, vscode.FoldingRangeProvider {
+  provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const fileName = path.basename(document.uri.fsPath);
+    if (fileName === 'spec.md') {
+      return MarkdownOutline.specOutline(document.getText()).map(node => this.createSymbol(document, node));
+    }
+    if (fileName === 'tasks.md') {
+      return MarkdownOutline.tasksOutline(document.getText()).map(node => this.createSymbol(document, node));
+    }
+    return [];
+  }
+
+  provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+    return MarkdownOutline.foldingRanges(path.basename(document.uri.fsPath), document.getText())
+      .map(range => new vscode.FoldingRange(range.startLine, range.endLine, vscode.FoldingRangeKind.Region));
+  }
+
+  private createSymbol(document: vscode.TextDocument, node: OutlineNode): vscode.DocumentSymbol {
+    const { range } = node;
+    const fullRange = new vscode.Range(range.startLine, 0, range.endLine, document.lineAt(range.endLine).text.length);
+    const selectionRange = document.lineAt(range.startLine).range;
+    // DocumentSymbol rejects empty names, e.g. for a bare `## ` header.
+    const symbol = new vscode.DocumentSymbol(node.name.trim() || '(untitled)', node.detail, SYMBOL_KINDS[node.kind], fullRange, selectionRange);
+    symbol.children = node.children.map(child => this.createSymbol(document, child));
+    return symbol;
+  }
+}
@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ParsedSpec, RequirementIndexEntry, RequirementSource } from '../types';
+import { ErrorHandler } from '../utils/errorHandler';
+import { RequirementIndex } from '../utils/requirementIndex';
+import { Settings } from '../utils/settings';
+import { WorkspaceUtils } from '../utils/workspace';
+
+const MAX_WORKSPACE_SYMBOLS = 500;
+
+/**
+ * Reads every baseline spec and change delta spec (archived ones when enabled) of every
+ * OpenSpec folder into a requirement index.
+ */
+export async function loadRequirementIndex(): Promise<RequirementIndexEntry[]> {
+  const entries: RequirementIndexEntry[] = [];
+  for (const workspaceFolder of await WorkspaceUtils.getOpenSpecFolders()) {
+    entries.push(...await loadFolderRequirementIndex(workspaceFolder));
+  }
+  return entries;
+}
+
+// Indexed per folder so `touchedBy` only lists changes of the same OpenSpec root.
+async function loadFolderRequirementIndex(workspaceFolder: vscode.WorkspaceFolder): Promise<RequirementIndexEntry[]> {
+  const sources: RequirementSource[] = [];
+  const specsDir = WorkspaceUtils.getSpecsDir(workspaceFolder);
+  for (const capability of await WorkspaceUtils.listDirectories(specsDir)) {
+    sources.push({ capability, filePath: path.join(specsDir, capability, 'spec.md'), isArchived: false });
+  }
+
+  const addChangeSources = async (changesDir: string, isArchived: boolean) => {
+    for (const changeId of await WorkspaceUtils.listDirectories(changesDir)) {
+      if (changeId === 'archive') {
+        continue;
+      }
+      const deltaSpecsDir = path.join(changesDir, changeId, 'specs');
+      for (const capability of await WorkspaceUtils.listDirectories(deltaSpecsDir)) {
+        sources.push({ capability, filePath: path.join(deltaSpecsDir, capability, 'spec.md'), changeId, isArchived });
+      }
+    }
+  };
+  await addChangeSources(WorkspaceUtils.getChangesDir(workspaceFolder), false);
+  if (Settings.includeArchivedInSearch) {
+    await addChangeSources(WorkspaceUtils.getArchiveDir(workspaceFolder), true);
+  }
+
+  const specs: Array<{ spec: ParsedSpec; source: RequirementSource }> = [];
+  for (const source of sources) {
+    if (!(await WorkspaceUtils.fileExists(source.filePath))) {
+      continue;
+    }
+    try {
+      specs.push({ spec: await WorkspaceUtils.readSpec(source.filePath), source });
+    } catch (error) {
+      ErrorHandler.debug(`Failed to index ${source.filePath}: ${error}`);
+    }
+  }
+  return RequirementIndex.build(specs);
+}
+
+// "capability", "capability · MODIFIED in change-id" or "capability · changed by change-a, change-b".
+export function describeRequirementEntry(entry: RequirementIndexEntry): string {
+  const parts = [entry.capability];
+  if (entry.changeId) {
+    const operation = entry.operation ? `${entry.operation} in ` : '';
+    parts.push(`${operation}${entry.changeId}${entry.isArchived ? ' (archived)' : ''}`);
+  } else if (entry.touchedBy.length > 0) {
+    parts.push(`changed by ${entry.touchedBy.join(', ')}`);
+  }
+  if (entry.kind === 'scenario') {
+    parts.push(entry.requirementName);
+  }
+  return parts.join(' · ');
+}
+
+export class RequirementSymbolProvider implements vscode.WorkspaceSymbolProvider {
+  async provideWorkspaceSymbols(query: string): Promise<vscode.SymbolInformation[]> {
+    const entries = await loadRequirementIndex();
+    return entries
+      .filter(entry => RequirementIndex.matches(entry, query))
+      .slice(0, MAX_WORKSPACE_SYMBOLS)
+      .map(entry => new vscode.SymbolInformation(
+        entry.name,
+        entry.kind === 'requirement' ? vscode.SymbolKind.Class : vscode.SymbolKind.Method,
+        describeRequirementEntry(entry),
+        new vscode.Location(vscode.Uri.file(entry.filePath), new vscode.Position(entry.line, 0))
+      ));
+  }
+}
+
+interface RequirementQuickPickItem extends vscode.QuickPickItem {
+  entry: RequirementIndexEntry;
+}
+
+export async function showRequirementQuickPick(): Promise<void> {
+  const items = vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: 'OpenSpec: indexing requirements' },
+    async () => (await loadRequirementIndex()).map((entry): RequirementQuickPickItem => ({
+      label: `$(${entry.kind === 'requirement' ? 'symbol-class' : 'symbol-method'}) ${entry.name}`,
+      description: describeRequirementEntry(entry),
+      entry
+    }))
+  );
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: 'OpenSpec: Go to Requirement',
+    placeHolder: 'Search requirements and scenarios across specs and changes',
+    matchOnDescription: true
+  });
+  if (!picked) {
+    return;
+  }
+
+  const line = picked.entry.line;
+  await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(picked.entry.filePath), {
+    selection: new vscode.Range(line, 0, line, 0)
+  });
+}
@@ -0,0 +1,229 @@
+import * as vscode from 'vscode';
+
+import { OpenCodeSession, OpenCodeSessionState } from '../types';
+import { ErrorHandler } from '../utils/errorHandler';
+import { OpenCodeClient, OpenCodeEventStream } from '../utils/openCodeClient';
+import { OpenCodeSessions } from '../utils/openCodeSessions';
+import { Settings } from '../utils/settings';
+import { WorkspaceUtils } from '../utils/workspace';
+
+const MAX_SESSIONS = 50;
+const REFRESH_DELAY_MS = 500;
+// User prompts scanned for a change ID per session.
+const MESSAGE_SCAN_LIMIT = 20;
+const REFRESH_EVENTS = new Set([
+  'session.created',
+  'session.updated',
+  'session.deleted',
+  'session.status',
+  'session.idle',
+  'session.error'
+]);
+
+export interface OpenCodeSessionNode {
+  session: OpenCodeSession;
+  state: OpenCodeSessionState;
+  changeId?: string;
+  // Workspace folder the session was listed for; prompts to it run there.
+  cwd: string;
+}
+
+/**
+ * Backs the "OpenCode Sessions" view: top-level sessions of the attached server for every
+ * OpenSpec workspace folder, newest first, with the change each one works on. Follows the
+ * server's event stream for each folder while the view passed to `watchVisibility` is shown.
+ */
+export class OpenCodeSessionsProvider implements vscode.TreeDataProvider<OpenCodeSessionNode>, vscode.Disposable {
+  private readonly _streams = new Map<string, OpenCodeEventStream>();
+  // Session ID -> change ID once found; a session keeps working on the same change.
+  private readonly _changeIds = new Map<string, string>();
+  // Session ID -> `time.updated` when its prompts were last scanned without a match.
+  private readonly _scanned = new Map<string, number>();
+  private _pending: NodeJS.Timeout | undefined;
+  private _visible = true;
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<OpenCodeSessionNode | undefined | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private readonly _disposables: vscode.Disposable[] = [];
+
+  constructor(onDidChangeServer?: vscode.Event<unknown>) {
+    this._disposables.push(
+      this._onDidChangeTreeData,
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('openspec.opencode.host') || event.affectsConfiguration('openspec.opencode.port')) {
+          this.closeStreams();
+          this.refresh();
+        }
+      })
+    );
+    if (onDidChangeServer) {
+      this._disposables.push(onDidChangeServer(() => this.scheduleRefresh()));
+    }
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  // Event streams stay open only while `view` is visible; showing it again lists the sessions afresh.
+  watchVisibility(view: vscode.TreeView<OpenCodeSessionNode>): void {
+    this._visible = view.visible;
+    this._disposables.push(view.onDidChangeVisibility(event => {
+      this._visible = event.visible;
+      if (event.visible) {
+        this.refresh();
+        return;
+      }
+      if (this._pending) {
+        clearTimeout(this._pending);
+        this._pending = undefined;
+      }
+      this.closeStreams();
+    }));
+  }
+
+  getTreeItem(node: OpenCodeSessionNode): vscode.TreeItem {
+    const { session, state, changeId } = node;
+    const item = new vscode.TreeItem(session.title || session.id, vscode.TreeItemCollapsibleState.None);
+    item.id = session.id;
+    item.description = [changeId, state === 'idle' ? undefined : state, OpenCodeSessions.describeLastActivity(session.time.updated)]
+      .filter(Boolean)
+      .join(' · ');
+    item.tooltip = [
+      session.title || session.id,
+      `Change: ${changeId ?? 'unknown'}`,
+      `Status: ${state}`,
+      `Last activity: ${new Date(session.time.updated).toLocaleString()}`,
+      ...(session.directory ? [`Directory: ${session.directory}`] : [])
+    ].join('\n');
+    item.iconPath = state === 'busy'
+      ? new vscode.ThemeIcon('loading~spin')
+      : state === 'retry'
+        ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'))
+        : new vscode.ThemeIcon('comment-discussion');
+    item.contextValue = `opencodeSession:${state}`;
+    return item;
+  }
+
+  async getChildren(node?: OpenCodeSessionNode): Promise<OpenCodeSessionNode[]> {
+    if (node) {
+      return [];
+    }
+
+    const health = await new OpenCodeClient(Settings.opencodeUrl).health();
+    void vscode.commands.executeCommand('setContext', 'openspec:opencodeConnected', health?.healthy === true);
+    if (!health?.healthy) {
+      this.closeStreams();
+      return [];
+    }
+
+    try {
+      const nodes: OpenCodeSessionNode[] = [];
+      const folders = new Map<string, { client: OpenCodeClient; changeIds: string[] }>();
+      const workspaceFolders = await WorkspaceUtils.getOpenSpecFolders();
+      // Folders removed from the workspace, or no longer OpenSpec folders, stop streaming.
+      this.closeStreams(new Set(workspaceFolders.map(workspaceFolder => workspaceFolder.uri.fsPath)));
+      for (const workspaceFolder of workspaceFolders) {
+        const cwd = workspaceFolder.uri.fsPath;
+        const client = new OpenCodeClient(Settings.opencodeUrl, { directory: cwd });
+        if (this._visible) {
+          this.ensureStream(cwd, client);
+        }
+
+        const [sessions, states, changeIds] = await Promise.all([
+          client.listSessions(),
+          client.sessionStates(),
+          this.listChangeIds(workspaceFolder)
+        ]);
+        folders.set(cwd, { client, changeIds });
+        for (const session of sessions) {
+          // Child sessions belong to subagents of a top-level session. Folders of one project share sessions.
+          if (!session.parentID && !nodes.some(existing => existing.session.id === session.id)) {
+            nodes.push({ session, state: states[session.id] ?? 'idle', cwd });
+          }
+        }
+      }
+
+      const shown = nodes.sort((a, b) => b.session.time.updated - a.session.time.updated).slice(0, MAX_SESSIONS);
+      await Promise.all(shown.map(async item => {
+        const folder = folders.get(item.cwd);
+        item.changeId = folder ? await this.findChangeId(folder.client, item.session, folder.changeIds) : undefined;
+      }));
+      return shown;
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to list OpenCode sessions', false);
+      return [];
+    }
+  }
+
+  private async findChangeId(client: OpenCodeClient, session: OpenCodeSession, changeIds: string[]): Promise<string | undefined> {
+    const known = this._changeIds.get(session.id);
+    if (known || this._scanned.get(session.id) === session.time.updated) {
+      return known;
+    }
+
+    const changeId = OpenCodeSessions.findChangeId(session.title, changeIds)
+      ?? OpenCodeSessions.changeIdOf(session, await client.messages(session.id, MESSAGE_SCAN_LIMIT).catch(() => []), changeIds);
+    if (changeId) {
+      this._changeIds.set(session.id, changeId);
+    } else {
+      this._scanned.set(session.id, session.time.updated);
+    }
+    return changeId;
+  }
+
+  // Active and archived change IDs; archive folders drop their `YYYY-MM-DD-` prefix.
+  private async listChangeIds(workspaceFolder: vscode.WorkspaceFolder): Promise<string[]> {
+    const active = (await WorkspaceUtils.listDirectories(WorkspaceUtils.getChangesDir(workspaceFolder)))
+      .filter(name => name !== 'archive');
+    const archived = (await WorkspaceUtils.listDirectories(WorkspaceUtils.getArchiveDir(workspaceFolder)))
+      .map(name => name.replace(/^\d{4}-\d{2}-\d{2}-/, ''));
+    return [...new Set([...active, ...archived])];
+  }
+
+  private ensureStream(cwd: string, client: OpenCodeClient): void {
+    if (this._streams.has(cwd)) {
+      return;
+    }
+    const stream = client.subscribe(
+      event => {
+        if (REFRESH_EVENTS.has(event.type)) {
+          this.scheduleRefresh();
+        }
+      },
+      () => {
+        if (this._streams.get(cwd) === stream) {
+          this._streams.delete(cwd);
+        }
+      }
+    );
+    this._streams.set(cwd, stream);
+  }
+
+  // Closes every stream, or only those of folders not in `keep`.
+  private closeStreams(keep?: ReadonlySet<string>): void {
+    for (const [cwd, stream] of [...this._streams]) {
+      if (!keep?.has(cwd)) {
+        this._streams.delete(cwd);
+        stream.close();
+      }
+    }
+  }
+
+  private scheduleRefresh(): void {
+    if (this._pending) {
+      clearTimeout(this._pending);
+    }
+    this._pending = setTimeout(() => {
+      this._pending = undefined;
+      this.refresh();
+    }, REFRESH_DELAY_MS);
+  }
+
+  dispose(): void {
+    if (this._pending) {
+      clearTimeout(this._pending);
+    }
+    this.closeStreams();
+    this._disposables.forEach(disposable => disposable.dispose());
+  }
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { ErrorHandler } from '../utils/errorHandler';
+import { SpecValidator, ValidationIssue, ValidationSeverity } from '../utils/specValidator';
+import { WorkspaceUtils } from '../utils/workspace';
+
+const VALIDATION_DELAY_MS = 300;
+
+/**
+ * Publishes Problems-panel diagnostics for baseline specs (`openspec/specs/<capability>/spec.md`)
+ * and change delta specs (`openspec/changes/<id>/specs/<capability>/spec.md`).
+ */
+export class SpecDiagnosticsProvider implements vscode.Disposable {
+  private readonly _collection = vscode.languages.createDiagnosticCollection('openspec-specs');
+  private readonly _disposables: vscode.Disposable[] = [];
+  private readonly _pending = new Map<string, NodeJS.Timeout>();
+
+  constructor() {
+    this._disposables.push(
+      this._collection,
+      vscode.workspace.onDidOpenTextDocument(document => this.scheduleValidation(document.uri)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidation(event.document.uri)),
+      vscode.workspace.onDidSaveTextDocument(document => this.scheduleValidation(document.uri))
+    );
+  }
+
+  async validateAll(): Promise<void> {
+    try {
+      const files = await WorkspaceUtils.findOpenSpecFiles('**/spec.md');
+      this._collection.clear();
+      for (const file of files) {
+        await this.validateFile(file);
+      }
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to validate OpenSpec specs', false);
+    }
+  }
+
+  private scheduleValidation(uri: vscode.Uri): void {
+    if (uri.scheme !== 'file' || !this.isSpecPath(uri.fsPath)) {
+      return;
+    }
+
+    const key = uri.toString();
+    const existing = this._pending.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this._pending.set(key, setTimeout(() => {
+      this._pending.delete(key);
+      if (WorkspaceUtils.isBaselineSpecPath(uri.fsPath)) {
+        // Deltas are validated against the baseline, so re-check all of them.
+        void this.validateAll();
+      } else {
+        void this.validateFile(uri);
+      }
+    }, VALIDATION_DELAY_MS));
+  }
+
+  private isSpecPath(filePath: string): boolean {
+    return WorkspaceUtils.isBaselineSpecPath(filePath) || WorkspaceUtils.resolveDeltaSpec(filePath) !== undefined;
+  }
+
+  private async validateFile(uri: vscode.Uri): Promise<void> {
+    const content = await WorkspaceUtils.readLiveText(uri.fsPath);
+    if (content === undefined) {
+      this._collection.delete(uri);
+      return;
+    }
+
+    let issues: ValidationIssue[] = [];
+    const location = WorkspaceUtils.resolveDeltaSpec(uri.fsPath);
+    if (location) {
+      // Archived deltas were already merged; their baseline has moved on.
+      if (location.isArchived) {
+        this._collection.delete(uri);
+        return;
+      }
+      const baselineContent = await WorkspaceUtils.readLiveText(location.baselinePath);
+      issues = SpecValidator.validateDelta(content, baselineContent, location.capability);
+    } else if (WorkspaceUtils.isBaselineSpecPath(uri.fsPath)) {
+      issues = SpecValidator.validateSpec(content);
+    }
+
+    const lines = content.split(/\r?\n/);
+    this._collection.set(uri, issues.map(issue => {
+      const lineLength = lines[issue.line]?.length ?? 0;
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(issue.line, 0, issue.line, lineLength),
+        issue.message,
+        toDiagnosticSeverity(issue.severity)
+      );
+      diagnostic.source = 'OpenSpec';
+      diagnostic.code = issue.code;
+      return diagnostic;
+    }));
+  }
+
+  dispose(): void {
+    this._pending.forEach(timeout => clearTimeout(timeout));
+    this._pending.clear();
+    this._disposables.forEach(disposable => disposable.dispose());
+  }
+}
+
+export function toDiagnosticSeverity(severity: ValidationSeverity): vscode.DiagnosticSeverity {
+  switch (severity) {
+    case 'error':
+      return vscode.DiagnosticSeverity.Error;
+    case 'warning':
+      return vscode.DiagnosticSeverity.Warning;
+    default:
+      return vscode.DiagnosticSeverity.Information;
+  }
+}
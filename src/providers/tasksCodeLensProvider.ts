@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Commands } from '../constants/commands';
+import { TasksParser } from '../utils/tasksParser';
+import { WorkspaceUtils } from '../utils/workspace';
+
+/**
+ * Adds "Run with OpenCode" above unchecked tasks and "Run section" above `## N.` headers in `tasks.md`.
+ * Both hand off to the Ralph runner with `--task` / `--section`.
+ */
+export class TasksCodeLensProvider implements vscode.CodeLensProvider {
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (!WorkspaceUtils.isActiveTasksPath(document.uri.fsPath)) {
+      return [];
+    }
+
+    const changePath = path.dirname(document.uri.fsPath);
+    const changeId = path.basename(changePath);
+    const parsed = TasksParser.parse(document.getText());
+    const lenses: vscode.CodeLens[] = [];
+
+    for (const section of parsed.sections) {
+      const remaining = section.tasks.filter(task => !task.checked).length;
+      if (section.number === undefined || remaining === 0) {
+        continue;
+      }
+      lenses.push(new vscode.CodeLens(new vscode.Range(section.headerLine, 0, section.headerLine, 0), {
+        title: `$(run-all) Run section (${remaining} remaining)`,
+        tooltip: `Run the unchecked tasks of section ${section.number} with the Ralph loop`,
+        command: Commands.runTasks,
+        arguments: [{ changeId, changePath, section: String(section.number) }]
+      }));
+    }
+
+    for (const task of parsed.tasks) {
+      if (task.checked) {
+        continue;
+      }
+      lenses.push(new vscode.CodeLens(new vscode.Range(task.line, 0, task.line, 0), {
+        title: '$(play) Run with OpenCode',
+        tooltip: `Run task ${task.id} with the Ralph loop`,
+        command: Commands.runTasks,
+        arguments: [{ changeId, changePath, taskId: task.id }]
+      }));
+    }
+
+    return lenses;
+  }
+}
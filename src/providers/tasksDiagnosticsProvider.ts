@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ErrorHandler } from '../utils/errorHandler';
+import { TasksValidator } from '../utils/tasksValidator';
+import { WorkspaceUtils } from '../utils/workspace';
+import { toDiagnosticSeverity } from './specDiagnosticsProvider';
+
+const VALIDATION_DELAY_MS = 300;
+
+export const TASKS_DOCUMENT_SELECTOR: vscode.DocumentSelector = {
+  scheme: 'file',
+  pattern: '**/openspec/changes/*/tasks.md'
+};
+
+/**
+ * Keeps Problems-panel diagnostics for active changes' `tasks.md` in sync with the editor.
+ */
+export class TasksDiagnosticsProvider implements vscode.Disposable {
+  private readonly _collection = vscode.languages.createDiagnosticCollection('openspec-tasks');
+  private readonly _disposables: vscode.Disposable[] = [];
+  private readonly _pending = new Map<string, NodeJS.Timeout>();
+
+  constructor() {
+    this._disposables.push(
+      this._collection,
+      vscode.workspace.onDidOpenTextDocument(document => this.scheduleValidation(document.uri)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidation(event.document.uri)),
+      vscode.workspace.onDidSaveTextDocument(document => this.scheduleValidation(document.uri))
+    );
+  }
+
+  async validateAll(): Promise<void> {
+    try {
+      const files = await WorkspaceUtils.findOpenSpecFiles('changes/*/tasks.md');
+      this._collection.clear();
+      for (const file of files) {
+        await this.validateFile(file);
+      }
+    } catch (error) {
+      ErrorHandler.handle(error as Error, 'Failed to validate tasks.md files', false);
+    }
+  }
+
+  private scheduleValidation(uri: vscode.Uri): void {
+    if (uri.scheme !== 'file' || !WorkspaceUtils.isActiveTasksPath(uri.fsPath)) {
+      return;
+    }
+
+    const key = uri.toString();
+    const existing = this._pending.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this._pending.set(key, setTimeout(() => {
+      this._pending.delete(key);
+      void this.validateFile(uri);
+    }, VALIDATION_DELAY_MS));
+  }
+
+  private async validateFile(uri: vscode.Uri): Promise<void> {
+    const content = await WorkspaceUtils.readLiveText(uri.fsPath);
+    if (content === undefined) {
+      this._collection.delete(uri);
+      return;
+    }
+
+    const lines = content.split(/\r?\n/);
+    this._collection.set(uri, TasksValidator.validate(content).map(issue => {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(issue.line, 0, issue.line, lines[issue.line]?.length ?? 0),
+        issue.message,
+        toDiagnosticSeverity(issue.severity)
+      );
+      diagnostic.source = 'OpenSpec';
+      diagnostic.code = issue.code;
+      return diagnostic;
+    }));
+  }
+
+  dispose(): void {
+    this._pending.forEach(timeout => clearTimeout(timeout));
+    this._pending.clear();
+    this._disposables.forEach(disposable => disposable.dispose());
+  }
+}
+
+/**
+ * Offers the deterministic fixes computed by `TasksValidator` as quick fixes.
+ */
+export class TasksCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    if (path.basename(document.uri.fsPath) !== 'tasks.md') {
+      return [];
+    }
+
+    const actions: vscode.CodeAction[] = [];
+    const issues = TasksValidator.validate(document.getText());
+
+    for (const issue of issues) {
+      if (issue.line < range.start.line || issue.line > range.end.line) {
+        continue;
+      }
+
+      const diagnostic = context.diagnostics.find(d => d.code === issue.code && d.range.start.line === issue.line);
+      issue.fixes.forEach((fix, index) => {
+        const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        for (const edit of fix.edits) {
+          action.edit.replace(document.uri, document.lineAt(edit.line).range, edit.newText);
+        }
+        if (diagnostic) {
+          action.diagnostics = [diagnostic];
+        }
+        action.isPreferred = index === 0;
+        actions.push(action);
+      });
+    }
+
+    return actions;
+  }
+}
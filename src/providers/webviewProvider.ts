@@ -3,18 +3,29 @@ import * as path from 'path';
 import { marked } from 'marked';
 import { WorkspaceUtils } from '../utils/workspace';
 import { ErrorHandler } from '../utils/errorHandler';
-import { TreeItemData } from '../types';
+import { Settings } from '../utils/settings';
+import { TASK_LINE, TasksParser } from '../utils/tasksParser';
+import { ChangeArchiver } from '../utils/changeArchive';
+import { OpenSpecConfigParser } from '../utils/openspecConfig';
+import { OpenSpecConfigProvider } from './configProvider';
+import { ApplyRunMonitor } from './applyRunMonitor';
+import { ParsedSpec, TaskItem, TreeItemData } from '../types';
 
 export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
   private _panels = new Map<string, vscode.WebviewPanel>();
+  private _currentItem?: TreeItemData;
   private _extensionUri: vscode.Uri;
+  private _configProvider?: OpenSpecConfigProvider;
+  private _applyRuns?: ApplyRunMonitor;
 
   private escapeAttr(value: string): string {
     return value.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
   }
 
-  constructor(extensionUri: vscode.Uri) {
+  constructor(extensionUri: vscode.Uri, configProvider?: OpenSpecConfigProvider, applyRuns?: ApplyRunMonitor) {
     this._extensionUri = extensionUri;
+    this._configProvider = configProvider;
+    this._applyRuns = applyRuns;
     
     // Configure marked options
     marked.setOptions({
@@ -37,7 +48,8 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
     }
 
     const panelKey = 'details';
-    
+    this._currentItem = item;
+
     if (this._panels.has(panelKey)) {
       const existingPanel = this._panels.get(panelKey)!;
       // Update the title to reflect the current change
@@ -72,6 +84,32 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
     this._panels.set(panelKey, panel);
   }
 
+  // Re-renders the open details panel, e.g. after the OpenCode settings change.
+  async refresh(): Promise<void> {
+    const panel = this._panels.get('details');
+    if (panel && this._currentItem) {
+      panel.webview.html = await this.getHtmlContent(panel.webview, this._currentItem);
+    }
+  }
+
+  // Re-renders the task list of the open details panel when it shows `changeDir`, e.g. while Apply runs.
+  async refreshTasks(changeDir: string): Promise<void> {
+    const panel = this._panels.get('details');
+    if (!panel || this._currentItem?.path !== changeDir) {
+      return;
+    }
+    const tasksPath = path.join(changeDir, 'tasks.md');
+    const content = await WorkspaceUtils.readLiveText(tasksPath);
+    if (content !== undefined) {
+      void panel.webview.postMessage({
+        type: 'fileContentLoaded',
+        filepath: tasksPath,
+        content: this.renderTasks(content, tasksPath),
+        fileType: 'markdown'
+      });
+    }
+  }
+
   private async getHtmlContent(webview: vscode.Webview, item: TreeItemData): Promise<string> {
     const stylesUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'styles.css'));
     const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'media', 'script.js'));
@@ -84,12 +122,13 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
     const designFilePath = item.type === 'change' && item.path ? path.join(item.path, 'design.md') : '';
     const tasksFilePath = item.type === 'change' && item.path ? path.join(item.path, 'tasks.md') : '';
 
-    const renderArtifactActions = (filePath: string, label: string): string => {
+    const renderArtifactActions = (filePath: string, label: string, extraActions = ''): string => {
       if (!filePath) {
         return '';
       }
       return `
         <div class="artifact-actions">
+          ${extraActions}
           <button type="button" class="artifact-open" data-open-file="${escapeAttr(filePath)}" aria-label="Open ${label}">
             Open ${label}
           </button>
@@ -97,6 +136,20 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
       `;
     };
 
+    // config.yaml rules for an artifact, shown as guidance above its content in active changes.
+    const renderRules = (artifact: string): string => {
+      const rules = item.metadata?.isActive === false ? [] : this._configProvider?.rulesFor(artifact, item.path) ?? [];
+      if (rules.length === 0) {
+        return '';
+      }
+      return `
+        <details class="artifact-rules">
+          <summary>Rules from config.yaml (${rules.length})</summary>
+          <ul>${rules.map(rule => `<li>${marked.parseInline(rule)}</li>`).join('')}</ul>
+        </details>
+      `;
+    };
+
     const isEmptyChange = item.type === 'change'
       && typeof item.path === 'string'
       && !(await WorkspaceUtils.hasAnyChangeArtifacts(item.path));
@@ -108,7 +161,7 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
     const openCodeStartLabel = isOpenCodeListening ? 'OpenCode Running' : 'Start OpenCode';
     const openCodeStartTooltip = isOpenCodeListening
       ? 'OpenCode already started'
-      : 'Start OpenCode server on port 4099';
+      : `Start OpenCode server on ${Settings.opencodeAddress}`;
  
     return `
       <!DOCTYPE html>
@@ -127,6 +180,7 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
                     <div class="header-title-left">
                       <h1>${item.label}</h1>
                       ${this.renderStatusBadge(item)}
+                      ${await this.renderChangeMetadata(item)}
                     </div>
                      <div class="header-controls">
                        <button
@@ -140,6 +194,7 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
                          type="button"
                          class="opencode-start"
                          data-opencode-start
+                         data-opencode-address="${this.escapeAttr(Settings.opencodeAddress)}"
                          ${isOpenCodeListening ? 'disabled aria-disabled="true"' : ''}
                          title="${openCodeStartTooltip}"
                          aria-label="${openCodeStartTooltip}"
@@ -159,6 +214,7 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
                              </button>
                              <div id="proposal-content" class="section-content markdown-content">
                                  ${renderArtifactActions(proposalFilePath, 'proposal.md')}
+                                 ${renderRules('proposal')}
                                  ${proposalContent}
                              </div>
                          </div>
@@ -172,6 +228,7 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
                             </button>
                             <div id="design-content" class="section-content markdown-content">
                                 ${renderArtifactActions(designFilePath, 'design.md')}
+                                 ${renderRules('design')}
                                 ${designContent}
                             </div>
                         </div>
@@ -188,7 +245,12 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
                               class="section-content markdown-content"
                               data-openspec-artifact-file="${escapeAttr(tasksFilePath)}"
                             >
-                                ${renderArtifactActions(tasksFilePath, 'tasks.md')}
+                                ${renderArtifactActions(tasksFilePath, 'tasks.md', `
+                                  <button type="button" class="tasks-filter" data-tasks-filter aria-pressed="false">
+                                    Unchecked only
+                                  </button>
+                                `)}
+                                ${renderRules('tasks')}
                                 <div data-openspec-artifact-body>
                                   ${tasksContent}
                                 </div>
@@ -203,6 +265,7 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
                               <span class="collapse-icon">▼</span>
                           </button>
                           <div id="specs-content" class="section-content specs-list">
+                              ${renderRules('specs')}
                               ${specsList}
                           </div>
                       </div>
@@ -224,10 +287,10 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
     const actionLabel = (isActive && hasNoTasks) ? 'Fast-forward artifacts' : 'Attach to OpenCode';
     const actionTooltip = (isActive && hasNoTasks)
       ? `Fast-forward: populate ${changeId}`
-      : 'Attach to OpenCode at http://localhost:4099';
+      : `Attach to OpenCode at ${Settings.opencodeUrl}`;
     const actionIcon = (isActive && hasNoTasks) ? '&gt;&gt;' : '&gt;';
     const hint = (isActive && hasNoTasks)
-      ? `Runs: opencode run --attach localhost:4099 --continue "use openspec ff skill to populate ${changeId}"`
+      ? `Sends the ff prompt for ${changeId} to the latest session on ${Settings.opencodeUrl}`
       : 'Runs the bundled Ralph runner (no workspace files created)';
 
     return `
@@ -240,7 +303,7 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
             class="cta-button"
             ${isActive && hasNoTasks
               ? `data-openspec-ff-change="${this.escapeAttr(changeId)}"`
-              : 'data-opencode-attach="http://localhost:4099"'}
+              : `data-opencode-attach="${this.escapeAttr(Settings.opencodeUrl)}"`}
             aria-label="${this.escapeAttr(actionTooltip)}"
           >${actionLabel}<span class="cta-icon" aria-hidden="true">${actionIcon}</span></button>
           <p class="empty-state-hint">${hint}</p>
@@ -258,7 +321,8 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
 
     try {
       const files = (await WorkspaceUtils.listFiles(item.path, ''))
-        .filter(fileName => fileName !== 'proposal.md' && fileName !== 'design.md' && fileName !== 'tasks.md');
+        .filter(fileName => fileName !== 'proposal.md' && fileName !== 'design.md' && fileName !== 'tasks.md')
+        .filter(fileName => fileName !== ChangeArchiver.SNAPSHOT_FILE);
       if (files.length === 0) {
         return '';
       }
@@ -312,6 +376,24 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
     return `<span class="${badgeClass}">${label}</span>`;
   }
 
+  private async renderChangeMetadata(item: TreeItemData): Promise<string> {
+    if (item.type !== 'change' || !item.path) {
+      return '';
+    }
+
+    const content = await WorkspaceUtils.readLiveText(path.join(item.path, '.openspec.yaml'));
+    const metadata = content === undefined ? {} : OpenSpecConfigParser.parseChangeMetadata(content);
+    const parts = [
+      metadata.schema,
+      metadata.created ? `created ${metadata.created}` : undefined
+    ].filter((part): part is string => !!part);
+    if (parts.length === 0) {
+      return '';
+    }
+    const text = parts.join(' · ').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return `<span class="change-metadata" title="From .openspec.yaml">${text}</span>`;
+  }
+
   private async buildChangeContent(item: TreeItemData): Promise<{
     proposalContent: string;
     designContent: string;
@@ -353,9 +435,9 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
 
     try {
       const tasksPath = path.join(item.path, 'tasks.md');
-      if (await WorkspaceUtils.fileExists(tasksPath)) {
-        const tasksMarkdown = await WorkspaceUtils.readFile(tasksPath);
-        tasksContent = marked(tasksMarkdown);
+      const tasksMarkdown = await WorkspaceUtils.readLiveText(tasksPath);
+      if (tasksMarkdown !== undefined) {
+        tasksContent = this.renderTasks(tasksMarkdown, tasksPath);
       }
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
@@ -380,10 +462,15 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
           const specPath = path.join(specsDir, capability, 'spec.md');
           if (await WorkspaceUtils.fileExists(specPath)) {
             const escapedPath = specPath.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
-            specLinks.push(`<button class="spec-link" data-filepath="${escapedPath}" aria-label="Open ${capability} spec">
-              <span class="codicon codicon-file-text"></span>
-              ${capability} spec
-            </button>`);
+            const deltaSummary = this.summarizeDeltas(await WorkspaceUtils.readSpec(specPath));
+            specLinks.push(`<span class="spec-entry">
+              <button class="spec-link" data-filepath="${escapedPath}" aria-label="Open ${capability} spec">
+                <span class="codicon codicon-file-text"></span>
+                ${capability} spec
+                ${deltaSummary ? `<span class="spec-link-meta">${deltaSummary}</span>` : ''}
+              </button>
+              ${deltaSummary ? `<button type="button" class="spec-preview" data-preview-merged-spec="${escapedPath}" aria-label="Preview ${capability} spec after this change">Preview merged</button>` : ''}
+            </span>`);
           }
         }
         specsList = specLinks.join('');
@@ -398,10 +485,137 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
     return { proposalContent, designContent, tasksContent, specsList, summaryHtml };
   }
 
-  private async buildSummary(_changePath: string): Promise<string> {
-    // Always scope to the workspace-root ./openspec folder.
+  /**
+   * Renders `tasks.md` with a checkbox per task line and a progress bar per section.
+   * Checkboxes are only enabled for active changes; toggles post `toggleTask` with the source line.
+   * Tasks of a running Apply batch are marked as running.
+   */
+  private renderTasks(content: string, tasksPath: string): string {
+    const lines = content.split(/\r?\n/);
+    const parsed = TasksParser.parse(content);
+    const interactive = WorkspaceUtils.isActiveTasksPath(tasksPath);
+    const tasksByLine = new Map(parsed.tasks.map(task => [task.line, task]));
+    const sectionsByLine = new Map(parsed.sections.map(section => [section.headerLine, section]));
+    const running = new Set(this._applyRuns?.runFor(path.dirname(tasksPath))?.taskIds ?? []);
+
+    const html: string[] = [];
+    let markdown: string[] = [];
+    let inSection = false;
+
+    const flushMarkdown = () => {
+      if (markdown.some(line => line.trim() !== '')) {
+        html.push(marked(markdown.join('\n')));
+      }
+      markdown = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const section = sectionsByLine.get(i);
+      if (section) {
+        flushMarkdown();
+        if (inSection) {
+          html.push('</div>');
+        }
+        inSection = true;
+        const done = section.tasks.filter(task => task.checked).length;
+        const total = section.tasks.length;
+        html.push('<div class="task-section">');
+        html.push(marked(lines[i]));
+        if (total > 0) {
+          html.push(`
+            <div class="task-progress" title="${done} of ${total} tasks done">
+              <progress value="${done}" max="${total}"></progress>
+              <span class="task-progress-label">${done}/${total}</span>
+            </div>
+          `);
+        }
+        continue;
+      }
+
+      const task = tasksByLine.get(i);
+      if (task) {
+        flushMarkdown();
+        html.push(this.renderTaskItem(task, lines.slice(task.line + 1, task.range.endLine + 1), interactive, running.has(task.id)));
+        i = task.range.endLine;
+        continue;
+      }
+
+      markdown.push(lines[i]);
+    }
+
+    flushMarkdown();
+    if (inSection) {
+      html.push('</div>');
+    }
+    return html.join('\n');
+  }
+
+  private renderTaskItem(task: TaskItem, detailLines: string[], interactive: boolean, isRunning: boolean): string {
+    const details = detailLines.join('\n').trim() ? `<div class="task-details">${marked(detailLines.join('\n'))}</div>` : '';
+    return `
+      <div class="task-item${task.checked ? ' is-checked' : ''}${isRunning ? ' is-running' : ''}">
+        <label class="task-label">
+          <input
+            type="checkbox"
+            class="task-checkbox"
+            data-task-toggle
+            data-task-id="${this.escapeAttr(task.id)}"
+            data-task-line="${task.line}"
+            ${task.checked ? 'checked' : ''}
+            ${interactive ? '' : 'disabled'}
+          >
+          <span class="task-id">${task.id}</span>
+          <span class="task-text">${marked.parseInline(task.description)}</span>
+          ${isRunning ? '<span class="task-running-badge">Running</span>' : ''}
+        </label>
+        ${details}
+      </div>
+    `;
+  }
+
+  /**
+   * Flips `- [ ]`/`- [x]` on a task line through a WorkspaceEdit so it can be undone from the editor.
+   * The line must still hold the same task ID, otherwise the webview is showing stale content.
+   */
+  private async toggleTask(filePath: string, line: number, taskId: string): Promise<void> {
+    if (!WorkspaceUtils.isActiveTasksPath(filePath)) {
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    const match = line >= 0 && line < document.lineCount ? document.lineAt(line).text.match(TASK_LINE) : null;
+    if (!match || match[2] !== taskId) {
+      vscode.window.showWarningMessage(`Task ${taskId} has moved in tasks.md; the view has been refreshed.`);
+      return;
+    }
+
+    const wasDirty = document.isDirty;
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, new vscode.Range(line, 3, line, 4), match[1] === 'x' ? ' ' : 'x');
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      vscode.window.showWarningMessage(`Could not update task ${taskId} in tasks.md`);
+      return;
+    }
+
+    // Keep the file on disk in sync for the runner, but never save someone's unrelated unsaved edits.
+    if (!wasDirty) {
+      await document.save();
+    }
+  }
+
+  private summarizeDeltas(spec: ParsedSpec): string {
+    return spec.deltas
+      .map(delta => {
+        const count = delta.operation === 'RENAMED' ? delta.renames.length : delta.requirements.length;
+        return `${count} ${delta.operation.toLowerCase()}`;
+      })
+      .join(' · ');
+  }
+
+  private async buildSummary(changePath: string): Promise<string> {
+    // Scope to the OpenSpec root (`openspec.root`) of the change's workspace folder.
     // Do not infer an OpenSpec root from arbitrary/nested paths.
-    const openspecRoot = this.getWorkspaceOpenSpecRoot();
+    const openspecRoot = this.getWorkspaceOpenSpecRoot(changePath);
     if (!openspecRoot) {
       return '';
     }
@@ -432,8 +646,9 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
     `;
   }
 
-  private getWorkspaceOpenSpecRoot(): string | null {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  private getWorkspaceOpenSpecRoot(changePath: string): string | null {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(changePath))
+      ?? vscode.workspace.workspaceFolders?.[0];
     if (!workspaceFolder) {
       return null;
     }
@@ -448,8 +663,35 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
           : vscode.Uri.parse(message.uri);
         const preview = typeof message.preview === 'boolean' ? message.preview : true;
         await vscode.commands.executeCommand('vscode.open', fileUri, { preview });
+      } else if (message.type === 'previewMergedSpec') {
+        if (typeof message.filepath === 'string' && message.filepath) {
+          await vscode.commands.executeCommand('openspec.previewMergedSpec', message.filepath);
+        }
+      } else if (message.type === 'toggleTask') {
+        const filepath = typeof message.filepath === 'string' ? message.filepath : '';
+        const line = typeof message.line === 'number' ? message.line : -1;
+        const taskId = typeof message.taskId === 'string' ? message.taskId : '';
+        if (!filepath || !taskId) {
+          return;
+        }
+        try {
+          await this.toggleTask(filepath, line, taskId);
+        } catch (error) {
+          ErrorHandler.handle(error as Error, `toggling task ${taskId}`, true);
+        }
+
+        // Re-render either way so the checkbox reflects what is actually in tasks.md.
+        const content = await WorkspaceUtils.readLiveText(filepath);
+        if (content !== undefined) {
+          panel.webview.postMessage({
+            type: 'fileContentLoaded',
+            filepath,
+            content: this.renderTasks(content, filepath),
+            fileType: 'markdown'
+          });
+        }
       } else if (message.type === 'opencodeAttachClicked') {
-        const url = typeof message.url === 'string' ? message.url : 'http://localhost:4099';
+        const url = typeof message.url === 'string' ? message.url : Settings.opencodeUrl;
         // Task 4.3: generate runner + run it attached in a terminal
         await vscode.commands.executeCommand('openspec.opencode.runRunnerAttached', url);
       } else if (message.type === 'openspecFastForwardClicked') {
@@ -475,7 +717,7 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
  
         vscode.commands.executeCommand('openspec.opencode.startServer');
       } else if (message.type === 'opencodeStartClicked') {
-        // Explicit button (in addition to the dot) to start `opencode serve --port 4099`.
+        // Explicit button (in addition to the dot) to start `opencode serve` on the configured port.
         vscode.commands.executeCommand('openspec.opencode.startServer');
       } else if (message.type === 'opencodeStatusRequest') {
         try {
@@ -496,6 +738,7 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
           const fileUri = vscode.Uri.file(message.filepath);
           const fileExtension = path.extname(fileUri.fsPath).toLowerCase();
           const isMarkdown = fileExtension === '.md';
+          const isTasksFile = path.basename(fileUri.fsPath) === 'tasks.md';
           
           // Check file size first (500KB limit)
           const stats = await vscode.workspace.fs.stat(fileUri);
@@ -510,13 +753,15 @@ export class OpenSpecWebviewProvider implements vscode.WebviewPanelSerializer {
             return;
           }
           
-          // Read file content
-          const contentBuffer = await vscode.workspace.fs.readFile(fileUri);
-          const content = Buffer.from(contentBuffer).toString('utf8');
+          // Read file content; tasks.md prefers the editor buffer so unsaved toggles stay visible
+          const liveContent = isTasksFile ? await WorkspaceUtils.readLiveText(fileUri.fsPath) : undefined;
+          const content = liveContent ?? Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8');
           
           // Process content based on file type
           let processedContent = content;
-          if (isMarkdown) {
+          if (isTasksFile) {
+            processedContent = this.renderTasks(content, fileUri.fsPath);
+          } else if (isMarkdown) {
             processedContent = marked(content);
           }
           
@@ -26,8 +26,13 @@ export interface OpenSpecProject {
 export interface TreeItemData {
   id: string;
   label: string;
-  type: 'change' | 'spec' | 'folder' | 'welcome';
+  type: 'change' | 'spec' | 'requirement' | 'scenario' | 'folder' | 'workspace' | 'welcome';
   path?: string;
+  // Workspace folder the node belongs to; set on `workspace` and `folder` nodes.
+  rootPath?: string;
+  // Zero-based line to reveal when opening `path` (requirement/scenario headings).
+  line?: number;
+  description?: string;
   contextValue?: string;
   iconPath?: string;
   children?: TreeItemData[];
@@ -35,7 +40,350 @@ export interface TreeItemData {
     isActive?: boolean;
     isScaffoldOnly?: boolean;
     hasNoTasks?: boolean;
+    completedTasks?: number;
+    totalTasks?: number;
+    nextTaskId?: string;
     requirementCount?: number;
+    scenarioCount?: number;
+    summary?: string;
     status?: string;
   };
 }
+
+// Zero-based, inclusive line span inside a markdown document.
+export interface SourceRange {
+  startLine: number;
+  endLine: number;
+}
+
+export type ScenarioStepKeyword = 'GIVEN' | 'WHEN' | 'THEN' | 'AND';
+
+export interface ScenarioStep {
+  keyword: ScenarioStepKeyword;
+  text: string;
+  line: number;
+}
+
+export interface SpecScenario {
+  name: string;
+  steps: ScenarioStep[];
+  headerLine: number;
+  range: SourceRange;
+}
+
+export interface SpecRequirement {
+  name: string;
+  // Requirement statement between the heading and the first scenario.
+  body: string;
+  // Raw markdown of the whole block (heading included, trailing blank lines trimmed).
+  text: string;
+  scenarios: SpecScenario[];
+  headerLine: number;
+  range: SourceRange;
+}
+
+export interface SpecRename {
+  from: string;
+  to: string;
+  fromLine: number;
+  toLine?: number;
+  range: SourceRange;
+}
+
+export type SpecDeltaOperation = 'ADDED' | 'MODIFIED' | 'REMOVED' | 'RENAMED';
+
+export interface SpecDeltaSection {
+  operation: SpecDeltaOperation;
+  headerLine: number;
+  range: SourceRange;
+  requirements: SpecRequirement[];
+  renames: SpecRename[];
+}
+
+export interface ParsedSpec {
+  title?: string;
+  purpose?: string;
+  purposeRange?: SourceRange;
+  requirementsRange?: SourceRange;
+  // Requirements outside of delta sections (baseline specs).
+  requirements: SpecRequirement[];
+  // `## ADDED/MODIFIED/REMOVED/RENAMED Requirements` sections (change delta specs).
+  deltas: SpecDeltaSection[];
+  isDelta: boolean;
+  lineCount: number;
+}
+
+export interface DeltaSpecLocation {
+  capability: string;
+  changeId: string;
+  changeDir: string;
+  openspecRoot: string;
+  isArchived: boolean;
+  baselinePath: string;
+}
+
+export interface TaskItem {
+  id: string;
+  description: string;
+  checked: boolean;
+  line: number;
+  // Task line plus its indented detail lines.
+  range: SourceRange;
+  // Index into `ParsedTasks.sections`, or -1 when the task is not under a `##` header.
+  sectionIndex: number;
+}
+
+export interface TaskSection {
+  title: string;
+  // Parsed from `## N. Title`; undefined when the header does not follow that format.
+  number?: number;
+  headerLine: number;
+  range: SourceRange;
+  tasks: TaskItem[];
+}
+
+export interface ParsedTasks {
+  sections: TaskSection[];
+  tasks: TaskItem[];
+  completedCount: number;
+  totalCount: number;
+}
+
+// One entry of the spec.md / tasks.md outline; `kind` picks the symbol icon.
+export type OutlineNodeKind = 'purpose' | 'section' | 'requirement' | 'scenario' | 'rename' | 'task';
+
+export interface OutlineNode {
+  name: string;
+  detail: string;
+  kind: OutlineNodeKind;
+  range: SourceRange;
+  children: OutlineNode[];
+}
+
+// Where a parsed spec came from when building the requirement index.
+export interface RequirementSource {
+  capability: string;
+  filePath: string;
+  // Set for change delta specs.
+  changeId?: string;
+  isArchived: boolean;
+}
+
+export interface RequirementIndexEntry {
+  kind: 'requirement' | 'scenario';
+  name: string;
+  // Requirement the entry belongs to; equals `name` for requirements.
+  requirementName: string;
+  capability: string;
+  filePath: string;
+  line: number;
+  changeId?: string;
+  operation?: SpecDeltaOperation;
+  // Original name for RENAMED delta entries.
+  renamedFrom?: string;
+  isArchived: boolean;
+  // Active changes whose delta touches this baseline requirement.
+  touchedBy: string[];
+}
+
+// One change's side of a requirement both changes modify, remove or rename.
+export interface ConflictSide {
+  changeId: string;
+  operation: SpecDeltaOperation;
+  filePath: string;
+  line: number;
+}
+
+export interface RequirementConflict {
+  capability: string;
+  requirement: string;
+  first: ConflictSide;
+  second: ConflictSide;
+}
+
+export interface ChangeDeltaSpec {
+  changeId: string;
+  capability: string;
+  filePath: string;
+  spec: ParsedSpec;
+}
+
+// Something that stops a change from being archived natively.
+export interface ArchiveIssue {
+  // Unset for problems with the change folder itself.
+  capability?: string;
+  filePath: string;
+  line: number;
+  message: string;
+}
+
+export interface ArchiveSpecUpdate {
+  capability: string;
+  deltaPath: string;
+  baselinePath: string;
+  baselineExists: boolean;
+  // Baseline spec content before the delta is applied; undefined for new specs.
+  previousContent?: string;
+  // Baseline spec content after the delta is applied.
+  content: string;
+  counts: Record<SpecDeltaOperation, number>;
+}
+
+export interface ArchivePlan {
+  changeId: string;
+  changeDir: string;
+  // Destination, `changes/archive/YYYY-MM-DD-<changeId>`.
+  archiveDir: string;
+  specUpdates: ArchiveSpecUpdate[];
+  issues: ArchiveIssue[];
+}
+
+export interface ArchiveSnapshotSpec {
+  capability: string;
+  // Relative to the openspec root, e.g. `specs/<capability>/spec.md`.
+  baselinePath: string;
+  // Null when the archive created the spec.
+  previousContent: string | null;
+  archivedContent: string;
+}
+
+// Written to `.archive-snapshot.json` in the archived change so the archive can be undone.
+export interface ArchiveSnapshot {
+  version: 1;
+  changeId: string;
+  archivedAt: string;
+  specs: ArchiveSnapshotSpec[];
+}
+
+export interface UnarchiveResult {
+  changeDir: string;
+  revertedSpecs: string[];
+  // Specs edited after the archive, left as they are.
+  skippedSpecs: string[];
+}
+
+export interface NewChangeOptions {
+  changeId: string;
+  // Existing capabilities under `openspec/specs` the change modifies.
+  modifiedCapabilities: string[];
+  // Capabilities the change introduces.
+  newCapabilities: string[];
+}
+
+export interface ScaffoldFile {
+  // Relative to the change folder, `/`-separated.
+  relativePath: string;
+  content: string;
+}
+
+// `openspec/config.yaml`.
+export interface OpenSpecConfig {
+  schema?: string;
+  // Free-form project context passed along to OpenCode prompts.
+  context?: string;
+  // Artifact (`proposal`, `design`, `tasks`, `specs`, ...) -> rules.
+  rules: Record<string, string[]>;
+}
+
+// `openspec/changes/<id>/.openspec.yaml`.
+export interface ChangeMetadata {
+  schema?: string;
+  // `YYYY-MM-DD`.
+  created?: string;
+}
+
+// `GET /global/health` of an OpenCode server.
+export interface OpenCodeHealth {
+  healthy: boolean;
+  version?: string;
+}
+
+// `external`: something else is already serving on the configured port.
+export type OpenCodeServerState = 'stopped' | 'starting' | 'running' | 'restarting' | 'failed' | 'external';
+
+export interface OpenCodeServerStatus {
+  state: OpenCodeServerState;
+  version?: string;
+  pid?: number;
+  // Automatic restarts since the last manual start.
+  restarts: number;
+}
+
+export interface OpenCodeSession {
+  id: string;
+  title: string;
+  directory?: string;
+  parentID?: string;
+  time: {
+    created: number;
+    updated: number;
+  };
+}
+
+// One server-sent event from `GET /event`, e.g. `session.idle` or `message.updated`.
+export interface OpenCodeEvent {
+  type: string;
+  properties: Record<string, unknown>;
+}
+
+export interface OpenCodePromptOptions {
+  // Continue this session instead of creating one.
+  sessionId?: string;
+  // Title of a newly created session.
+  title?: string;
+  agent?: string;
+  // Called with every event of the session while the prompt runs.
+  onEvent?: (event: OpenCodeEvent) => void;
+  // Aborting the signal aborts the session's run.
+  signal?: AbortSignal;
+}
+
+export interface OpenCodePromptResult {
+  sessionId: string;
+  success: boolean;
+  aborted: boolean;
+  error?: string;
+}
+
+// From `GET /session/status`; sessions it does not list are idle. `retry`: waiting to retry a failed model call.
+export type OpenCodeSessionState = 'idle' | 'busy' | 'retry';
+
+export interface OpenCodeMessagePart {
+  type: string;
+  text?: string;
+}
+
+export interface OpenCodeMessage {
+  info: {
+    id: string;
+    sessionID: string;
+    role: 'user' | 'assistant';
+  };
+  parts: OpenCodeMessagePart[];
+}
+
+// Narrows the Ralph loop to one task (`--task 2.3`) or one section (`--section 2`).
+export interface RalphScope {
+  taskId?: string;
+  section?: string;
+}
+
+export type RalphExitReason = 'completed' | 'cancelled' | 'failed' | 'max-iterations';
+
+export interface RalphLoopResult {
+  reason: RalphExitReason;
+  // Task IDs checked off during the run, in order.
+  completed: string[];
+  // Task the run stopped at when it failed.
+  failedTaskId?: string;
+  message?: string;
+}
+
+export type RalphLoopEvent =
+  | { type: 'run.started'; changeId: string; tasksPath: string; count: number; maxIterations: number; scope?: string }
+  | { type: 'batch.selected'; iteration: number; taskIds: string[] }
+  | { type: 'opencode.invoked'; iteration: number; taskIds: string[] }
+  | { type: 'task.verified'; iteration: number; taskId: string }
+  | { type: 'task.failed'; iteration: number; taskId: string; message: string }
+  // `exitCode` is only set by `ralph_opencode.mjs --events`.
+  | ({ type: 'run.finished'; exitCode?: number } & RalphLoopResult);
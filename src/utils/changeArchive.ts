@@ -0,0 +1,239 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ArchiveIssue, ArchivePlan, ArchiveSnapshot, ArchiveSpecUpdate, UnarchiveResult } from '../types';
+import { SpecMerger } from './specMerge';
+import { SpecParser } from './specParser';
+
+// Reads a file's text, or undefined when it does not exist.
+export type TextReader = (filePath: string) => Promise<string | undefined>;
+
+// A spec file and the content to put back; undefined means the file did not exist.
+interface SpecFileContent {
+  filePath: string;
+  content: string | undefined;
+}
+
+/**
+ * Archives a change without the OpenSpec CLI: merges every delta spec into `openspec/specs`
+ * and moves the change folder to `changes/archive/YYYY-MM-DD-<changeId>`.
+ * `plan` never writes, so callers can preview the result before calling `execute`.
+ * `execute` leaves a snapshot of the specs it touched so `unarchive` can revert them.
+ */
+export class ChangeArchiver {
+  static readonly SNAPSHOT_FILE = '.archive-snapshot.json';
+
+  // Local calendar date as `YYYY-MM-DD`.
+  static formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  static archiveFolderName(changeId: string, date: Date): string {
+    return `${this.formatDate(date)}-${changeId}`;
+  }
+
+  // `2026-02-03-add-scope` -> `add-scope`.
+  static activeChangeId(archiveFolderName: string): string {
+    return archiveFolderName.replace(/^\d{4}-\d{2}-\d{2}-/, '');
+  }
+
+  static async plan(changeDir: string, readText: TextReader, date: Date = new Date()): Promise<ArchivePlan> {
+    const changeId = path.basename(changeDir);
+    const changesDir = path.dirname(changeDir);
+    const openspecRoot = path.dirname(changesDir);
+    const archiveDir = path.join(changesDir, 'archive', this.archiveFolderName(changeId, date));
+
+    const specUpdates: ArchiveSpecUpdate[] = [];
+    const issues: ArchiveIssue[] = [];
+
+    if (await this.exists(archiveDir)) {
+      issues.push({ filePath: archiveDir, line: 0, message: `Archive folder ${path.basename(archiveDir)} already exists` });
+    }
+
+    for (const capability of await this.listDirectories(path.join(changeDir, 'specs'))) {
+      const deltaPath = path.join(changeDir, 'specs', capability, 'spec.md');
+      const deltaContent = await readText(deltaPath);
+      if (deltaContent === undefined) {
+        continue;
+      }
+
+      if (!SpecParser.parse(deltaContent).isDelta) {
+        issues.push({
+          capability,
+          filePath: deltaPath,
+          line: 0,
+          message: `${capability}: delta spec has no ADDED/MODIFIED/REMOVED/RENAMED Requirements section`
+        });
+        continue;
+      }
+
+      const baselinePath = path.join(openspecRoot, 'specs', capability, 'spec.md');
+      const baselineContent = await readText(baselinePath);
+      const result = SpecMerger.apply(baselineContent, deltaContent, capability);
+      issues.push(...result.issues.map(issue => ({
+        capability,
+        filePath: deltaPath,
+        line: issue.line,
+        message: `${capability}: ${issue.message}`
+      })));
+      specUpdates.push({
+        capability,
+        deltaPath,
+        baselinePath,
+        baselineExists: baselineContent !== undefined,
+        previousContent: baselineContent,
+        content: result.content,
+        counts: result.counts
+      });
+    }
+
+    return { changeId, changeDir, archiveDir, specUpdates, issues };
+  }
+
+  static async execute(plan: ArchivePlan): Promise<void> {
+    if (plan.issues.length > 0) {
+      throw new Error(`Cannot archive ${plan.changeId}: ${plan.issues[0].message}`);
+    }
+    if (await this.exists(plan.archiveDir)) {
+      throw new Error(`Cannot archive ${plan.changeId}: ${plan.archiveDir} already exists`);
+    }
+
+    // Move the folder first: when it is locked (e.g. EBUSY on Windows) nothing has been merged yet.
+    await fs.mkdir(path.dirname(plan.archiveDir), { recursive: true });
+    await fs.rename(plan.changeDir, plan.archiveDir);
+
+    const written: SpecFileContent[] = [];
+    try {
+      for (const update of plan.specUpdates) {
+        written.push({ filePath: update.baselinePath, content: update.previousContent });
+        await fs.mkdir(path.dirname(update.baselinePath), { recursive: true });
+        await fs.writeFile(update.baselinePath, update.content, 'utf8');
+      }
+
+      const openspecRoot = path.dirname(path.dirname(plan.changeDir));
+      const snapshot: ArchiveSnapshot = {
+        version: 1,
+        changeId: plan.changeId,
+        archivedAt: new Date().toISOString(),
+        specs: plan.specUpdates.map(update => ({
+          capability: update.capability,
+          baselinePath: path.relative(openspecRoot, update.baselinePath).split(path.sep).join('/'),
+          previousContent: update.previousContent ?? null,
+          archivedContent: update.content
+        }))
+      };
+      await fs.writeFile(path.join(plan.archiveDir, this.SNAPSHOT_FILE), `${JSON.stringify(snapshot, null, 2)}\n`, 'utf8');
+    } catch (error) {
+      await this.restoreSpecs(written);
+      await fs.rename(plan.archiveDir, plan.changeDir);
+      throw error;
+    }
+  }
+
+  static async readSnapshot(archiveDir: string): Promise<ArchiveSnapshot | undefined> {
+    try {
+      const snapshot = JSON.parse(await fs.readFile(path.join(archiveDir, this.SNAPSHOT_FILE), 'utf8')) as ArchiveSnapshot;
+      return snapshot.version === 1 && Array.isArray(snapshot.specs) ? snapshot : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Moves an archived change back to `changes/<changeId>`. With `revertSpecs`, every spec the
+   * archive wrote is restored from the snapshot unless it has been edited since.
+   */
+  static async unarchive(archiveDir: string, changeId: string, revertSpecs: boolean): Promise<UnarchiveResult> {
+    const changesDir = path.dirname(path.dirname(archiveDir));
+    const openspecRoot = path.dirname(changesDir);
+    const changeDir = path.join(changesDir, changeId);
+    if (await this.exists(changeDir)) {
+      throw new Error(`Cannot unarchive to ${changeId}: an active change with that ID already exists`);
+    }
+
+    const revertedSpecs: string[] = [];
+    const skippedSpecs: string[] = [];
+    const snapshot = revertSpecs ? await this.readSnapshot(archiveDir) : undefined;
+
+    // As in `execute`, move the folder before touching any spec.
+    await fs.rename(archiveDir, changeDir);
+
+    const reverted: SpecFileContent[] = [];
+    try {
+      for (const spec of snapshot?.specs ?? []) {
+        const baselinePath = path.join(openspecRoot, ...spec.baselinePath.split('/'));
+        let current: string | undefined;
+        try {
+          current = await fs.readFile(baselinePath, 'utf8');
+        } catch {
+          current = undefined;
+        }
+        if (current !== spec.archivedContent) {
+          skippedSpecs.push(spec.capability);
+          continue;
+        }
+
+        reverted.push({ filePath: baselinePath, content: spec.archivedContent });
+        if (spec.previousContent === null) {
+          await fs.rm(baselinePath, { force: true });
+          await this.removeIfEmpty(path.dirname(baselinePath));
+        } else {
+          await fs.writeFile(baselinePath, spec.previousContent, 'utf8');
+        }
+        revertedSpecs.push(spec.capability);
+      }
+    } catch (error) {
+      await this.restoreSpecs(reverted);
+      await fs.rename(changeDir, archiveDir);
+      throw error;
+    }
+
+    await fs.rm(path.join(changeDir, this.SNAPSHOT_FILE), { force: true });
+    return { changeDir, revertedSpecs, skippedSpecs };
+  }
+
+  // Rollback: writes each spec back, or deletes it when it did not exist. Best-effort per file.
+  private static async restoreSpecs(specs: SpecFileContent[]): Promise<void> {
+    for (const { filePath, content } of specs) {
+      try {
+        if (content === undefined) {
+          await fs.rm(filePath, { force: true });
+          await this.removeIfEmpty(path.dirname(filePath));
+        } else {
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(filePath, content, 'utf8');
+        }
+      } catch {
+        // keep restoring the others
+      }
+    }
+  }
+
+  private static async removeIfEmpty(dirPath: string): Promise<void> {
+    try {
+      if ((await fs.readdir(dirPath)).length === 0) {
+        await fs.rmdir(dirPath);
+      }
+    } catch {
+      // best-effort
+    }
+  }
+
+  private static async listDirectories(dirPath: string): Promise<string[]> {
+    try {
+      const items = await fs.readdir(dirPath, { withFileTypes: true });
+      return items.filter(item => item.isDirectory()).map(item => item.name).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private static async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.stat(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { NewChangeOptions, ScaffoldFile } from '../types';
+import { ChangeArchiver } from './changeArchive';
+
+const KEBAB_CASE = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+/**
+ * Builds and writes the files of a new change (`.openspec.yaml`, `proposal.md` and one delta
+ * spec stub per capability) in the same shape `openspec new change` produces.
+ */
+export class ChangeScaffolder {
+  static validateName(value: string, kind: 'Change ID' | 'Capability'): string | undefined {
+    if (!value) {
+      return `${kind} is required`;
+    }
+    if (!KEBAB_CASE.test(value)) {
+      return 'Use kebab-case (lowercase letters, digits and single dashes), starting with a letter';
+    }
+    return undefined;
+  }
+
+  /**
+   * `archivedFolders` are archive folder names (`YYYY-MM-DD-<id>`); reusing an archived ID
+   * would make the two changes indistinguishable in the archive.
+   */
+  static validateChangeId(changeId: string, activeIds: string[], archivedFolders: string[]): string | undefined {
+    const invalid = this.validateName(changeId, 'Change ID');
+    if (invalid) {
+      return invalid;
+    }
+    if (activeIds.includes(changeId)) {
+      return `An active change named ${changeId} already exists`;
+    }
+    const archived = archivedFolders.find(folder => ChangeArchiver.activeChangeId(folder) === changeId);
+    if (archived) {
+      return `${changeId} was already used by archived change ${archived}`;
+    }
+    return undefined;
+  }
+
+  static buildFiles(options: NewChangeOptions, date: Date = new Date()): ScaffoldFile[] {
+    const files: ScaffoldFile[] = [
+      { relativePath: '.openspec.yaml', content: `schema: spec-driven\ncreated: ${ChangeArchiver.formatDate(date)}\n` },
+      { relativePath: 'proposal.md', content: this.buildProposal(options) }
+    ];
+
+    for (const capability of options.modifiedCapabilities) {
+      files.push({
+        relativePath: `specs/${capability}/spec.md`,
+        content: [
+          '## MODIFIED Requirements',
+          '',
+          `<!-- Copy each changed requirement from openspec/specs/${capability}/spec.md in full, then edit it. Use ADDED, REMOVED or RENAMED Requirements sections for other operations. -->`,
+          ''
+        ].join('\n')
+      });
+    }
+
+    for (const capability of options.newCapabilities) {
+      files.push({
+        relativePath: `specs/${capability}/spec.md`,
+        content: [
+          '## ADDED Requirements',
+          '',
+          '<!-- Add each requirement as "### Requirement: <name>" with a SHALL/MUST statement and at least one "#### Scenario:". -->',
+          ''
+        ].join('\n')
+      });
+    }
+
+    return files;
+  }
+
+  // Writes the files into `changes/<changeId>`; fails without touching anything if the folder exists.
+  static async create(changesDir: string, options: NewChangeOptions, date: Date = new Date()): Promise<string> {
+    const changeDir = path.join(changesDir, options.changeId);
+    await fs.mkdir(changesDir, { recursive: true });
+    await fs.mkdir(changeDir);
+
+    for (const file of this.buildFiles(options, date)) {
+      const filePath = path.join(changeDir, ...file.relativePath.split('/'));
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, file.content, { encoding: 'utf8', flag: 'wx' });
+    }
+
+    return changeDir;
+  }
+
+  private static buildProposal(options: NewChangeOptions): string {
+    const capabilityList = (capabilities: string[]) =>
+      capabilities.length > 0 ? capabilities.map(capability => `- \`${capability}\`: TODO`) : ['- None'];
+
+    return [
+      '## Why',
+      '',
+      'TODO: the problem or opportunity this change addresses.',
+      '',
+      '## What Changes',
+      '',
+      '- TODO',
+      '',
+      '## Capabilities',
+      '',
+      '### New Capabilities',
+      '',
+      ...capabilityList(options.newCapabilities),
+      '',
+      '### Modified Capabilities',
+      '',
+      ...capabilityList(options.modifiedCapabilities),
+      '',
+      '## Impact',
+      '',
+      '- TODO: affected code, APIs and docs.',
+      ''
+    ].join('\n');
+  }
+}
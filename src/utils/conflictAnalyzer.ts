@@ -0,0 +1,77 @@
+import { ChangeDeltaSpec, ConflictSide, RequirementConflict } from '../types';
+import { SpecParser } from './specParser';
+
+interface Touch extends ConflictSide {
+  capability: string;
+  requirement: string;
+}
+
+/**
+ * Finds baseline requirements that more than one active change modifies, removes or renames.
+ * Whichever change archives second would fail to merge, so each overlapping pair is reported.
+ */
+export class ConflictAnalyzer {
+  static findConflicts(deltas: ChangeDeltaSpec[]): RequirementConflict[] {
+    const touchesByKey = new Map<string, Touch[]>();
+
+    for (const delta of deltas) {
+      for (const touch of this.touches(delta)) {
+        const key = `${touch.capability}\u0000${SpecParser.normalizeRequirementName(touch.requirement)}`;
+        const touches = touchesByKey.get(key) ?? [];
+        touches.push(touch);
+        touchesByKey.set(key, touches);
+      }
+    }
+
+    const conflicts: RequirementConflict[] = [];
+    for (const touches of touchesByKey.values()) {
+      for (let i = 0; i < touches.length; i++) {
+        for (let j = i + 1; j < touches.length; j++) {
+          if (touches[i].changeId === touches[j].changeId) {
+            continue;
+          }
+          const [first, second] = [touches[i], touches[j]].sort((a, b) => a.changeId.localeCompare(b.changeId));
+          conflicts.push({
+            capability: first.capability,
+            requirement: first.requirement,
+            first: this.side(first),
+            second: this.side(second)
+          });
+        }
+      }
+    }
+
+    return conflicts.sort((a, b) =>
+      a.capability.localeCompare(b.capability)
+      || a.requirement.localeCompare(b.requirement)
+      || a.first.changeId.localeCompare(b.first.changeId)
+      || a.second.changeId.localeCompare(b.second.changeId));
+  }
+
+  private static touches(delta: ChangeDeltaSpec): Touch[] {
+    const base = { changeId: delta.changeId, capability: delta.capability, filePath: delta.filePath };
+    const touches: Touch[] = [];
+    for (const section of delta.spec.deltas) {
+      if (section.operation === 'MODIFIED' || section.operation === 'REMOVED') {
+        touches.push(...section.requirements.map(requirement => ({
+          ...base,
+          operation: section.operation,
+          requirement: requirement.name,
+          line: requirement.headerLine
+        })));
+      } else if (section.operation === 'RENAMED') {
+        touches.push(...section.renames.map(rename => ({
+          ...base,
+          operation: section.operation,
+          requirement: rename.from,
+          line: rename.fromLine
+        })));
+      }
+    }
+    return touches;
+  }
+
+  private static side(touch: Touch): ConflictSide {
+    return { changeId: touch.changeId, operation: touch.operation, filePath: touch.filePath, line: touch.line };
+  }
+}
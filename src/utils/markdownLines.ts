@@ -0,0 +1,17 @@
+// Line helpers shared by the markdown parsers.
+
+export function lastContentLine(lines: string[], startLine: number, endLine: number): number {
+  let line = Math.min(endLine, lines.length - 1);
+  while (line > startLine && lines[line].trim() === '') {
+    line--;
+  }
+  return Math.max(line, startLine);
+}
+
+export function trimTrailingBlankLines(lines: string[]): string[] {
+  let end = lines.length;
+  while (end > 0 && lines[end - 1].trim() === '') {
+    end--;
+  }
+  return lines.slice(0, end);
+}
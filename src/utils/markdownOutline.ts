@@ -0,0 +1,95 @@
+import { OutlineNode, OutlineNodeKind, SourceRange, SpecDeltaSection, SpecRequirement, TaskItem } from '../types';
+import { SpecParser } from './specParser';
+import { TasksParser } from './tasksParser';
+
+function node(name: string, detail: string, kind: OutlineNodeKind, range: SourceRange, children: OutlineNode[] = []): OutlineNode {
+  return { name, detail, kind, range, children };
+}
+
+/**
+ * Outline and folding ranges for `spec.md` (requirements, scenarios, delta sections) and
+ * `tasks.md` (sections and tasks), independent of the editor.
+ */
+export class MarkdownOutline {
+  static specOutline(text: string): OutlineNode[] {
+    const spec = SpecParser.parse(text);
+    const nodes: OutlineNode[] = [];
+
+    if (spec.purposeRange) {
+      nodes.push(node('Purpose', '', 'purpose', spec.purposeRange));
+    }
+
+    if (spec.requirementsRange || spec.requirements.length > 0) {
+      const range = spec.requirementsRange ?? {
+        startLine: spec.requirements[0].range.startLine,
+        endLine: spec.requirements[spec.requirements.length - 1].range.endLine
+      };
+      nodes.push(node('Requirements', `${spec.requirements.length}`, 'section', range, spec.requirements.map(requirement => this.requirementNode(requirement))));
+    }
+
+    nodes.push(...spec.deltas.map(delta => this.deltaNode(delta)));
+    return nodes;
+  }
+
+  static tasksOutline(text: string): OutlineNode[] {
+    const tasks = TasksParser.parse(text);
+    const taskNode = (task: TaskItem) => node(`${task.id} ${task.description}`.trim(), task.checked ? 'done' : '', 'task', task.range);
+
+    const sections = tasks.sections.map(section => {
+      const done = section.tasks.filter(task => task.checked).length;
+      return node(
+        section.number !== undefined ? `${section.number}. ${section.title}` : section.title,
+        section.tasks.length > 0 ? `${done}/${section.tasks.length}` : '',
+        'section',
+        section.range,
+        section.tasks.map(taskNode)
+      );
+    });
+
+    // Tasks written before the first `##` header still belong in the outline.
+    return [...tasks.tasks.filter(task => task.sectionIndex < 0).map(taskNode), ...sections];
+  }
+
+  // Multi-line blocks that fold as a unit; `fileName` is the document's base name.
+  static foldingRanges(fileName: string, text: string): SourceRange[] {
+    const ranges: SourceRange[] = [];
+
+    if (fileName === 'spec.md') {
+      const spec = SpecParser.parse(text);
+      const requirements = [...spec.requirements, ...spec.deltas.flatMap(delta => delta.requirements)];
+      ranges.push(
+        ...[spec.purposeRange, spec.requirementsRange].filter((range): range is SourceRange => range !== undefined),
+        ...spec.deltas.map(delta => delta.range),
+        ...requirements.map(requirement => requirement.range),
+        ...requirements.flatMap(requirement => requirement.scenarios.map(scenario => scenario.range))
+      );
+    } else if (fileName === 'tasks.md') {
+      const tasks = TasksParser.parse(text);
+      ranges.push(
+        ...tasks.sections.map(section => section.range),
+        ...tasks.tasks.map(task => task.range)
+      );
+    }
+
+    return ranges.filter(range => range.endLine > range.startLine);
+  }
+
+  private static deltaNode(delta: SpecDeltaSection): OutlineNode {
+    const count = delta.operation === 'RENAMED' ? delta.renames.length : delta.requirements.length;
+    return node(`${delta.operation} Requirements`, `${count}`, 'section', delta.range, [
+      ...delta.requirements.map(requirement => this.requirementNode(requirement)),
+      ...delta.renames.map(rename => node(rename.to ? `${rename.from} → ${rename.to}` : rename.from, 'renamed', 'rename', rename.range))
+    ]);
+  }
+
+  private static requirementNode(requirement: SpecRequirement): OutlineNode {
+    const scenarioCount = requirement.scenarios.length;
+    return node(
+      requirement.name || '(unnamed requirement)',
+      `${scenarioCount} scenario${scenarioCount === 1 ? '' : 's'}`,
+      'requirement',
+      requirement.range,
+      requirement.scenarios.map(scenario => node(scenario.name || '(unnamed scenario)', 'scenario', 'scenario', scenario.range))
+    );
+  }
+}
@@ -0,0 +1,373 @@
+import * as http from 'http';
+import {
+  OpenCodeEvent,
+  OpenCodeHealth,
+  OpenCodeMessage,
+  OpenCodePromptOptions,
+  OpenCodePromptResult,
+  OpenCodeSession,
+  OpenCodeSessionState
+} from '../types';
+
+const DEFAULT_TIMEOUT_MS = 2000;
+
+export interface OpenCodeClientOptions {
+  // Per-request timeout; the event stream has none.
+  timeoutMs?: number;
+  // Project directory sessions belong to (`?directory=`); the server's cwd when unset.
+  directory?: string;
+}
+
+export interface OpenCodeEventStream {
+  // Resolves once the server has accepted the subscription.
+  ready: Promise<void>;
+  close(): void;
+}
+
+/**
+ * Splits a server-sent event stream into JSON events. Feed it chunks as they arrive;
+ * events can span chunks.
+ */
+export class SseParser {
+  private buffer = '';
+
+  feed(chunk: string): OpenCodeEvent[] {
+    this.buffer += chunk.replace(/\r\n/g, '\n');
+    const events: OpenCodeEvent[] = [];
+    let boundary = this.buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = this.buffer.slice(0, boundary);
+      this.buffer = this.buffer.slice(boundary + 2);
+      const event = SseParser.parseBlock(block);
+      if (event) {
+        events.push(event);
+      }
+      boundary = this.buffer.indexOf('\n\n');
+    }
+    return events;
+  }
+
+  private static parseBlock(block: string): OpenCodeEvent | undefined {
+    const data = block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+    if (!data) {
+      return undefined;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(data);
+      if (!parsed || typeof parsed !== 'object' || typeof (parsed as OpenCodeEvent).type !== 'string') {
+        return undefined;
+      }
+      const { type, properties } = parsed as { type: string; properties?: unknown };
+      return {
+        type,
+        properties: properties && typeof properties === 'object' ? properties as Record<string, unknown> : {}
+      };
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// Session an event belongs to, for the event types that carry one.
+export function eventSessionId(event: OpenCodeEvent): string | undefined {
+  const { properties } = event;
+  if (typeof properties.sessionID === 'string') {
+    return properties.sessionID;
+  }
+  const info = properties.info as Record<string, unknown> | undefined;
+  if (info && typeof info.sessionID === 'string') {
+    return info.sessionID;
+  }
+  const part = properties.part as Record<string, unknown> | undefined;
+  return part && typeof part.sessionID === 'string' ? part.sessionID : undefined;
+}
+
+function describeSessionError(error: unknown): string {
+  if (error && typeof error === 'object') {
+    const values = error as Record<string, unknown>;
+    const data = values.data as Record<string, unknown> | undefined;
+    if (data && typeof data.message === 'string') {
+      return data.message;
+    }
+    if (typeof values.message === 'string') {
+      return values.message;
+    }
+    if (typeof values.name === 'string') {
+      return values.name;
+    }
+  }
+  return 'OpenCode reported an error';
+}
+
+/**
+ * HTTP client for an OpenCode server (`opencode serve`), using Node's `http` module only.
+ */
+export class OpenCodeClient {
+  private readonly timeoutMs: number;
+  private readonly directory: string | undefined;
+
+  constructor(private readonly baseUrl: string, options: OpenCodeClientOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.directory = options.directory;
+  }
+
+  // Undefined when nothing answers or the response is not OpenCode's health payload.
+  async health(): Promise<OpenCodeHealth | undefined> {
+    try {
+      const data = await this.requestJson('GET', '/global/health');
+      if (!data || typeof data !== 'object') {
+        return undefined;
+      }
+      const values = data as Record<string, unknown>;
+      return {
+        healthy: values.healthy === true,
+        version: typeof values.version === 'string' ? values.version : undefined
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async listSessions(): Promise<OpenCodeSession[]> {
+    const data = await this.requestJson('GET', '/session');
+    return Array.isArray(data) ? data as OpenCodeSession[] : [];
+  }
+
+  // Most recently updated top-level session, what `opencode run --continue` picks.
+  async latestSession(): Promise<OpenCodeSession | undefined> {
+    const sessions = (await this.listSessions()).filter(session => !session.parentID);
+    return sessions.sort((a, b) => b.time.updated - a.time.updated)[0];
+  }
+
+  // Busy and retrying sessions by ID. Empty for servers without `GET /session/status`.
+  async sessionStates(): Promise<Record<string, OpenCodeSessionState>> {
+    try {
+      const data = await this.requestJson('GET', '/session/status');
+      const states: Record<string, OpenCodeSessionState> = {};
+      if (data && typeof data === 'object') {
+        for (const [sessionId, status] of Object.entries(data as Record<string, { type?: unknown }>)) {
+          if (status?.type === 'busy' || status?.type === 'retry') {
+            states[sessionId] = status.type;
+          }
+        }
+      }
+      return states;
+    } catch {
+      return {};
+    }
+  }
+
+  // `limit` caps how many messages the server returns.
+  async messages(sessionId: string, limit?: number): Promise<OpenCodeMessage[]> {
+    const query = limit === undefined ? '' : `?limit=${limit}`;
+    const data = await this.requestJson('GET', `/session/${encodeURIComponent(sessionId)}/message${query}`);
+    return Array.isArray(data) ? data as OpenCodeMessage[] : [];
+  }
+
+  async createSession(title?: string): Promise<OpenCodeSession> {
+    return await this.requestJson('POST', '/session', title ? { title } : {}) as OpenCodeSession;
+  }
+
+  // Queues a prompt and returns immediately; follow the run through `subscribe`.
+  async promptAsync(sessionId: string, text: string, agent?: string): Promise<void> {
+    await this.request('POST', `/session/${encodeURIComponent(sessionId)}/prompt_async`, {
+      ...(agent ? { agent } : {}),
+      parts: [{ type: 'text', text }]
+    });
+  }
+
+  async abort(sessionId: string): Promise<boolean> {
+    return await this.requestJson('POST', `/session/${encodeURIComponent(sessionId)}/abort`) === true;
+  }
+
+  // Streams `GET /event` until closed or the server ends the stream.
+  subscribe(onEvent: (event: OpenCodeEvent) => void, onClose?: (error?: Error) => void): OpenCodeEventStream {
+    let request: http.ClientRequest | undefined;
+    let closed = false;
+    const finish = (error?: Error) => {
+      if (!closed) {
+        closed = true;
+        onClose?.(error);
+      }
+    };
+
+    const ready = new Promise<void>((resolve, reject) => {
+      request = http.request(this.url('/event'), { method: 'GET', headers: { Accept: 'text/event-stream' } }, res => {
+        if ((res.statusCode ?? 0) !== 200) {
+          const error = new Error(`GET /event failed with status ${res.statusCode}`);
+          res.resume();
+          reject(error);
+          finish(error);
+          return;
+        }
+
+        const parser = new SseParser();
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => parser.feed(chunk).forEach(onEvent));
+        res.on('end', () => finish());
+        res.on('error', error => finish(error));
+        resolve();
+      });
+      request.on('error', error => {
+        reject(error);
+        finish(closed ? undefined : error);
+      });
+      request.end();
+    });
+    // Callers that only use `onClose` should not see an unhandled rejection.
+    ready.catch(() => undefined);
+
+    return {
+      ready,
+      close: () => {
+        finish();
+        request?.destroy();
+      }
+    };
+  }
+
+  /**
+   * Sends a prompt to a new or existing session and resolves when the session goes idle after
+   * working on it, reports an error, or is aborted through `options.signal`. An idle event
+   * before any busy status may belong to an earlier prompt, so it only settles once the prompt
+   * was accepted and `GET /session/status` does not list the session as working.
+   */
+  async runPrompt(text: string, options: OpenCodePromptOptions = {}): Promise<OpenCodePromptResult> {
+    const sessionId = options.sessionId ?? (await this.createSession(options.title)).id;
+
+    return new Promise<OpenCodePromptResult>((resolve, reject) => {
+      let settled = false;
+      let error: string | undefined;
+      let busy = false;
+      let accepted = false;
+      // An idle event arrived before busy and still needs to be checked against the server.
+      let idleUnconfirmed = false;
+
+      const settle = (result: Omit<OpenCodePromptResult, 'sessionId'> | Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        stream.close();
+        options.signal?.removeEventListener('abort', onAbort);
+        if (result instanceof Error) {
+          reject(result);
+        } else {
+          resolve({ sessionId, ...result });
+        }
+      };
+
+      const settleIdle = () => settle({ success: error === undefined, aborted: false, error });
+
+      // Servers that never report busy, or prompts that fail before it, still finish.
+      const confirmIdle = () => {
+        idleUnconfirmed = false;
+        void this.sessionStates().then(states => {
+          if (!busy && states[sessionId] === undefined) {
+            settleIdle();
+          }
+        });
+      };
+
+      const onIdle = () => {
+        if (busy) {
+          settleIdle();
+        } else if (accepted) {
+          confirmIdle();
+        } else {
+          idleUnconfirmed = true;
+        }
+      };
+
+      const onAbort = () => {
+        void this.abort(sessionId).catch(() => false);
+        settle({ success: false, aborted: true, error: 'Aborted' });
+      };
+
+      const stream = this.subscribe(event => {
+        if (eventSessionId(event) !== sessionId) {
+          return;
+        }
+        options.onEvent?.(event);
+
+        if (event.type === 'session.error') {
+          error = describeSessionError(event.properties.error);
+          if ((event.properties.error as { name?: unknown } | undefined)?.name === 'MessageAbortedError') {
+            settle({ success: false, aborted: true, error });
+          }
+        } else if (event.type === 'session.status') {
+          const status = event.properties.status as { type?: unknown } | undefined;
+          busy = status?.type === 'busy' || busy;
+          if (status?.type === 'idle') {
+            onIdle();
+          }
+        } else if (event.type === 'session.idle') {
+          onIdle();
+        }
+      }, closeError => {
+        settle(closeError ?? new Error('OpenCode event stream closed before the session finished'));
+      });
+
+      if (options.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      options.signal?.addEventListener('abort', onAbort);
+
+      // Subscribe first so the completion event cannot be missed.
+      stream.ready
+        .then(() => this.promptAsync(sessionId, text, options.agent))
+        .then(() => {
+          accepted = true;
+          if (idleUnconfirmed && !busy) {
+            confirmIdle();
+          }
+        })
+        .catch(reason => settle(reason instanceof Error ? reason : new Error(String(reason))));
+    });
+  }
+
+  private url(pathname: string): URL {
+    const url = new URL(pathname, this.baseUrl);
+    if (this.directory) {
+      url.searchParams.set('directory', this.directory);
+    }
+    return url;
+  }
+
+  private async requestJson(method: string, pathname: string, body?: unknown): Promise<unknown> {
+    const text = await this.request(method, pathname, body);
+    return text.trim() ? JSON.parse(text) : undefined;
+  }
+
+  private request(method: string, pathname: string, body?: unknown): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const payload = body === undefined ? undefined : JSON.stringify(body);
+      const headers: Record<string, string> = payload === undefined ? {} : {
+        'Content-Type': 'application/json',
+        'Content-Length': String(Buffer.byteLength(payload))
+      };
+      const req = http.request(this.url(pathname), { method, headers, timeout: this.timeoutMs }, res => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => (text += chunk));
+        res.on('end', () => {
+          const status = res.statusCode ?? 0;
+          if (status < 200 || status >= 300) {
+            reject(new Error(`${method} ${pathname} failed with status ${status}${text ? `: ${text.slice(0, 200)}` : ''}`));
+            return;
+          }
+          resolve(text);
+        });
+      });
+      req.on('timeout', () => req.destroy(new Error(`${method} ${pathname} timed out`)));
+      req.on('error', reject);
+      req.end(payload);
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import { OpenCodeMessage, OpenCodeSession } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Helpers for presenting OpenCode sessions next to OpenSpec changes.
+ */
+export class OpenCodeSessions {
+  /**
+   * The change a session works on: the longest known change ID found in its title or, failing
+   * that, in its user prompts. IDs only match as whole kebab-case words.
+   */
+  static changeIdOf(session: OpenCodeSession, messages: OpenCodeMessage[], changeIds: readonly string[]): string | undefined {
+    const fromTitle = this.findChangeId(session.title, changeIds);
+    if (fromTitle) {
+      return fromTitle;
+    }
+    for (const message of messages) {
+      if (message.info.role !== 'user') {
+        continue;
+      }
+      const text = message.parts.map(part => (part.type === 'text' ? part.text ?? '' : '')).join('\n');
+      const changeId = this.findChangeId(text, changeIds);
+      if (changeId) {
+        return changeId;
+      }
+    }
+    return undefined;
+  }
+
+  static findChangeId(text: string, changeIds: readonly string[]): string | undefined {
+    let found: string | undefined;
+    for (const changeId of changeIds) {
+      if (found && found.length >= changeId.length) {
+        continue;
+      }
+      const escaped = changeId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      if (new RegExp(`(^|[^a-z0-9-])${escaped}($|[^a-z0-9-])`, 'i').test(text)) {
+        found = changeId;
+      }
+    }
+    return found;
+  }
+
+  // "just now", "5m ago", "3h ago", "2d ago", then the date.
+  static describeLastActivity(updated: number, now: number = Date.now()): string {
+    const elapsed = Math.max(0, now - updated);
+    if (elapsed < MINUTE_MS) {
+      return 'just now';
+    }
+    if (elapsed < HOUR_MS) {
+      return `${Math.floor(elapsed / MINUTE_MS)}m ago`;
+    }
+    if (elapsed < DAY_MS) {
+      return `${Math.floor(elapsed / HOUR_MS)}h ago`;
+    }
+    if (elapsed < 7 * DAY_MS) {
+      return `${Math.floor(elapsed / DAY_MS)}d ago`;
+    }
+    return new Date(updated).toISOString().slice(0, 10);
+  }
+
+  // The OpenCode web UI routes sessions under the base64url-encoded project directory.
+  static uiUrl(baseUrl: string, sessionId: string, directory: string | undefined): string {
+    const base = baseUrl.replace(/\/+$/, '');
+    if (!directory) {
+      return base;
+    }
+    return `${base}/${Buffer.from(directory, 'utf8').toString('base64url')}/session/${encodeURIComponent(sessionId)}`;
+  }
+}
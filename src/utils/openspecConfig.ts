@@ -0,0 +1,207 @@
+import * as path from 'path';
+import { parseDocument } from 'yaml';
+import { ChangeMetadata, OpenSpecConfig } from '../types';
+import { ValidationIssue } from './specValidator';
+
+export interface ParsedOpenSpecConfig {
+  config: OpenSpecConfig;
+  issues: ValidationIssue[];
+}
+
+const WORD_LIMIT_RULE = /\b(?:under|below|at most|max(?:imum)?(?: of)?|no more than|fewer than|less than|within)\s+(\d+)\s+words\b/i;
+const QUOTED_HEADING_RULE = /\b(?:include|add|have|contain|require)s?\b.*?["'`“]([^"'`”]+)["'`”]\s+(?:section|heading)\b/i;
+const HEADING_RULE = /\b(?:include|add|have|contain|require)s?\s+(?:an?\s+|the\s+)?([A-Za-z][\w-]*(?:\s+[A-Za-z][\w-]*)?)\s+(?:section|heading)\b/i;
+const MARKDOWN_HEADING = /^#{1,6}\s+(.*?)\s*#*\s*$/;
+
+// Keep in sync with schemas/openspec-config.schema.json.
+const CONFIG_KEYS = ['schema', 'context', 'rules'];
+const RULE_ARTIFACTS = ['proposal', 'specs', 'design', 'tasks'];
+
+const ARTIFACT_FILES: Record<string, string> = {
+  'proposal.md': 'proposal',
+  'design.md': 'design',
+  'tasks.md': 'tasks'
+};
+
+function normalizeHeading(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Reads `openspec/config.yaml` and checks change artifacts against the rules it declares.
+ * Only rules with a recognizable shape (a word limit, a required heading) are checked;
+ * the rest are guidance for people and prompts.
+ */
+export class OpenSpecConfigParser {
+  static parse(text: string): ParsedOpenSpecConfig {
+    const config: OpenSpecConfig = { rules: {} };
+    const issues: ValidationIssue[] = [];
+    const lineOfKey = (key: string): number => {
+      const index = text.split(/\r?\n/).findIndex(line => line.startsWith(`${key}:`));
+      return Math.max(index, 0);
+    };
+
+    const document = parseDocument(text);
+    for (const error of document.errors) {
+      issues.push({
+        line: Math.max((error.linePos?.[0].line ?? 1) - 1, 0),
+        message: `config.yaml: ${error.message.split('\n')[0]}`,
+        severity: 'error',
+        code: 'config-yaml'
+      });
+    }
+    if (document.errors.length > 0) {
+      return { config, issues };
+    }
+
+    const data: unknown = document.toJS();
+    if (data === null || data === undefined) {
+      return { config, issues };
+    }
+    if (typeof data !== 'object' || Array.isArray(data)) {
+      issues.push({ line: 0, message: 'config.yaml must be a mapping of keys to values', severity: 'error', code: 'config-shape' });
+      return { config, issues };
+    }
+
+    const values = data as Record<string, unknown>;
+    for (const key of Object.keys(values).filter(key => !CONFIG_KEYS.includes(key))) {
+      issues.push({ line: lineOfKey(key), message: `Unknown key "${key}" (expected ${CONFIG_KEYS.join(', ')})`, severity: 'warning', code: 'config-unknown-key' });
+    }
+
+    if (values.schema !== undefined) {
+      if (typeof values.schema === 'string') {
+        config.schema = values.schema;
+      } else {
+        issues.push({ line: lineOfKey('schema'), message: '"schema" must be a string', severity: 'warning', code: 'config-shape' });
+      }
+    }
+
+    if (values.context !== undefined) {
+      if (typeof values.context === 'string') {
+        config.context = values.context;
+      } else {
+        issues.push({ line: lineOfKey('context'), message: '"context" must be a string (use "context: |" for multiple lines)', severity: 'warning', code: 'config-shape' });
+      }
+    }
+
+    if (values.rules !== undefined) {
+      const rules = values.rules;
+      if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+        issues.push({ line: lineOfKey('rules'), message: '"rules" must map artifact names to lists of rules', severity: 'warning', code: 'config-shape' });
+      } else {
+        for (const [artifact, entries] of Object.entries(rules as Record<string, unknown>)) {
+          if (!RULE_ARTIFACTS.includes(artifact)) {
+            issues.push({ line: lineOfKey('rules'), message: `Unknown artifact "${artifact}" in rules (expected ${RULE_ARTIFACTS.join(', ')})`, severity: 'warning', code: 'config-unknown-key' });
+          }
+          const list = typeof entries === 'string' ? [entries] : entries;
+          if (!Array.isArray(list) || list.some(entry => typeof entry !== 'string')) {
+            issues.push({ line: lineOfKey('rules'), message: `rules.${artifact} must be a rule or a list of rules`, severity: 'warning', code: 'config-shape' });
+            continue;
+          }
+          config.rules[artifact] = list as string[];
+        }
+      }
+    }
+
+    return { config, issues };
+  }
+
+  // Reads `.openspec.yaml`; malformed files yield empty metadata.
+  static parseChangeMetadata(text: string): ChangeMetadata {
+    const document = parseDocument(text);
+    const data: unknown = document.errors.length === 0 ? document.toJS() : undefined;
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return {};
+    }
+
+    const values = data as Record<string, unknown>;
+    const asText = (value: unknown): string | undefined =>
+      typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+    return { schema: asText(values.schema), created: asText(values.created) };
+  }
+
+  /**
+   * Maps an active change file to its artifact name (`proposal`, `design`, `tasks` or `specs`).
+   * `isRootDir` recognizes the OpenSpec root above `changes/`; by default a folder named `openspec`.
+   */
+  static artifactForPath(
+    filePath: string,
+    isRootDir: (dir: string) => boolean = dir => path.basename(dir) === 'openspec'
+  ): string | undefined {
+    const segments = filePath.split(/[\\/]+/);
+    const changesIndex = segments.lastIndexOf('changes');
+    if (changesIndex < 1) {
+      return undefined;
+    }
+
+    const rest = segments.slice(changesIndex + 1);
+    let changesDir = filePath;
+    for (let i = 0; i < rest.length; i++) {
+      changesDir = path.dirname(changesDir);
+    }
+    if (!isRootDir(path.dirname(changesDir))) {
+      return undefined;
+    }
+
+    if (rest.length === 0 || rest[0] === 'archive') {
+      return undefined;
+    }
+    if (rest.length === 2) {
+      return ARTIFACT_FILES[rest[1]];
+    }
+    if (rest.length === 4 && rest[1] === 'specs' && rest[3] === 'spec.md') {
+      return 'specs';
+    }
+    return undefined;
+  }
+
+  static checkRules(content: string, rules: string[]): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const lines = content.split(/\r?\n/);
+
+    for (const rule of rules) {
+      const wordLimit = rule.match(WORD_LIMIT_RULE);
+      if (wordLimit) {
+        const limit = Number.parseInt(wordLimit[1], 10);
+        const words = content
+          .replace(/<!--[\s\S]*?-->/g, ' ')
+          .split(/\s+/)
+          .filter(word => /[A-Za-z0-9]/.test(word)).length;
+        if (words > limit) {
+          issues.push({
+            line: 0,
+            message: `${words} words, over the ${limit}-word limit from config.yaml ("${rule}")`,
+            severity: 'info',
+            code: 'config-rule-word-limit'
+          });
+        }
+        continue;
+      }
+
+      const heading = rule.match(QUOTED_HEADING_RULE) ?? rule.match(HEADING_RULE);
+      if (heading) {
+        const wanted = normalizeHeading(heading[1]);
+        const found = lines.some(line => {
+          const match = line.match(MARKDOWN_HEADING);
+          return match !== null && normalizeHeading(match[1]) === wanted;
+        });
+        if (!found) {
+          issues.push({
+            line: 0,
+            message: `Missing a "${heading[1].trim()}" heading required by config.yaml ("${rule}")`,
+            severity: 'info',
+            code: 'config-rule-heading'
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  // Appends the project context from config.yaml to a prompt sent to OpenCode.
+  static withContext(prompt: string, config: OpenSpecConfig | undefined): string {
+    const context = config?.context?.trim();
+    return context ? `${prompt}\n\nProject context (openspec/config.yaml):\n${context}` : prompt;
+  }
+}
@@ -0,0 +1,262 @@
+import { RalphLoopEvent, RalphLoopResult, RalphScope } from '../types';
+
+const UNCHECKED_TASK = /^- \[ \] ([0-9]+(?:\.[0-9]+)*)(?=\s|$)/gm;
+const ANY_TASK = /^- \[[ x]\] ([0-9]+(?:\.[0-9]+)*)(?=\s|$)/gm;
+const DEFAULT_MAX_ITERATIONS = 30;
+// Skill instruction `ralph_opencode.mjs` passes to `opencode run` ahead of the prompt.
+const APPLY_INSTRUCTION = 'use skills openspec-apply-change to apply';
+
+export interface RalphBatchResult {
+  success: boolean;
+  aborted?: boolean;
+  error?: string;
+}
+
+export interface RalphLoopOptions {
+  changeId: string;
+  // tasks.md as named in prompts and events, usually relative to the workspace folder.
+  tasksPath: string;
+  // Tasks per OpenCode run, within one parent section.
+  count: number;
+  scope?: RalphScope;
+  maxIterations?: number;
+  // Project context from config.yaml, appended to every prompt.
+  context?: string;
+  readTasks: () => Promise<string>;
+  // Runs one prompt in a fresh OpenCode session.
+  runBatch: (prompt: string, taskIds: string[]) => Promise<RalphBatchResult>;
+  onEvent?: (event: RalphLoopEvent) => void;
+  isCancelled?: () => boolean;
+}
+
+type RawEvent = Record<string, unknown>;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+// Fields each event type must carry before it is handed to listeners.
+const EVENT_VALIDATORS: Record<RalphLoopEvent['type'], (event: RawEvent) => boolean> = {
+  'run.started': event => isString(event.changeId) && isString(event.tasksPath),
+  'batch.selected': event => isStringArray(event.taskIds),
+  'opencode.invoked': event => isStringArray(event.taskIds),
+  'task.verified': event => isString(event.taskId),
+  'task.failed': event => isString(event.taskId),
+  'run.finished': event => isString(event.reason) && isStringArray(event.completed)
+};
+
+function escapeRegexLiteral(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The task loop of `ralph_opencode.mjs`: pick the next unchecked tasks (batches stay within one
+ * parent section), hand them to OpenCode, and only continue when they were checked off in order.
+ * Keep the two in sync; the `.mjs` stays standalone for CLI users.
+ */
+export class RalphLoop {
+  static isInScope(taskId: string, scope: RalphScope = {}): boolean {
+    if (scope.taskId) {
+      return taskId === scope.taskId;
+    }
+    if (scope.section) {
+      return taskId.split('.')[0] === scope.section;
+    }
+    return true;
+  }
+
+  static describeScope(scope: RalphScope = {}): string {
+    return scope.taskId ? `task ${scope.taskId}` : scope.section ? `section ${scope.section}` : '';
+  }
+
+  static taskIds(tasksText: string): string[] {
+    return [...tasksText.matchAll(ANY_TASK)].map(match => match[1]);
+  }
+
+  static uncheckedTaskIds(tasksText: string, scope: RalphScope = {}): string[] {
+    return [...tasksText.matchAll(UNCHECKED_TASK)].map(match => match[1]).filter(id => this.isInScope(id, scope));
+  }
+
+  static allDone(tasksText: string, scope: RalphScope = {}): boolean {
+    return this.uncheckedTaskIds(tasksText, scope).length === 0;
+  }
+
+  static isTaskDone(tasksText: string, taskId: string): boolean {
+    return new RegExp(`^- \\[x\\] ${escapeRegexLiteral(taskId)}(\\s|$)`, 'm').test(tasksText);
+  }
+
+  // Up to `limit` unchecked task IDs, stopping at the first task of another parent section.
+  static findNextUncheckedTaskIds(tasksText: string, limit: number, scope: RalphScope = {}): string[] {
+    const batch: string[] = [];
+    for (const id of this.uncheckedTaskIds(tasksText, scope)) {
+      if (batch.length >= limit || (batch.length > 0 && id.split('.')[0] !== batch[0].split('.')[0])) {
+        break;
+      }
+      batch.push(id);
+    }
+    return batch;
+  }
+
+  static newlyCompletedIds(beforeText: string, afterText: string, taskIds: string[]): string[] {
+    return taskIds.filter(id => !this.isTaskDone(beforeText, id) && this.isTaskDone(afterText, id));
+  }
+
+  // The task line and its details, up to the next task or `##` section header.
+  static extractTaskBlock(tasksText: string, taskId: string): string {
+    const start = new RegExp(`^- \\[[ x]\\] ${escapeRegexLiteral(taskId)}(\\s|$)`);
+    const block: string[] = [];
+    for (const line of tasksText.split(/\r?\n/)) {
+      if (block.length > 0 && (/^- \[[ x]\] [0-9]+(\.[0-9]+)*(\s|$)/.test(line) || /^##\s/.test(line))) {
+        break;
+      }
+      if (block.length > 0 || start.test(line)) {
+        block.push(line);
+      }
+    }
+    return block.join('\n').trimEnd();
+  }
+
+  static buildPrompt(changeId: string, tasksPath: string, taskIds: string[], blocks: string[], context?: string): string {
+    return `${APPLY_INSTRUCTION}\n` +
+      `Target change: ${changeId}\n` +
+      `Tasks file: ${tasksPath}\n` +
+      'Task IDs (complete in order):\n' +
+      taskIds.map(id => `- ${id}`).join('\n') +
+      '\n\n' +
+      'Task details (verbatim from tasks.md):\n' +
+      blocks.join('\n\n') +
+      '\n\n' +
+      'Rules:\n' +
+      '- Only implement work for the task IDs listed above\n' +
+      '- Do NOT start, modify, or check off any other task ids\n' +
+      '- You may check previous tasks to get context about the current task(s) context\n' +
+      '- If it is a lint/test/qa/review and it fail, fix it\n' +
+      `- As you finish each task, mark it done in ${tasksPath} by changing:\n` +
+      '- [ ] <id> -> - [x] <id>\n' +
+      (context?.trim() ? `\nProject context (openspec/config.yaml):\n${context.trim()}\n` : '');
+  }
+
+  /**
+   * Runs batches until every task in scope is checked off, a batch fails or is not verified,
+   * the run is cancelled, or `maxIterations` is reached.
+   */
+  static async run(options: RalphLoopOptions): Promise<RalphLoopResult> {
+    const scope = options.scope ?? {};
+    const scopeLabel = this.describeScope(scope);
+    const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const completed: string[] = [];
+    const finish = (result: Omit<RalphLoopResult, 'completed'>): RalphLoopResult => {
+      const finished = { ...result, completed };
+      options.onEvent?.({ type: 'run.finished', ...finished });
+      return finished;
+    };
+
+    options.onEvent?.({
+      type: 'run.started',
+      changeId: options.changeId,
+      tasksPath: options.tasksPath,
+      count: options.count,
+      maxIterations,
+      ...(scopeLabel ? { scope: scopeLabel } : {})
+    });
+
+    const initialText = await options.readTasks();
+    if (scopeLabel && !this.taskIds(initialText).some(id => this.isInScope(id, scope))) {
+      return finish({ reason: 'failed', message: `${scopeLabel} not found in ${options.tasksPath}` });
+    }
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      if (options.isCancelled?.()) {
+        return finish({ reason: 'cancelled' });
+      }
+
+      const before = iteration === 1 ? initialText : await options.readTasks();
+      if (this.allDone(before, scope)) {
+        return finish({ reason: 'completed' });
+      }
+
+      const taskIds = this.findNextUncheckedTaskIds(before, Math.max(1, options.count), scope);
+      const blocks = taskIds.map(id => this.extractTaskBlock(before, id));
+      options.onEvent?.({ type: 'batch.selected', iteration, taskIds });
+
+      options.onEvent?.({ type: 'opencode.invoked', iteration, taskIds });
+      const batch = await options.runBatch(
+        this.buildPrompt(options.changeId, options.tasksPath, taskIds, blocks, options.context),
+        taskIds
+      );
+      if (batch.aborted || options.isCancelled?.()) {
+        return finish({ reason: 'cancelled' });
+      }
+      if (!batch.success) {
+        return finish({ reason: 'failed', failedTaskId: taskIds[0], message: batch.error ?? 'OpenCode run failed' });
+      }
+
+      const after = await options.readTasks();
+      const newlyCompleted = this.newlyCompletedIds(before, after, taskIds);
+      // Checked-off tasks must be a prefix of the batch, or a task was skipped.
+      const verified = newlyCompleted.every((id, index) => taskIds[index] === id) ? newlyCompleted : [];
+      for (const taskId of verified) {
+        completed.push(taskId);
+        options.onEvent?.({ type: 'task.verified', iteration, taskId });
+      }
+
+      if (verified.length === 0) {
+        const failedTaskId = taskIds.find(id => !newlyCompleted.includes(id)) ?? taskIds[0];
+        const message = newlyCompleted.length === 0
+          ? `none of ${taskIds.join(', ')} was marked done in ${options.tasksPath}`
+          : `tasks were checked off out of order (requested ${taskIds.join(', ')}, completed ${newlyCompleted.join(', ')})`;
+        options.onEvent?.({ type: 'task.failed', iteration, taskId: failedTaskId, message });
+        return finish({ reason: 'failed', failedTaskId, message });
+      }
+
+      if (this.allDone(after, scope)) {
+        return finish({ reason: 'completed' });
+      }
+    }
+
+    if (this.allDone(await options.readTasks(), scope)) {
+      return finish({ reason: 'completed' });
+    }
+    return finish({ reason: 'max-iterations', message: `tasks remain after ${maxIterations} iterations` });
+  }
+}
+
+/**
+ * Splits the stdout of `ralph_opencode.mjs --events` into loop events. Feed it chunks as they
+ * arrive; lines that are not events, or events missing the fields of their type, are skipped.
+ */
+export class RalphEventParser {
+  private buffer = '';
+
+  feed(chunk: string): RalphLoopEvent[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+    return lines.map(line => RalphEventParser.parseLine(line)).filter((event): event is RalphLoopEvent => event !== undefined);
+  }
+
+  // Parses a last line that was not terminated by a newline.
+  flush(): RalphLoopEvent[] {
+    const rest = this.buffer;
+    this.buffer = '';
+    const event = RalphEventParser.parseLine(rest);
+    return event ? [event] : [];
+  }
+
+  private static parseLine(line: string): RalphLoopEvent | undefined {
+    if (!line.trim().startsWith('{')) {
+      return undefined;
+    }
+    try {
+      const parsed: unknown = JSON.parse(line);
+      if (!parsed || typeof parsed !== 'object') {
+        return undefined;
+      }
+      const event = parsed as RawEvent;
+      const isValid = Object.prototype.hasOwnProperty.call(EVENT_VALIDATORS, event.type as string)
+        && EVENT_VALIDATORS[event.type as RalphLoopEvent['type']](event);
+      return isValid ? event as unknown as RalphLoopEvent : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { ParsedSpec, RequirementIndexEntry, RequirementSource, SpecRequirement } from '../types';
+import { SpecParser } from './specParser';
+
+/**
+ * Flattens parsed baseline and delta specs into a searchable list of requirements and scenarios.
+ */
+export class RequirementIndex {
+  static build(specs: Array<{ spec: ParsedSpec; source: RequirementSource }>): RequirementIndexEntry[] {
+    const entries = specs.flatMap(({ spec, source }) => this.entriesForSpec(spec, source));
+    this.linkTouchingChanges(entries);
+    return entries;
+  }
+
+  static entriesForSpec(spec: ParsedSpec, source: RequirementSource): RequirementIndexEntry[] {
+    const base = {
+      capability: source.capability,
+      filePath: source.filePath,
+      changeId: source.changeId,
+      isArchived: source.isArchived,
+      touchedBy: [] as string[]
+    };
+
+    const entries = spec.requirements.flatMap(requirement => this.requirementEntries(requirement, base));
+    for (const delta of spec.deltas) {
+      for (const requirement of delta.requirements) {
+        entries.push(...this.requirementEntries(requirement, { ...base, operation: delta.operation }));
+      }
+      for (const rename of delta.renames) {
+        entries.push({
+          ...base,
+          kind: 'requirement',
+          name: rename.to || rename.from,
+          requirementName: rename.to || rename.from,
+          line: rename.fromLine,
+          operation: 'RENAMED',
+          renamedFrom: rename.from,
+          touchedBy: []
+        });
+      }
+    }
+    return entries;
+  }
+
+  // Subsequence match, the relaxed matching VS Code expects from workspace symbol providers.
+  static matches(entry: RequirementIndexEntry, query: string): boolean {
+    const name = entry.name.toLowerCase();
+    let position = 0;
+    for (const char of query.toLowerCase().replace(/\s+/g, '')) {
+      position = name.indexOf(char, position);
+      if (position < 0) {
+        return false;
+      }
+      position++;
+    }
+    return true;
+  }
+
+  private static requirementEntries(
+    requirement: SpecRequirement,
+    base: Omit<RequirementIndexEntry, 'kind' | 'name' | 'requirementName' | 'line'>
+  ): RequirementIndexEntry[] {
+    return [
+      { ...base, kind: 'requirement', name: requirement.name, requirementName: requirement.name, line: requirement.headerLine, touchedBy: [] },
+      ...requirement.scenarios.map(scenario => ({
+        ...base,
+        kind: 'scenario' as const,
+        name: scenario.name,
+        requirementName: requirement.name,
+        line: scenario.headerLine,
+        touchedBy: []
+      }))
+    ];
+  }
+
+  // Marks baseline entries with the active changes that modify, remove or rename their requirement.
+  private static linkTouchingChanges(entries: RequirementIndexEntry[]): void {
+    const key = (capability: string, requirement: string) => `${capability}\u0000${SpecParser.normalizeRequirementName(requirement)}`;
+    const touching = new Map<string, Set<string>>();
+
+    for (const entry of entries) {
+      if (!entry.changeId || entry.isArchived || entry.kind !== 'requirement' || entry.operation === 'ADDED') {
+        continue;
+      }
+      const target = key(entry.capability, entry.renamedFrom ?? entry.requirementName);
+      const changes = touching.get(target) ?? new Set<string>();
+      changes.add(entry.changeId);
+      touching.set(target, changes);
+    }
+
+    for (const entry of entries) {
+      if (!entry.changeId) {
+        entry.touchedBy = [...(touching.get(key(entry.capability, entry.requirementName)) ?? [])].sort();
+      }
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+
+const SECTION = 'openspec';
+const DEFAULT_ROOT = 'openspec';
+
+// Defaults for `openspec.opencode.*`; keep in sync with package.json.
+export const OPENCODE_DEFAULTS = {
+  host: 'localhost',
+  port: 4099,
+  binary: 'opencode',
+  npxPackage: 'opencode-ai@1.1.44',
+  agent: 'plan',
+  printLogs: true
+} as const;
+
+/**
+ * Typed access to the `openspec.*` settings contributed in package.json.
+ */
+export class Settings {
+  static get includeArchivedInSearch(): boolean {
+    return this.configuration().get<boolean>('search.includeArchivedChanges', false);
+  }
+
+  static get archiveWithOpenCode(): boolean {
+    return this.configuration().get<boolean>('archive.useOpenCode', false);
+  }
+
+  static get applyWithTerminalRunner(): boolean {
+    return this.configuration().get<boolean>('apply.useTerminalRunner', false);
+  }
+
+  // OpenSpec root of a workspace folder, relative to the folder (or absolute).
+  static openspecRoot(workspaceFolder: vscode.WorkspaceFolder): string {
+    return this.nonEmpty(this.configuration(workspaceFolder.uri).get<unknown>('root'), DEFAULT_ROOT);
+  }
+
+  static get discoverRoot(): boolean {
+    return this.configuration().get<boolean>('discoverRoot', false) === true;
+  }
+
+  static async setOpenSpecRoot(workspaceFolder: vscode.WorkspaceFolder, root: string): Promise<void> {
+    await this.configuration(workspaceFolder.uri).update('root', root, vscode.ConfigurationTarget.WorkspaceFolder);
+  }
+
+  static get opencodeHost(): string {
+    return this.nonEmpty(this.configuration().get<string>('opencode.host'), OPENCODE_DEFAULTS.host);
+  }
+
+  static get opencodePort(): number {
+    const port = this.configuration().get<number>('opencode.port', OPENCODE_DEFAULTS.port);
+    return Number.isInteger(port) && port > 0 && port < 65536 ? port : OPENCODE_DEFAULTS.port;
+  }
+
+  // `host:port`, as `opencode run --attach` takes it.
+  static get opencodeAddress(): string {
+    const host = this.opencodeHost;
+    return `${host.includes(':') ? `[${host}]` : host}:${this.opencodePort}`;
+  }
+
+  static get opencodeUrl(): string {
+    return `http://${this.opencodeAddress}`;
+  }
+
+  // Binary name or path used in terminals and by the Ralph runner.
+  static get opencodeBinary(): string {
+    return this.nonEmpty(this.configuration().get<string>('opencode.binary'), OPENCODE_DEFAULTS.binary);
+  }
+
+  // Binary as typed into a shell: quoted when the path contains spaces.
+  static get opencodeCommand(): string {
+    const binary = this.opencodeBinary;
+    return /\s/.test(binary) ? JSON.stringify(binary) : binary;
+  }
+
+  static get opencodeNpxPackage(): string {
+    return this.nonEmpty(this.configuration().get<string>('opencode.npxPackage'), OPENCODE_DEFAULTS.npxPackage);
+  }
+
+  static get opencodeAgent(): string {
+    return this.nonEmpty(this.configuration().get<string>('opencode.agent'), OPENCODE_DEFAULTS.agent);
+  }
+
+  static get opencodePrintLogs(): boolean {
+    return this.configuration().get<boolean>('opencode.printLogs', OPENCODE_DEFAULTS.printLogs);
+  }
+
+  // Hand-edited settings.json can hold any JSON value, so anything but a non-empty string falls back.
+  private static nonEmpty(value: unknown, fallback: string): string {
+    const trimmed = typeof value === 'string' ? value.trim() : '';
+    return trimmed ? trimmed : fallback;
+  }
+
+  private static configuration(scope?: vscode.Uri): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration(SECTION, scope);
+  }
+}
@@ -0,0 +1,141 @@
+import { SpecDeltaOperation } from '../types';
+import { SpecParser } from './specParser';
+import { trimTrailingBlankLines } from './markdownLines';
+
+export interface SpecMergeIssue {
+  operation: SpecDeltaOperation;
+  requirement: string;
+  // Zero-based line in the delta spec.
+  line: number;
+  message: string;
+}
+
+export interface SpecMergeResult {
+  content: string;
+  issues: SpecMergeIssue[];
+  counts: Record<SpecDeltaOperation, number>;
+}
+
+interface RequirementBlock {
+  name: string;
+  text: string;
+}
+
+/**
+ * Applies a change delta spec to a baseline spec in memory.
+ * Operations run in the same order as `openspec archive`: RENAMED, REMOVED, MODIFIED, ADDED.
+ */
+export class SpecMerger {
+  static apply(baselineContent: string | undefined, deltaContent: string, capability: string): SpecMergeResult {
+    const baselineText = baselineContent ?? this.createBaselineSkeleton(capability);
+    const baseline = SpecParser.parse(baselineText);
+    const delta = SpecParser.parse(deltaContent);
+    const lines = baselineText.split(/\r?\n/);
+
+    const issues: SpecMergeIssue[] = [];
+    const counts: Record<SpecDeltaOperation, number> = { ADDED: 0, MODIFIED: 0, REMOVED: 0, RENAMED: 0 };
+
+    const requirements = baseline.requirements;
+    let prefix: string;
+    let suffix = '';
+    const blocks: RequirementBlock[] = [];
+
+    if (requirements.length === 0) {
+      prefix = trimTrailingBlankLines(lines).join('\n');
+      if (!baseline.requirementsRange) {
+        prefix = `${prefix}${prefix ? '\n\n' : ''}## Requirements`;
+      }
+    } else {
+      prefix = trimTrailingBlankLines(lines.slice(0, requirements[0].range.startLine)).join('\n');
+      requirements.forEach((requirement, index) => {
+        const next = requirements[index + 1];
+        const endLine = next ? next.range.startLine : requirement.range.endLine + 1;
+        blocks.push({
+          name: requirement.name,
+          text: trimTrailingBlankLines(lines.slice(requirement.range.startLine, endLine)).join('\n')
+        });
+      });
+      suffix = trimTrailingBlankLines(lines.slice(requirements[requirements.length - 1].range.endLine + 1)).join('\n').trim();
+    }
+
+    const findIndex = (name: string): number => {
+      const wanted = SpecParser.normalizeRequirementName(name);
+      return blocks.findIndex(block => SpecParser.normalizeRequirementName(block.name) === wanted);
+    };
+
+    const sectionsFor = (operation: SpecDeltaOperation) => delta.deltas.filter(section => section.operation === operation);
+
+    for (const section of sectionsFor('RENAMED')) {
+      for (const rename of section.renames) {
+        const index = findIndex(rename.from);
+        if (!rename.to) {
+          issues.push({ operation: 'RENAMED', requirement: rename.from, line: rename.fromLine, message: `RENAMED entry "${rename.from}" has no TO name` });
+        } else if (index < 0) {
+          issues.push({ operation: 'RENAMED', requirement: rename.from, line: rename.fromLine, message: `Cannot rename "${rename.from}": requirement not found in baseline spec` });
+        } else if (findIndex(rename.to) >= 0) {
+          issues.push({ operation: 'RENAMED', requirement: rename.to, line: rename.toLine ?? rename.fromLine, message: `Cannot rename "${rename.from}" to "${rename.to}": a requirement with that name already exists` });
+        } else {
+          const block = blocks[index];
+          const textLines = block.text.split('\n');
+          textLines[0] = `### Requirement: ${rename.to}`;
+          blocks[index] = { name: rename.to, text: textLines.join('\n') };
+          counts.RENAMED++;
+        }
+      }
+    }
+
+    for (const section of sectionsFor('REMOVED')) {
+      for (const requirement of section.requirements) {
+        const index = findIndex(requirement.name);
+        if (index < 0) {
+          issues.push({ operation: 'REMOVED', requirement: requirement.name, line: requirement.headerLine, message: `Cannot remove "${requirement.name}": requirement not found in baseline spec` });
+          continue;
+        }
+        blocks.splice(index, 1);
+        counts.REMOVED++;
+      }
+    }
+
+    for (const section of sectionsFor('MODIFIED')) {
+      for (const requirement of section.requirements) {
+        const index = findIndex(requirement.name);
+        if (index < 0) {
+          issues.push({ operation: 'MODIFIED', requirement: requirement.name, line: requirement.headerLine, message: `Cannot modify "${requirement.name}": requirement not found in baseline spec` });
+          continue;
+        }
+        blocks[index] = { name: requirement.name, text: requirement.text };
+        counts.MODIFIED++;
+      }
+    }
+
+    for (const section of sectionsFor('ADDED')) {
+      for (const requirement of section.requirements) {
+        if (findIndex(requirement.name) >= 0) {
+          issues.push({ operation: 'ADDED', requirement: requirement.name, line: requirement.headerLine, message: `Cannot add "${requirement.name}": a requirement with that name already exists` });
+          continue;
+        }
+        blocks.push({ name: requirement.name, text: requirement.text });
+        counts.ADDED++;
+      }
+    }
+
+    const parts = [prefix, ...blocks.map(block => block.text), suffix].filter(part => part.length > 0);
+    return {
+      content: `${parts.join('\n\n')}\n`,
+      issues,
+      counts
+    };
+  }
+
+  static createBaselineSkeleton(capability: string): string {
+    return [
+      `# ${capability} Specification`,
+      '',
+      '## Purpose',
+      'TBD - created from a change delta. Update Purpose after archive.',
+      '',
+      '## Requirements',
+      ''
+    ].join('\n');
+  }
+}
@@ -0,0 +1,306 @@
+import {
+  ParsedSpec,
+  ScenarioStepKeyword,
+  SourceRange,
+  SpecDeltaOperation,
+  SpecDeltaSection,
+  SpecRename,
+  SpecRequirement,
+  SpecScenario
+} from '../types';
+import { lastContentLine } from './markdownLines';
+
+const TITLE_HEADER = /^#\s+(.+?)\s*$/;
+const SECTION_HEADER = /^##\s+(.+?)\s*#*\s*$/;
+const DELTA_SECTION_TITLE = /^(ADDED|MODIFIED|REMOVED|RENAMED)\s+Requirements$/i;
+const REQUIREMENT_HEADER = /^###\s+Requirement:\s*(.*?)\s*$/;
+const SCENARIO_HEADER = /^####\s+Scenario:\s*(.*?)\s*$/;
+const OTHER_H3_HEADER = /^###\s/;
+const OTHER_H4_HEADER = /^####\s/;
+const STEP_LINE = /^\s*[-*]\s+(?:\*\*(GIVEN|WHEN|THEN|AND)\*\*|(GIVEN|WHEN|THEN|AND)\b)\s*:?\s*(.*)$/;
+const RENAME_FROM = /^\s*[-*]\s+FROM:\s*(.+?)\s*$/i;
+const RENAME_TO = /^\s*[-*]\s+TO:\s*(.+?)\s*$/i;
+const FENCE = /^\s*(```|~~~)/;
+
+type SectionKind = 'purpose' | 'requirements' | 'delta' | 'other';
+
+interface OpenRequirement {
+  name: string;
+  headerLine: number;
+  scenarios: SpecScenario[];
+}
+
+interface OpenScenario {
+  scenario: SpecScenario;
+}
+
+/**
+ * Parses OpenSpec `spec.md` files (baseline specs and change delta specs) into a typed model.
+ * Pure string processing so it can be shared by the explorer, webview, diagnostics and tests.
+ */
+export class SpecParser {
+  static parse(content: string): ParsedSpec {
+    const lines = content.split(/\r?\n/);
+    const result: ParsedSpec = {
+      requirements: [],
+      deltas: [],
+      isDelta: false,
+      lineCount: lines.length
+    };
+
+    let sectionKind: SectionKind | undefined;
+    let sectionStart = -1;
+    let currentDelta: SpecDeltaSection | undefined;
+    let currentRequirement: OpenRequirement | undefined;
+    let currentScenario: OpenScenario | undefined;
+    let pendingRename: SpecRename | undefined;
+    let inFence = false;
+
+    const closeScenario = (beforeLine: number) => {
+      if (!currentScenario) {
+        return;
+      }
+      const scenario = currentScenario.scenario;
+      scenario.range = {
+        startLine: scenario.headerLine,
+        endLine: lastContentLine(lines, scenario.headerLine, beforeLine - 1)
+      };
+      currentScenario = undefined;
+    };
+
+    const closeRequirement = (beforeLine: number) => {
+      closeScenario(beforeLine);
+      if (!currentRequirement) {
+        return;
+      }
+      const open = currentRequirement;
+      const range: SourceRange = {
+        startLine: open.headerLine,
+        endLine: lastContentLine(lines, open.headerLine, beforeLine - 1)
+      };
+      const bodyEnd = open.scenarios.length > 0 ? open.scenarios[0].headerLine - 1 : range.endLine;
+      const requirement: SpecRequirement = {
+        name: open.name,
+        body: lines.slice(open.headerLine + 1, bodyEnd + 1).join('\n').trim(),
+        text: lines.slice(range.startLine, range.endLine + 1).join('\n'),
+        scenarios: open.scenarios,
+        headerLine: open.headerLine,
+        range
+      };
+
+      if (currentDelta) {
+        currentDelta.requirements.push(requirement);
+      } else {
+        result.requirements.push(requirement);
+      }
+      currentRequirement = undefined;
+    };
+
+    const closeRename = () => {
+      if (pendingRename && currentDelta) {
+        currentDelta.renames.push(pendingRename);
+      }
+      pendingRename = undefined;
+    };
+
+    const closeSection = (beforeLine: number) => {
+      closeRequirement(beforeLine);
+      closeRename();
+      if (sectionStart < 0) {
+        return;
+      }
+      const range: SourceRange = {
+        startLine: sectionStart,
+        endLine: lastContentLine(lines, sectionStart, beforeLine - 1)
+      };
+      if (sectionKind === 'purpose') {
+        result.purposeRange = range;
+        result.purpose = lines.slice(sectionStart + 1, beforeLine).join('\n').trim();
+      } else if (sectionKind === 'requirements') {
+        result.requirementsRange = range;
+      } else if (sectionKind === 'delta' && currentDelta) {
+        currentDelta.range = range;
+        result.deltas.push(currentDelta);
+      }
+      sectionKind = undefined;
+      sectionStart = -1;
+      currentDelta = undefined;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      if (FENCE.test(line)) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence) {
+        continue;
+      }
+
+      const titleMatch = line.match(TITLE_HEADER);
+      if (titleMatch && result.title === undefined && sectionStart < 0) {
+        result.title = titleMatch[1];
+        continue;
+      }
+
+      const sectionMatch = line.match(SECTION_HEADER);
+      if (sectionMatch) {
+        closeSection(i);
+        const title = sectionMatch[1];
+        const deltaMatch = title.match(DELTA_SECTION_TITLE);
+        sectionStart = i;
+        if (deltaMatch) {
+          sectionKind = 'delta';
+          currentDelta = {
+            operation: deltaMatch[1].toUpperCase() as SpecDeltaOperation,
+            headerLine: i,
+            range: { startLine: i, endLine: i },
+            requirements: [],
+            renames: []
+          };
+        } else if (/^purpose$/i.test(title)) {
+          sectionKind = 'purpose';
+        } else if (/^requirements$/i.test(title)) {
+          sectionKind = 'requirements';
+        } else {
+          sectionKind = 'other';
+        }
+        continue;
+      }
+
+      const requirementMatch = line.match(REQUIREMENT_HEADER);
+      if (requirementMatch) {
+        closeRequirement(i);
+        closeRename();
+        currentRequirement = { name: requirementMatch[1], headerLine: i, scenarios: [] };
+        continue;
+      }
+
+      if (OTHER_H3_HEADER.test(line)) {
+        closeRequirement(i);
+        continue;
+      }
+
+      const scenarioMatch = line.match(SCENARIO_HEADER);
+      if (scenarioMatch && currentRequirement) {
+        closeScenario(i);
+        const scenario: SpecScenario = {
+          name: scenarioMatch[1],
+          steps: [],
+          headerLine: i,
+          range: { startLine: i, endLine: i }
+        };
+        currentRequirement.scenarios.push(scenario);
+        currentScenario = { scenario };
+        continue;
+      }
+
+      if (OTHER_H4_HEADER.test(line)) {
+        closeScenario(i);
+        continue;
+      }
+
+      if (currentScenario) {
+        const stepMatch = line.match(STEP_LINE);
+        if (stepMatch) {
+          currentScenario.scenario.steps.push({
+            keyword: (stepMatch[1] || stepMatch[2]) as ScenarioStepKeyword,
+            text: stepMatch[3].trim(),
+            line: i
+          });
+        }
+        continue;
+      }
+
+      if (currentDelta?.operation === 'RENAMED' && !currentRequirement) {
+        const fromMatch = line.match(RENAME_FROM);
+        if (fromMatch) {
+          closeRename();
+          pendingRename = {
+            from: SpecParser.normalizeRequirementReference(fromMatch[1]),
+            to: '',
+            fromLine: i,
+            range: { startLine: i, endLine: i }
+          };
+          continue;
+        }
+        const toMatch = line.match(RENAME_TO);
+        if (toMatch && pendingRename) {
+          pendingRename.to = SpecParser.normalizeRequirementReference(toMatch[1]);
+          pendingRename.toLine = i;
+          pendingRename.range.endLine = i;
+          closeRename();
+        }
+      }
+    }
+
+    closeSection(lines.length);
+    result.isDelta = result.deltas.length > 0;
+    return result;
+  }
+
+  /**
+   * Strips markdown decoration from a requirement reference such as
+   * "`### Requirement: Old Name`" so it can be compared against parsed names.
+   */
+  static normalizeRequirementReference(raw: string): string {
+    return raw
+      .trim()
+      .replace(/^`+|`+$/g, '')
+      .replace(/^###\s+/, '')
+      .replace(/^Requirement:\s*/i, '')
+      .trim();
+  }
+
+  static normalizeRequirementName(name: string): string {
+    return name.trim().replace(/\s+/g, ' ');
+  }
+
+  static findRequirement(requirements: SpecRequirement[], name: string): SpecRequirement | undefined {
+    const wanted = this.normalizeRequirementName(name);
+    return requirements.find(requirement => this.normalizeRequirementName(requirement.name) === wanted);
+  }
+
+  /**
+   * Suggests the requirement a mistyped name most likely refers to: a case-insensitive match,
+   * or the closest name within a small edit distance.
+   */
+  static findClosestRequirement(requirements: SpecRequirement[], name: string): SpecRequirement | undefined {
+    const wanted = this.normalizeRequirementName(name).toLowerCase();
+    const maxDistance = Math.max(2, Math.floor(wanted.length / 4));
+    let best: SpecRequirement | undefined;
+    let bestDistance = Infinity;
+    for (const requirement of requirements) {
+      const distance = editDistance(wanted, this.normalizeRequirementName(requirement.name).toLowerCase());
+      if (distance < bestDistance) {
+        best = requirement;
+        bestDistance = distance;
+      }
+    }
+    return bestDistance <= maxDistance ? best : undefined;
+  }
+
+  // Total requirement headings in the file, regardless of which section they live in.
+  static countRequirements(spec: ParsedSpec): number {
+    return spec.requirements.length
+      + spec.deltas.reduce((total, delta) => total + delta.requirements.length, 0);
+  }
+}
+
+// Levenshtein distance, used for "did you mean" suggestions.
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
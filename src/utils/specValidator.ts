@@ -0,0 +1,156 @@
+import { SpecRequirement } from '../types';
+import { SpecMerger } from './specMerge';
+import { SpecParser } from './specParser';
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationIssue {
+  // Zero-based line the issue is reported on.
+  line: number;
+  message: string;
+  severity: ValidationSeverity;
+  code: string;
+}
+
+const NORMATIVE_KEYWORD = /\b(SHALL|MUST)\b/;
+
+/**
+ * Structural checks for OpenSpec spec files, mirroring what `openspec validate` / archive rely on.
+ */
+export class SpecValidator {
+  static validateSpec(content: string): ValidationIssue[] {
+    const spec = SpecParser.parse(content);
+    const issues: ValidationIssue[] = [];
+
+    if (spec.isDelta) {
+      issues.push(...spec.deltas.map(delta => ({
+        line: delta.headerLine,
+        message: `Delta section "${delta.operation} Requirements" is only valid in change specs (changes/<id>/specs/<capability>/spec.md)`,
+        severity: 'warning' as const,
+        code: 'delta-in-baseline'
+      })));
+    }
+
+    issues.push(...this.checkRequirements(spec.requirements));
+    issues.push(...this.checkDuplicates(spec.requirements, 'spec'));
+    return issues;
+  }
+
+  static validateDelta(content: string, baselineContent: string | undefined, capability: string): ValidationIssue[] {
+    const spec = SpecParser.parse(content);
+    const issues: ValidationIssue[] = [];
+
+    if (!spec.isDelta) {
+      issues.push({
+        line: 0,
+        message: 'Change spec has no delta sections (expected "## ADDED Requirements", "## MODIFIED Requirements", "## REMOVED Requirements" or "## RENAMED Requirements")',
+        severity: 'warning',
+        code: 'missing-delta-sections'
+      });
+    }
+
+    for (const delta of spec.deltas) {
+      if (delta.operation === 'ADDED' || delta.operation === 'MODIFIED') {
+        issues.push(...this.checkRequirements(delta.requirements));
+      }
+      if (delta.operation !== 'RENAMED') {
+        issues.push(...this.checkDuplicates(delta.requirements, `${delta.operation} section`));
+      }
+    }
+
+    if (baselineContent === undefined) {
+      for (const delta of spec.deltas) {
+        if (delta.operation === 'ADDED') {
+          continue;
+        }
+        issues.push({
+          line: delta.headerLine,
+          message: `"${delta.operation} Requirements" needs a baseline spec, but specs/${capability}/spec.md does not exist`,
+          severity: 'error',
+          code: 'missing-baseline'
+        });
+      }
+      return issues;
+    }
+
+    const merge = SpecMerger.apply(baselineContent, content, capability);
+    issues.push(...merge.issues.map(issue => ({
+      line: issue.line,
+      message: issue.message,
+      severity: 'error' as const,
+      code: `delta-${issue.operation.toLowerCase()}`
+    })));
+
+    return issues;
+  }
+
+  private static checkRequirements(requirements: SpecRequirement[]): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const requirement of requirements) {
+      if (!requirement.name) {
+        issues.push({
+          line: requirement.headerLine,
+          message: 'Requirement heading has no name',
+          severity: 'error',
+          code: 'requirement-unnamed'
+        });
+      }
+
+      if (!NORMATIVE_KEYWORD.test(requirement.body)) {
+        issues.push({
+          line: requirement.headerLine,
+          message: `Requirement "${requirement.name}" must state its behavior with SHALL or MUST`,
+          severity: 'error',
+          code: 'requirement-missing-shall'
+        });
+      }
+
+      if (requirement.scenarios.length === 0) {
+        issues.push({
+          line: requirement.headerLine,
+          message: `Requirement "${requirement.name}" has no "#### Scenario:" block`,
+          severity: 'error',
+          code: 'requirement-missing-scenario'
+        });
+      }
+
+      for (const scenario of requirement.scenarios) {
+        const keywords = new Set(scenario.steps.map(step => step.keyword));
+        const missing = ['WHEN', 'THEN'].filter(keyword => !keywords.has(keyword as 'WHEN' | 'THEN'));
+        if (missing.length > 0) {
+          issues.push({
+            line: scenario.headerLine,
+            message: `Scenario "${scenario.name}" is missing ${missing.join(' and ')} step(s)`,
+            severity: 'warning',
+            code: 'scenario-missing-steps'
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private static checkDuplicates(requirements: SpecRequirement[], scope: string): ValidationIssue[] {
+    const seen = new Map<string, SpecRequirement>();
+    const issues: ValidationIssue[] = [];
+
+    for (const requirement of requirements) {
+      const key = SpecParser.normalizeRequirementName(requirement.name);
+      const first = seen.get(key);
+      if (first) {
+        issues.push({
+          line: requirement.headerLine,
+          message: `Duplicate requirement "${requirement.name}" in ${scope} (first defined on line ${first.headerLine + 1})`,
+          severity: 'error',
+          code: 'requirement-duplicate'
+        });
+      } else {
+        seen.set(key, requirement);
+      }
+    }
+
+    return issues;
+  }
+}
@@ -0,0 +1,103 @@
+import { ParsedTasks, TaskItem, TaskSection } from '../types';
+import { lastContentLine } from './markdownLines';
+
+// Same task line format the Ralph runner (`ralph_opencode.mjs`) understands.
+export const TASK_LINE = /^- \[([ x])\] ([0-9]+(?:\.[0-9]+)*)(?=\s|$)\s*(.*)$/;
+export const SECTION_HEADER = /^##\s+(.*?)\s*$/;
+export const NUMBERED_SECTION_TITLE = /^([0-9]+)\.\s+(.+)$/;
+
+/**
+ * Parses `tasks.md` into sections and `- [ ] 1.1 ...` task entries.
+ */
+export class TasksParser {
+  static parse(content: string): ParsedTasks {
+    const lines = content.split(/\r?\n/);
+    const sections: TaskSection[] = [];
+    const tasks: TaskItem[] = [];
+
+    let currentSection: TaskSection | undefined;
+    let currentTask: TaskItem | undefined;
+
+    const closeTask = (beforeLine: number) => {
+      if (currentTask) {
+        currentTask.range.endLine = lastContentLine(lines, currentTask.line, beforeLine - 1);
+        currentTask = undefined;
+      }
+    };
+
+    const closeSection = (beforeLine: number) => {
+      closeTask(beforeLine);
+      if (currentSection) {
+        currentSection.range.endLine = lastContentLine(lines, currentSection.headerLine, beforeLine - 1);
+        currentSection = undefined;
+      }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      const sectionMatch = line.match(SECTION_HEADER);
+      if (sectionMatch) {
+        closeSection(i);
+        const numbered = sectionMatch[1].match(NUMBERED_SECTION_TITLE);
+        currentSection = {
+          title: numbered ? numbered[2] : sectionMatch[1],
+          number: numbered ? Number(numbered[1]) : undefined,
+          headerLine: i,
+          range: { startLine: i, endLine: i },
+          tasks: []
+        };
+        sections.push(currentSection);
+        continue;
+      }
+
+      const taskMatch = line.match(TASK_LINE);
+      if (taskMatch) {
+        closeTask(i);
+        currentTask = {
+          id: taskMatch[2],
+          description: taskMatch[3].trim(),
+          checked: taskMatch[1] === 'x',
+          line: i,
+          range: { startLine: i, endLine: i },
+          sectionIndex: currentSection ? sections.length - 1 : -1
+        };
+        tasks.push(currentTask);
+        currentSection?.tasks.push(currentTask);
+        continue;
+      }
+
+      // Any other unindented, non-blank line ends the current task's detail block.
+      if (currentTask && line.trim() !== '' && !/^\s/.test(line)) {
+        closeTask(i);
+      }
+    }
+
+    closeSection(lines.length);
+    closeTask(lines.length);
+
+    const completedCount = tasks.filter(task => task.checked).length;
+    return { sections, tasks, completedCount, totalCount: tasks.length };
+  }
+
+  static findTask(tasks: ParsedTasks, id: string): TaskItem | undefined {
+    return tasks.tasks.find(task => task.id === id);
+  }
+
+  static nextUncheckedTask(tasks: ParsedTasks): TaskItem | undefined {
+    return tasks.tasks.find(task => !task.checked);
+  }
+
+  // Compares dotted numeric IDs (`1.2` < `1.10`).
+  static compareIds(a: string, b: string): number {
+    const left = a.split('.').map(Number);
+    const right = b.split('.').map(Number);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const diff = (left[i] ?? -1) - (right[i] ?? -1);
+      if (diff !== 0) {
+        return diff;
+      }
+    }
+    return 0;
+  }
+}
@@ -0,0 +1,234 @@
+import { ParsedTasks, TaskSection } from '../types';
+import { SECTION_HEADER, TASK_LINE, TasksParser } from './tasksParser';
+import { ValidationIssue } from './specValidator';
+
+export interface TaskLineEdit {
+  // Zero-based line replaced as a whole by `newText`.
+  line: number;
+  newText: string;
+}
+
+export interface TaskFix {
+  title: string;
+  edits: TaskLineEdit[];
+}
+
+export interface TasksIssue extends ValidationIssue {
+  fixes: TaskFix[];
+}
+
+const LOOSE_TASK = /^\s*[-*+]\s*\[([ xX])\]\s*(.*)$/;
+const LOOSE_TASK_ID = /^([0-9]+(?:\.[0-9]+)*)\.?(?=\s|$)\s*(.*)$/;
+const PLAIN_BULLET = /^[-*+]\s+(?!\[)(\S.*)$/;
+const ORDERED_ITEM = /^[0-9]+[.)]\s+(\S.*)$/;
+const OTHER_LEVEL_SECTION = /^(#{1,6})\s+([0-9]+)[.):]?\s+(.+?)\s*$/;
+const LOOSE_SECTION_NUMBER = /^(?:[0-9]+[.):]?\s+)?(.+)$/;
+const TASK_ID_PREFIX = /^(- \[[ x]\] )[0-9]+(?:\.[0-9]+)*/;
+
+/**
+ * Checks `tasks.md` against the format the Ralph runner expects and proposes deterministic fixes.
+ */
+export class TasksValidator {
+  static validate(content: string): TasksIssue[] {
+    const lines = content.split(/\r?\n/);
+    const parsed = TasksParser.parse(content);
+    const issues: TasksIssue[] = [];
+
+    let sectionIndex = -1;
+    let lastSectionNumber = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      const sectionMatch = line.match(SECTION_HEADER);
+      if (sectionMatch) {
+        sectionIndex++;
+        const section = parsed.sections[sectionIndex];
+        if (section.number !== undefined) {
+          lastSectionNumber = section.number;
+        } else if (section.tasks.length > 0 || this.looksLikeTaskSection(lines, section)) {
+          const title = (sectionMatch[1].match(LOOSE_SECTION_NUMBER)?.[1] ?? sectionMatch[1]).trim();
+          const nextNumber = lastSectionNumber + 1;
+          issues.push({
+            line: i,
+            message: `Section header should follow "## N. Title" (e.g. "## ${nextNumber}. ${title}")`,
+            severity: 'warning',
+            code: 'section-header-format',
+            fixes: [{ title: `Change to "## ${nextNumber}. ${title}"`, edits: [{ line: i, newText: `## ${nextNumber}. ${title}` }] }]
+          });
+        }
+        continue;
+      }
+
+      if (TASK_LINE.test(line)) {
+        continue;
+      }
+
+      const section = sectionIndex >= 0 ? parsed.sections[sectionIndex] : undefined;
+
+      const otherLevelMatch = line.match(OTHER_LEVEL_SECTION);
+      if (otherLevelMatch && otherLevelMatch[1] !== '##') {
+        issues.push({
+          line: i,
+          message: 'Task sections must use a level-2 header: "## N. Title"',
+          severity: 'warning',
+          code: 'section-header-format',
+          fixes: [{
+            title: `Change to "## ${otherLevelMatch[2]}. ${otherLevelMatch[3]}"`,
+            edits: [{ line: i, newText: `## ${otherLevelMatch[2]}. ${otherLevelMatch[3]}` }]
+          }]
+        });
+        continue;
+      }
+
+      const looseMatch = line.match(LOOSE_TASK);
+      if (looseMatch) {
+        const mark = looseMatch[1] === ' ' ? ' ' : 'x';
+        const idMatch = looseMatch[2].match(LOOSE_TASK_ID);
+        if (idMatch) {
+          const normalized = `- [${mark}] ${idMatch[1]}${idMatch[2] ? ` ${idMatch[2]}` : ''}`;
+          issues.push({
+            line: i,
+            message: 'Task line must use the exact format "- [ ] 1.1 Description"',
+            severity: 'error',
+            code: 'task-format',
+            fixes: [{ title: 'Normalize task line', edits: [{ line: i, newText: normalized }] }]
+          });
+        } else {
+          const nextId = section ? this.nextTaskId(parsed, section) : undefined;
+          issues.push({
+            line: i,
+            message: 'Task has no ID (expected "- [ ] N.M Description")',
+            severity: 'error',
+            code: 'task-missing-id',
+            fixes: nextId
+              ? [{ title: `Add task ID ${nextId}`, edits: [{ line: i, newText: `- [${mark}] ${nextId} ${looseMatch[2].trim()}` }] }]
+              : []
+          });
+        }
+        continue;
+      }
+
+      if (section?.number !== undefined) {
+        const bulletMatch = line.match(PLAIN_BULLET) ?? line.match(ORDERED_ITEM);
+        if (bulletMatch) {
+          const nextId = this.nextTaskId(parsed, section);
+          issues.push({
+            line: i,
+            message: 'List item in a task section is not a task (expected "- [ ] N.M Description")',
+            severity: 'warning',
+            code: 'task-not-checkbox',
+            fixes: nextId
+              ? [{ title: `Convert to task ${nextId}`, edits: [{ line: i, newText: `- [ ] ${nextId} ${bulletMatch[1].trim()}` }] }]
+              : []
+          });
+        }
+      }
+    }
+
+    issues.push(...this.checkTaskIds(lines, parsed));
+    return issues.sort((a, b) => a.line - b.line);
+  }
+
+  /**
+   * Rewrites task IDs in a numbered section to `N.1`, `N.2`, ... in document order.
+   * Deeper IDs (`N.M.K`) follow their preceding top-level task.
+   */
+  static renumberSection(lines: string[], section: TaskSection): TaskLineEdit[] {
+    if (section.number === undefined) {
+      return [];
+    }
+
+    const edits: TaskLineEdit[] = [];
+    let counter = 0;
+    let lastId = '';
+    for (const task of section.tasks) {
+      const segments = task.id.split('.');
+      let newId: string;
+      if (segments.length <= 2) {
+        counter++;
+        newId = `${section.number}.${counter}`;
+        lastId = newId;
+      } else {
+        newId = lastId ? `${lastId}.${segments.slice(2).join('.')}` : task.id;
+      }
+
+      if (newId !== task.id) {
+        edits.push({ line: task.line, newText: lines[task.line].replace(TASK_ID_PREFIX, `$1${newId}`) });
+      }
+    }
+    return edits;
+  }
+
+  private static checkTaskIds(lines: string[], parsed: ParsedTasks): TasksIssue[] {
+    const issues: TasksIssue[] = [];
+    const seen = new Map<string, number>();
+    const renumberFixes = parsed.sections.map((section): TaskFix[] => {
+      const edits = this.renumberSection(lines, section);
+      return edits.length > 0 ? [{ title: `Renumber tasks in section ${section.number}`, edits }] : [];
+    });
+
+    let previousId: string | undefined;
+    let previousSectionIndex = -1;
+    for (const task of parsed.tasks) {
+      const section = task.sectionIndex >= 0 ? parsed.sections[task.sectionIndex] : undefined;
+      const fixes = task.sectionIndex >= 0 ? renumberFixes[task.sectionIndex] : [];
+      if (task.sectionIndex !== previousSectionIndex) {
+        previousId = undefined;
+        previousSectionIndex = task.sectionIndex;
+      }
+
+      const firstLine = seen.get(task.id);
+      if (firstLine !== undefined) {
+        issues.push({
+          line: task.line,
+          message: `Duplicate task ID ${task.id} (first used on line ${firstLine + 1})`,
+          severity: 'error',
+          code: 'task-duplicate-id',
+          fixes
+        });
+      } else if (section?.number !== undefined && task.id.split('.')[0] !== String(section.number)) {
+        issues.push({
+          line: task.line,
+          message: `Task ID ${task.id} does not belong to section ${section.number}`,
+          severity: 'warning',
+          code: 'task-section-mismatch',
+          fixes
+        });
+      } else if (previousId !== undefined && TasksParser.compareIds(task.id, previousId) <= 0) {
+        issues.push({
+          line: task.line,
+          message: `Task ID ${task.id} is out of order (follows ${previousId})`,
+          severity: 'warning',
+          code: 'task-out-of-order',
+          fixes
+        });
+      }
+
+      if (firstLine === undefined) {
+        seen.set(task.id, task.line);
+      }
+      previousId = task.id;
+    }
+
+    return issues;
+  }
+
+  private static nextTaskId(parsed: ParsedTasks, section: TaskSection): string | undefined {
+    if (section.number === undefined) {
+      return undefined;
+    }
+    const prefix = `${section.number}.`;
+    const used = parsed.tasks
+      .filter(task => task.id.startsWith(prefix))
+      .map(task => Number(task.id.split('.')[1]))
+      .filter(n => Number.isFinite(n));
+    return `${section.number}.${used.length > 0 ? Math.max(...used) + 1 : 1}`;
+  }
+
+  private static looksLikeTaskSection(lines: string[], section: TaskSection): boolean {
+    return lines
+      .slice(section.headerLine + 1, section.range.endLine + 1)
+      .some(line => LOOSE_TASK.test(line));
+  }
+}
@@ -4,45 +4,186 @@ import * as fs from 'fs/promises';
 import * as net from 'net';
 import { CacheManager } from './cache';
 import { ErrorHandler } from './errorHandler';
-
+import { Settings } from './settings';
+import { SpecParser } from './specParser';
+import { TasksParser } from './tasksParser';
+import { DeltaSpecLocation, ParsedSpec, ParsedTasks } from '../types';
+
 export class WorkspaceUtils {
   private static cache = CacheManager.getInstance();
-
-  static async isOpenSpecInitialized(workspaceFolder: vscode.WorkspaceFolder): Promise<boolean> {
-    const cacheKey = `is-initialized-${workspaceFolder.uri.fsPath}`;
-    const cached = this.cache.get<boolean>(cacheKey);
-    if (cached !== null) {
-      return cached;
-    }
-
-    const openspecPath = path.join(workspaceFolder.uri.fsPath, 'openspec');
-    try {
-      const stats = await fs.stat(openspecPath);
-      const result = stats.isDirectory();
-      this.cache.set(cacheKey, result, 60 * 1000); // Cache for 1 minute
-      return result;
-    } catch (error) {
-      ErrorHandler.debug(`Failed to check OpenSpec initialization: ${error}`);
-      return false;
-    }
-  }
-
-  static getOpenSpecRoot(workspaceFolder: vscode.WorkspaceFolder): string {
-    return path.join(workspaceFolder.uri.fsPath, 'openspec');
-  }
-
-  static getChangesDir(workspaceFolder: vscode.WorkspaceFolder): string {
-    return path.join(this.getOpenSpecRoot(workspaceFolder), 'changes');
-  }
-
-  static getSpecsDir(workspaceFolder: vscode.WorkspaceFolder): string {
-    return path.join(this.getOpenSpecRoot(workspaceFolder), 'specs');
-  }
-
+
+  static async isOpenSpecInitialized(workspaceFolder: vscode.WorkspaceFolder): Promise<boolean> {
+    const openspecPath = this.getOpenSpecRoot(workspaceFolder);
+    const cacheKey = `is-initialized-${openspecPath}`;
+    const cached = this.cache.get<boolean>(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
+    try {
+      const stats = await fs.stat(openspecPath);
+      const result = stats.isDirectory();
+      this.cache.set(cacheKey, result, 60 * 1000); // Cache for 1 minute
+      return result;
+    } catch (error) {
+      ErrorHandler.debug(`Failed to check OpenSpec initialization: ${error}`);
+      return false;
+    }
+  }
+
+  // Workspace folders that contain an OpenSpec root, in workspace order.
+  static async getOpenSpecFolders(): Promise<vscode.WorkspaceFolder[]> {
+    const folders: vscode.WorkspaceFolder[] = [];
+    for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+      if (await this.isOpenSpecInitialized(workspaceFolder)) {
+        folders.push(workspaceFolder);
+      }
+    }
+    return folders;
+  }
+
+  /**
+   * Workspace folder a command acts on: the folder containing `fsPath` when given, otherwise the
+   * folder of the active editor, otherwise the first folder with an OpenSpec root.
+   */
+  static async resolveWorkspaceFolder(fsPath?: string): Promise<vscode.WorkspaceFolder | undefined> {
+    if (fsPath) {
+      return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+    }
+
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri?.scheme === 'file' ? vscode.workspace.getWorkspaceFolder(activeUri) : undefined;
+    if (activeFolder && await this.isOpenSpecInitialized(activeFolder)) {
+      return activeFolder;
+    }
+
+    return (await this.getOpenSpecFolders())[0];
+  }
+
+  // Asks which OpenSpec folder to use when there is more than one.
+  static async pickOpenSpecFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = await this.getOpenSpecFolders();
+    if (folders.length <= 1) {
+      return folders[0];
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      folders.map(folder => ({ label: folder.name, description: folder.uri.fsPath, folder })),
+      { placeHolder, ignoreFocusOut: true }
+    );
+    return picked?.folder;
+  }
+
+  // `openspec.root` of the folder, `<folder>/openspec` unless configured otherwise.
+  static getOpenSpecRoot(workspaceFolder: vscode.WorkspaceFolder): string {
+    return path.resolve(workspaceFolder.uri.fsPath, Settings.openspecRoot(workspaceFolder));
+  }
+
+  // Path under a folder's OpenSpec root relative to the folder, with `/` separators, for labels.
+  static describeOpenSpecPath(workspaceFolder: vscode.WorkspaceFolder, ...segments: string[]): string {
+    const target = path.join(this.getOpenSpecRoot(workspaceFolder), ...segments);
+    return path.relative(workspaceFolder.uri.fsPath, target).split(path.sep).join('/') || '.';
+  }
+
+  // Glob under a folder's OpenSpec root, for watchers and `findFiles`.
+  static getOpenSpecPattern(workspaceFolder: vscode.WorkspaceFolder, glob: string): vscode.RelativePattern {
+    return new vscode.RelativePattern(vscode.Uri.file(this.getOpenSpecRoot(workspaceFolder)), glob);
+  }
+
+  // Files matching `glob` under the OpenSpec root of every OpenSpec folder.
+  static async findOpenSpecFiles(glob: string): Promise<vscode.Uri[]> {
+    const files: vscode.Uri[] = [];
+    for (const workspaceFolder of await this.getOpenSpecFolders()) {
+      files.push(...await vscode.workspace.findFiles(this.getOpenSpecPattern(workspaceFolder, glob), '**/node_modules/**'));
+    }
+    return files;
+  }
+
+  // True for a directory named `openspec` or the configured root of any workspace folder.
+  static isOpenSpecRootDir(dir: string): boolean {
+    return path.basename(dir) === 'openspec'
+      || (vscode.workspace.workspaceFolders ?? []).some(workspaceFolder => this.getOpenSpecRoot(workspaceFolder) === dir);
+  }
+
+  /**
+   * Finds `openspec/config.yaml` files anywhere in the workspace and returns their roots,
+   * for choosing `openspec.root` when the project does not keep specs at the folder root.
+   */
+  static async discoverOpenSpecRoots(): Promise<Array<{ workspaceFolder: vscode.WorkspaceFolder; root: string }>> {
+    const files = await vscode.workspace.findFiles('**/openspec/config.yaml', '**/node_modules/**');
+    const roots: Array<{ workspaceFolder: vscode.WorkspaceFolder; root: string }> = [];
+    for (const file of files) {
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(file);
+      if (workspaceFolder) {
+        roots.push({ workspaceFolder, root: path.dirname(file.fsPath) });
+      }
+    }
+    return roots.sort((a, b) => a.root.localeCompare(b.root));
+  }
+
+  static getChangesDir(workspaceFolder: vscode.WorkspaceFolder): string {
+    return path.join(this.getOpenSpecRoot(workspaceFolder), 'changes');
+  }
+
+  static getSpecsDir(workspaceFolder: vscode.WorkspaceFolder): string {
+    return path.join(this.getOpenSpecRoot(workspaceFolder), 'specs');
+  }
+
+  static getConfigPath(workspaceFolder: vscode.WorkspaceFolder): string {
+    return path.join(this.getOpenSpecRoot(workspaceFolder), 'config.yaml');
+  }
+
   static getArchiveDir(workspaceFolder: vscode.WorkspaceFolder): string {
     return path.join(this.getChangesDir(workspaceFolder), 'archive');
   }
 
+  /**
+   * Resolves a change delta spec path (`<root>/changes/[archive/]<id>/specs/<capability>/spec.md`)
+   * to its capability, change and the baseline spec it applies to.
+   */
+  static resolveDeltaSpec(deltaSpecPath: string): DeltaSpecLocation | undefined {
+    const capabilityDir = path.dirname(deltaSpecPath);
+    const specsDir = path.dirname(capabilityDir);
+    const changeDir = path.dirname(specsDir);
+    let changesDir = path.dirname(changeDir);
+
+    if (path.basename(deltaSpecPath) !== 'spec.md' || path.basename(specsDir) !== 'specs') {
+      return undefined;
+    }
+    const isArchived = path.basename(changesDir) === 'archive';
+    if (isArchived) {
+      changesDir = path.dirname(changesDir);
+    }
+    if (path.basename(changesDir) !== 'changes') {
+      return undefined;
+    }
+
+    const openspecRoot = path.dirname(changesDir);
+    const capability = path.basename(capabilityDir);
+    return {
+      capability,
+      changeId: path.basename(changeDir),
+      changeDir,
+      openspecRoot,
+      isArchived,
+      baselinePath: path.join(openspecRoot, 'specs', capability, 'spec.md')
+    };
+  }
+
+  // True for `openspec/changes/<id>/tasks.md`; archived changes are not validated.
+  static isActiveTasksPath(filePath: string): boolean {
+    return path.basename(filePath) === 'tasks.md'
+      && path.basename(path.dirname(path.dirname(filePath))) === 'changes';
+  }
+
+  // Baseline capability specs live at `<root>/specs/<capability>/spec.md`.
+  static isBaselineSpecPath(filePath: string): boolean {
+    const specsDir = path.dirname(path.dirname(filePath));
+    return path.basename(filePath) === 'spec.md'
+      && path.basename(specsDir) === 'specs'
+      && this.isOpenSpecRootDir(path.dirname(specsDir));
+  }
+
   static async hasAnyChangeArtifacts(changeDir: string): Promise<boolean> {
     try {
       const proposalPath = path.join(changeDir, 'proposal.md');
@@ -145,11 +286,8 @@ export class WorkspaceUtils {
 
       const content = await this.readFile(tasksPath);
 
-      // Check for valid task lines: - [ ] 1.1 Task or - [x] 1.1 Task
-      // Pattern: checkbox marker, space, numeric ID (e.g., 1.1, 1.2.1), space, content
-      const taskPattern = /^- \[[ x]\] [0-9]+(\.[0-9]+)*\s/gm;
-      const matches = content.match(taskPattern);
-      const taskCount = matches ? matches.length : 0;
+      // Valid task lines look like: - [ ] 1.1 Task or - [x] 1.1 Task
+      const taskCount = TasksParser.parse(content).totalCount;
 
       if (taskCount === 0) {
         return {
@@ -201,8 +339,9 @@ export class WorkspaceUtils {
   }
 
   static async isOpenCodeServerListening(timeoutMs: number = 350): Promise<boolean> {
-    const port = 4099;
-    const hosts = ['127.0.0.1', '::1', 'localhost'];
+    const port = Settings.opencodePort;
+    const host = Settings.opencodeHost;
+    const hosts = host === 'localhost' ? ['127.0.0.1', '::1', 'localhost'] : [host];
 
     for (const host of hosts) {
       if (await this.isPortOpen(host, port, timeoutMs)) {
@@ -212,7 +351,7 @@ export class WorkspaceUtils {
 
     return false;
   }
-
+
   static async fileExists(filePath: string): Promise<boolean> {
     try {
       await fs.access(filePath);
@@ -221,138 +360,172 @@ export class WorkspaceUtils {
       return false;
     }
   }
-
-  static async readFile(filePath: string): Promise<string> {
-    const cacheKey = `file-${filePath}`;
-    const cached = this.cache.get<string>(cacheKey);
-    if (cached !== null) {
-      return cached;
-    }
-
-    try {
-      const content = await fs.readFile(filePath, 'utf8');
-      this.cache.set(cacheKey, content, 30 * 1000); // Cache for 30 seconds
-      return content;
-    } catch (error) {
-      ErrorHandler.handle(error as Error, `Failed to read file: ${filePath}`, true);
-      throw error;
-    }
-  }
-
-  static async listDirectories(dirPath: string): Promise<string[]> {
-    const cacheKey = `dirs-${dirPath}`;
-    const cached = this.cache.get<string[]>(cacheKey);
-    if (cached !== null) {
-      return cached;
-    }
-
-    try {
-      const items = await fs.readdir(dirPath, { withFileTypes: true });
-      const directories = items
-        .filter(item => item.isDirectory())
-        .map(item => item.name);
-      
-      this.cache.set(cacheKey, directories, 10 * 1000); // Cache for 10 seconds
-      return directories;
-    } catch (error) {
-      ErrorHandler.debug(`Failed to list directories in ${dirPath}: ${error}`);
-      return [];
-    }
-  }
-
-  static async listFiles(dirPath: string, extension: string = '.md'): Promise<string[]> {
-    const cacheKey = `files-${dirPath}-${extension}`;
-    const cached = this.cache.get<string[]>(cacheKey);
-    if (cached !== null) {
-      return cached;
-    }
-
-    try {
-      const items = await fs.readdir(dirPath, { withFileTypes: true });
-      const files = items
-        .filter(item => item.isFile() && item.name.endsWith(extension))
-        .map(item => item.name);
-      
-      this.cache.set(cacheKey, files, 10 * 1000); // Cache for 10 seconds
-      return files;
-    } catch (error) {
-      ErrorHandler.debug(`Failed to list files in ${dirPath}: ${error}`);
-      return [];
-    }
-  }
-
-  static async countRequirementsInSpec(specPath: string): Promise<number> {
-    const cacheKey = `requirements-${specPath}`;
-    const cached = this.cache.get<number>(cacheKey);
-    if (cached !== null) {
-      return cached;
-    }
-
-    try {
-      const content = await this.readFile(specPath);
-      const requirementMatches = content.match(/^### Requirement:/gm);
-      const count = requirementMatches ? requirementMatches.length : 0;
-      
-      this.cache.set(cacheKey, count, 60 * 1000); // Cache for 1 minute
-      return count;
-    } catch (error) {
-      ErrorHandler.debug(`Failed to count requirements in ${specPath}: ${error}`);
-      return 0;
-    }
-  }
-
-  // Method to clear cache for a specific path
-  static invalidateCache(filePath?: string): void {
-    if (filePath) {
-      // Invalidate all cache entries related to this path
-      this.cache.clear(); // For simplicity, clear all cache
-    } else {
-      this.cache.clear(); // Clear all cache
-    }
-  }
-
-  static async hasFile(dirPath: string, fileName: string): Promise<boolean> {
-    const filePath = path.join(dirPath, fileName);
-    return await this.fileExists(filePath);
-  }
-
-  static async getFileSize(filePath: string): Promise<number> {
-    try {
-      const stats = await fs.stat(filePath);
-      return stats.size;
-    } catch (error) {
-      ErrorHandler.debug(`Error getting file size for ${filePath}: ${error}`);
-      return 0;
-    }
-  }
-
-  static async readFileWithSizeCheck(
-    filePath: string, 
-    maxSize: number = 500_000
-  ): Promise<{ content: string; isTooLarge: boolean; error?: string }> {
-    try {
-      const fileSize = await this.getFileSize(filePath);
-      
-      if (fileSize > maxSize) {
-        return {
-          content: '',
-          isTooLarge: true,
-          error: `File too large (${(fileSize / 1024).toFixed(1)}KB). Maximum size for preview is ${(maxSize / 1024).toFixed(0)}KB.`
-        };
-      }
-      
-      const content = await this.readFile(filePath);
-      return {
-        content,
-        isTooLarge: false
-      };
-      
-    } catch (error) {
-      return {
-        content: '',
-        isTooLarge: false,
-        error: `Failed to read file: ${error instanceof Error ? error.message : 'Unknown error'}`
-      };
-    }
-  }
+
+  static async readFile(filePath: string): Promise<string> {
+    const cacheKey = `file-${filePath}`;
+    const cached = this.cache.get<string>(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
+    try {
+      const content = await fs.readFile(filePath, 'utf8');
+      this.cache.set(cacheKey, content, 30 * 1000); // Cache for 30 seconds
+      return content;
+    } catch (error) {
+      ErrorHandler.handle(error as Error, `Failed to read file: ${filePath}`, true);
+      throw error;
+    }
+  }
+
+  // Reads the editor buffer when the file is open (unsaved edits included), otherwise the file on disk.
+  static async readLiveText(filePath: string): Promise<string | undefined> {
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.scheme === 'file' && doc.uri.fsPath === filePath);
+    if (document) {
+      return document.getText();
+    }
+
+    try {
+      return await fs.readFile(filePath, 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  static async listDirectories(dirPath: string): Promise<string[]> {
+    const cacheKey = `dirs-${dirPath}`;
+    const cached = this.cache.get<string[]>(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
+    try {
+      const items = await fs.readdir(dirPath, { withFileTypes: true });
+      const directories = items
+        .filter(item => item.isDirectory())
+        .map(item => item.name);
+      
+      this.cache.set(cacheKey, directories, 10 * 1000); // Cache for 10 seconds
+      return directories;
+    } catch (error) {
+      ErrorHandler.debug(`Failed to list directories in ${dirPath}: ${error}`);
+      return [];
+    }
+  }
+
+  static async listFiles(dirPath: string, extension: string = '.md'): Promise<string[]> {
+    const cacheKey = `files-${dirPath}-${extension}`;
+    const cached = this.cache.get<string[]>(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
+    try {
+      const items = await fs.readdir(dirPath, { withFileTypes: true });
+      const files = items
+        .filter(item => item.isFile() && item.name.endsWith(extension))
+        .map(item => item.name);
+      
+      this.cache.set(cacheKey, files, 10 * 1000); // Cache for 10 seconds
+      return files;
+    } catch (error) {
+      ErrorHandler.debug(`Failed to list files in ${dirPath}: ${error}`);
+      return [];
+    }
+  }
+
+  static async readSpec(specPath: string): Promise<ParsedSpec> {
+    const cacheKey = `spec-${specPath}`;
+    const cached = this.cache.get<ParsedSpec>(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
+    const content = await this.readFile(specPath);
+    const spec = SpecParser.parse(content);
+    this.cache.set(cacheKey, spec, 60 * 1000); // Cache for 1 minute
+    return spec;
+  }
+
+  // Parsed `tasks.md`, or undefined when the file does not exist.
+  static async readTasks(tasksPath: string): Promise<ParsedTasks | undefined> {
+    const cacheKey = `tasks-${tasksPath}`;
+    const cached = this.cache.get<ParsedTasks>(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
+    if (!(await this.fileExists(tasksPath))) {
+      return undefined;
+    }
+
+    const tasks = TasksParser.parse(await this.readFile(tasksPath));
+    this.cache.set(cacheKey, tasks, 60 * 1000); // Cache for 1 minute
+    return tasks;
+  }
+
+  static async countRequirementsInSpec(specPath: string): Promise<number> {
+    try {
+      const spec = await this.readSpec(specPath);
+      return SpecParser.countRequirements(spec);
+    } catch (error) {
+      ErrorHandler.debug(`Failed to count requirements in ${specPath}: ${error}`);
+      return 0;
+    }
+  }
+
+  // Method to clear cache for a specific path
+  static invalidateCache(filePath?: string): void {
+    if (filePath) {
+      // Invalidate all cache entries related to this path
+      this.cache.clear(); // For simplicity, clear all cache
+    } else {
+      this.cache.clear(); // Clear all cache
+    }
+  }
+
+  static async hasFile(dirPath: string, fileName: string): Promise<boolean> {
+    const filePath = path.join(dirPath, fileName);
+    return await this.fileExists(filePath);
+  }
+
+  static async getFileSize(filePath: string): Promise<number> {
+    try {
+      const stats = await fs.stat(filePath);
+      return stats.size;
+    } catch (error) {
+      ErrorHandler.debug(`Error getting file size for ${filePath}: ${error}`);
+      return 0;
+    }
+  }
+
+  static async readFileWithSizeCheck(
+    filePath: string, 
+    maxSize: number = 500_000
+  ): Promise<{ content: string; isTooLarge: boolean; error?: string }> {
+    try {
+      const fileSize = await this.getFileSize(filePath);
+      
+      if (fileSize > maxSize) {
+        return {
+          content: '',
+          isTooLarge: true,
+          error: `File too large (${(fileSize / 1024).toFixed(1)}KB). Maximum size for preview is ${(maxSize / 1024).toFixed(0)}KB.`
+        };
+      }
+      
+      const content = await this.readFile(filePath);
+      return {
+        content,
+        isTooLarge: false
+      };
+      
+    } catch (error) {
+      return {
+        content: '',
+        isTooLarge: false,
+        error: `Failed to read file: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
 }
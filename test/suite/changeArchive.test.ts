@@ -0,0 +1,219 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ChangeArchiver } from '../../src/utils/changeArchive';
+
+async function readText(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeText(filePath: string, lines: string[]): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, lines.join('\n'), 'utf8');
+}
+
+suite('Change Archive Test Suite', () => {
+  const archiveDate = new Date(2026, 1, 3);
+
+  test('Names the archive folder after the local date', () => {
+    assert.strictEqual(ChangeArchiver.archiveFolderName('add-scope', archiveDate), '2026-02-03-add-scope');
+  });
+
+  test('Merges delta specs into the baseline and moves the change to the archive', async () => {
+    const tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'openspec-vscode-archive-'));
+
+    try {
+      const openspecRoot = path.join(tmpRoot, 'openspec');
+      const changeDir = path.join(openspecRoot, 'changes', 'add-scope');
+      await writeText(path.join(openspecRoot, 'specs', 'ralph-runner', 'spec.md'), [
+        '## Purpose',
+        'Runner behavior.',
+        '',
+        '## Requirements',
+        '',
+        '### Requirement: Attach support',
+        'The runner SHALL accept `--attach`.',
+        ''
+      ]);
+      await writeText(path.join(changeDir, 'specs', 'ralph-runner', 'spec.md'), [
+        '## ADDED Requirements',
+        '',
+        '### Requirement: Task scope',
+        'The runner SHALL accept `--task`.',
+        ''
+      ]);
+      await writeText(path.join(changeDir, 'specs', 'explorer', 'spec.md'), [
+        '## ADDED Requirements',
+        '',
+        '### Requirement: Task progress',
+        'The explorer SHALL show task counts.',
+        ''
+      ]);
+
+      const plan = await ChangeArchiver.plan(changeDir, readText, archiveDate);
+      assert.deepStrictEqual(plan.issues, []);
+      assert.deepStrictEqual(plan.specUpdates.map(update => [update.capability, update.baselineExists]), [
+        ['explorer', false],
+        ['ralph-runner', true]
+      ]);
+
+      await ChangeArchiver.execute(plan);
+
+      const runnerSpec = await readText(path.join(openspecRoot, 'specs', 'ralph-runner', 'spec.md'));
+      assert.ok(runnerSpec?.includes('### Requirement: Attach support'));
+      assert.ok(runnerSpec?.includes('### Requirement: Task scope'));
+      const explorerSpec = await readText(path.join(openspecRoot, 'specs', 'explorer', 'spec.md'));
+      assert.ok(explorerSpec?.startsWith('# explorer Specification'));
+
+      assert.strictEqual(await readText(path.join(changeDir, 'specs', 'explorer', 'spec.md')), undefined);
+      const archived = path.join(openspecRoot, 'changes', 'archive', '2026-02-03-add-scope', 'specs', 'explorer', 'spec.md');
+      assert.ok(await readText(archived));
+    } finally {
+      await fs.rm(tmpRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('Blocks the archive when a MODIFIED requirement is missing from the baseline', async () => {
+    const tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'openspec-vscode-archive-'));
+
+    try {
+      const changeDir = path.join(tmpRoot, 'openspec', 'changes', 'tighten-attach');
+      const deltaPath = path.join(changeDir, 'specs', 'ralph-runner', 'spec.md');
+      await writeText(deltaPath, [
+        '## MODIFIED Requirements',
+        '',
+        '### Requirement: Attach support',
+        'The runner SHALL accept `--attach <url>`.',
+        ''
+      ]);
+
+      const plan = await ChangeArchiver.plan(changeDir, readText, archiveDate);
+      assert.strictEqual(plan.issues.length, 1);
+      assert.strictEqual(plan.issues[0].filePath, deltaPath);
+      assert.strictEqual(plan.issues[0].line, 2);
+      assert.match(plan.issues[0].message, /Cannot modify "Attach support"/);
+
+      await assert.rejects(ChangeArchiver.execute(plan), /Cannot archive tighten-attach/);
+      assert.ok(await readText(deltaPath));
+    } finally {
+      await fs.rm(tmpRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('Rolls back merged specs and the folder move when a spec cannot be written', async () => {
+    const tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'openspec-vscode-archive-'));
+
+    try {
+      const openspecRoot = path.join(tmpRoot, 'openspec');
+      const changeDir = path.join(openspecRoot, 'changes', 'add-scope');
+      await writeText(path.join(changeDir, 'specs', 'explorer', 'spec.md'), [
+        '## ADDED Requirements',
+        '',
+        '### Requirement: Task progress',
+        'The explorer SHALL show task counts.',
+        ''
+      ]);
+      await writeText(path.join(changeDir, 'specs', 'ralph-runner', 'spec.md'), [
+        '## ADDED Requirements',
+        '',
+        '### Requirement: Task scope',
+        'The runner SHALL accept `--task`.',
+        ''
+      ]);
+      // A folder where the runner baseline should be written makes the second write fail.
+      await fs.mkdir(path.join(openspecRoot, 'specs', 'ralph-runner', 'spec.md'), { recursive: true });
+
+      const plan = await ChangeArchiver.plan(changeDir, readText, archiveDate);
+      await assert.rejects(ChangeArchiver.execute(plan));
+
+      assert.strictEqual(await readText(path.join(openspecRoot, 'specs', 'explorer', 'spec.md')), undefined);
+      assert.ok(await readText(path.join(changeDir, 'specs', 'explorer', 'spec.md')), 'the change stays active');
+      assert.strictEqual(await readText(path.join(plan.archiveDir, 'specs', 'explorer', 'spec.md')), undefined);
+    } finally {
+      await fs.rm(tmpRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('Unarchive moves the change back and reverts specs that were not edited since', async () => {
+    const tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'openspec-vscode-archive-'));
+
+    try {
+      const openspecRoot = path.join(tmpRoot, 'openspec');
+      const changeDir = path.join(openspecRoot, 'changes', 'add-scope');
+      const runnerSpecPath = path.join(openspecRoot, 'specs', 'ralph-runner', 'spec.md');
+      const explorerSpecPath = path.join(openspecRoot, 'specs', 'explorer', 'spec.md');
+      const originalRunnerSpec = ['## Requirements', '', '### Requirement: Attach support', 'The runner SHALL accept `--attach`.', ''];
+      await writeText(runnerSpecPath, originalRunnerSpec);
+      await writeText(path.join(changeDir, 'specs', 'ralph-runner', 'spec.md'), [
+        '## REMOVED Requirements',
+        '',
+        '### Requirement: Attach support'
+      ]);
+      await writeText(path.join(changeDir, 'specs', 'explorer', 'spec.md'), [
+        '## ADDED Requirements',
+        '',
+        '### Requirement: Task progress',
+        'The explorer SHALL show task counts.'
+      ]);
+
+      const plan = await ChangeArchiver.plan(changeDir, readText, archiveDate);
+      await ChangeArchiver.execute(plan);
+      assert.strictEqual(ChangeArchiver.activeChangeId(path.basename(plan.archiveDir)), 'add-scope');
+      const snapshot = await ChangeArchiver.readSnapshot(plan.archiveDir);
+      assert.deepStrictEqual(snapshot?.specs.map(spec => [spec.baselinePath, spec.previousContent === null]), [
+        ['specs/explorer/spec.md', true],
+        ['specs/ralph-runner/spec.md', false]
+      ]);
+
+      // Edited after the archive, so it must be left alone.
+      await fs.appendFile(runnerSpecPath, '\n<!-- reviewed -->\n', 'utf8');
+
+      const result = await ChangeArchiver.unarchive(plan.archiveDir, 'add-scope-again', true);
+      assert.deepStrictEqual(result.revertedSpecs, ['explorer']);
+      assert.deepStrictEqual(result.skippedSpecs, ['ralph-runner']);
+      assert.strictEqual(await readText(explorerSpecPath), undefined);
+      assert.ok((await readText(runnerSpecPath))?.includes('<!-- reviewed -->'));
+
+      const restoredDir = path.join(openspecRoot, 'changes', 'add-scope-again');
+      assert.strictEqual(result.changeDir, restoredDir);
+      assert.ok(await readText(path.join(restoredDir, 'specs', 'explorer', 'spec.md')));
+      assert.strictEqual(await readText(path.join(restoredDir, ChangeArchiver.SNAPSHOT_FILE)), undefined);
+    } finally {
+      await fs.rm(tmpRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('Unarchive restores the previous baseline content and refuses taken IDs', async () => {
+    const tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'openspec-vscode-archive-'));
+
+    try {
+      const openspecRoot = path.join(tmpRoot, 'openspec');
+      const changeDir = path.join(openspecRoot, 'changes', 'drop-attach');
+      const runnerSpecPath = path.join(openspecRoot, 'specs', 'ralph-runner', 'spec.md');
+      await writeText(runnerSpecPath, ['## Requirements', '', '### Requirement: Attach support', 'The runner SHALL accept `--attach`.', '']);
+      const original = await readText(runnerSpecPath);
+      await writeText(path.join(changeDir, 'specs', 'ralph-runner', 'spec.md'), [
+        '## REMOVED Requirements',
+        '',
+        '### Requirement: Attach support'
+      ]);
+
+      const plan = await ChangeArchiver.plan(changeDir, readText, archiveDate);
+      await ChangeArchiver.execute(plan);
+      assert.notStrictEqual(await readText(runnerSpecPath), original);
+
+      await fs.mkdir(path.join(openspecRoot, 'changes', 'taken'));
+      await assert.rejects(ChangeArchiver.unarchive(plan.archiveDir, 'taken', true), /already exists/);
+
+      await ChangeArchiver.unarchive(plan.archiveDir, 'drop-attach', true);
+      assert.strictEqual(await readText(runnerSpecPath), original);
+    } finally {
+      await fs.rm(tmpRoot, { recursive: true, force: true });
+    }
+  });
+});
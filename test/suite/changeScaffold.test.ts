@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ChangeScaffolder } from '../../src/utils/changeScaffold';
+import { SpecParser } from '../../src/utils/specParser';
+
+suite('Change Scaffold Test Suite', () => {
+  test('Validates change IDs against active and archived changes', () => {
+    const active = ['add-task-scope'];
+    const archived = ['2026-01-30-ralph-count-same-parent'];
+
+    assert.strictEqual(ChangeScaffolder.validateChangeId('add-conflict-view', active, archived), undefined);
+    assert.match(ChangeScaffolder.validateChangeId('', active, archived) ?? '', /required/);
+    assert.match(ChangeScaffolder.validateChangeId('Add_Thing', active, archived) ?? '', /kebab-case/);
+    assert.match(ChangeScaffolder.validateChangeId('add--thing', active, archived) ?? '', /kebab-case/);
+    assert.match(ChangeScaffolder.validateChangeId('add-task-scope', active, archived) ?? '', /already exists/);
+    assert.match(
+      ChangeScaffolder.validateChangeId('ralph-count-same-parent', active, archived) ?? '',
+      /2026-01-30-ralph-count-same-parent/
+    );
+  });
+
+  test('Writes metadata, proposal and one delta stub per capability', async () => {
+    const tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'openspec-vscode-scaffold-'));
+
+    try {
+      const changesDir = path.join(tmpRoot, 'openspec', 'changes');
+      const options = { changeId: 'add-task-scope', modifiedCapabilities: ['ralph-runner'], newCapabilities: ['task-scope'] };
+      const changeDir = await ChangeScaffolder.create(changesDir, options, new Date(2026, 1, 3));
+
+      assert.strictEqual(changeDir, path.join(changesDir, 'add-task-scope'));
+      assert.strictEqual(
+        await fs.readFile(path.join(changeDir, '.openspec.yaml'), 'utf8'),
+        'schema: spec-driven\ncreated: 2026-02-03\n'
+      );
+
+      const proposal = await fs.readFile(path.join(changeDir, 'proposal.md'), 'utf8');
+      assert.ok(proposal.includes('## Why'));
+      assert.ok(proposal.includes('- `task-scope`: TODO'));
+      assert.ok(proposal.includes('- `ralph-runner`: TODO'));
+
+      const modified = SpecParser.parse(await fs.readFile(path.join(changeDir, 'specs', 'ralph-runner', 'spec.md'), 'utf8'));
+      assert.deepStrictEqual(modified.deltas.map(delta => delta.operation), ['MODIFIED']);
+      const added = SpecParser.parse(await fs.readFile(path.join(changeDir, 'specs', 'task-scope', 'spec.md'), 'utf8'));
+      assert.deepStrictEqual(added.deltas.map(delta => delta.operation), ['ADDED']);
+
+      await assert.rejects(ChangeScaffolder.create(changesDir, options), /EEXIST/);
+    } finally {
+      await fs.rm(tmpRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { ConflictAnalyzer } from '../../src/utils/conflictAnalyzer';
+import { SpecParser } from '../../src/utils/specParser';
+
+function delta(changeId: string, capability: string, lines: string[]) {
+  return {
+    changeId,
+    capability,
+    filePath: `/ws/openspec/changes/${changeId}/specs/${capability}/spec.md`,
+    spec: SpecParser.parse(lines.join('\n'))
+  };
+}
+
+suite('Conflict Analyzer Test Suite', () => {
+  test('reports a requirement modified by one change and removed by another', () => {
+    const conflicts = ConflictAnalyzer.findConflicts([
+      delta('tighten-attach', 'ralph-runner', [
+        '## MODIFIED Requirements',
+        '',
+        '### Requirement: Attach support',
+        'The runner SHALL accept `--attach <url>`.'
+      ]),
+      delta('drop-attach', 'ralph-runner', [
+        '## REMOVED Requirements',
+        '',
+        '### Requirement: Attach  support'
+      ])
+    ]);
+
+    assert.strictEqual(conflicts.length, 1);
+    assert.strictEqual(conflicts[0].capability, 'ralph-runner');
+    assert.deepStrictEqual(
+      [conflicts[0].first.changeId, conflicts[0].first.operation, conflicts[0].first.line],
+      ['drop-attach', 'REMOVED', 2]
+    );
+    assert.deepStrictEqual(
+      [conflicts[0].second.changeId, conflicts[0].second.operation, conflicts[0].second.line],
+      ['tighten-attach', 'MODIFIED', 2]
+    );
+  });
+
+  test('treats a RENAMED FROM entry as touching the original requirement', () => {
+    const conflicts = ConflictAnalyzer.findConflicts([
+      delta('rename-script', 'ralph-runner', [
+        '## RENAMED Requirements',
+        '',
+        '- FROM: `### Requirement: Legacy shell script`',
+        '- TO: `### Requirement: Shell script`'
+      ]),
+      delta('update-script', 'ralph-runner', [
+        '## MODIFIED Requirements',
+        '',
+        '### Requirement: Legacy shell script',
+        'The runner SHALL ship a POSIX shell script.'
+      ])
+    ]);
+
+    assert.strictEqual(conflicts.length, 1);
+    assert.strictEqual(conflicts[0].first.operation, 'RENAMED');
+    assert.strictEqual(conflicts[0].second.operation, 'MODIFIED');
+  });
+
+  test('ignores ADDED requirements, other capabilities and a single change', () => {
+    const conflicts = ConflictAnalyzer.findConflicts([
+      delta('add-scope', 'ralph-runner', [
+        '## ADDED Requirements',
+        '',
+        '### Requirement: Task scope',
+        'The runner SHALL accept `--task`.'
+      ]),
+      delta('other-scope', 'ralph-runner', [
+        '## ADDED Requirements',
+        '',
+        '### Requirement: Task scope',
+        'The runner SHALL accept `--section`.'
+      ]),
+      delta('tighten-attach', 'explorer', [
+        '## MODIFIED Requirements',
+        '',
+        '### Requirement: Attach support',
+        'Updated.'
+      ]),
+      delta('tighten-attach', 'ralph-runner', [
+        '## MODIFIED Requirements',
+        '',
+        '### Requirement: Attach support',
+        'Updated.'
+      ])
+    ]);
+
+    assert.deepStrictEqual(conflicts, []);
+  });
+});
@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import { OutlineNode } from '../../src/types';
+import { MarkdownOutline } from '../../src/utils/markdownOutline';
+
+const baselineSpec = [
+  '## Purpose',
+  'Define requirements for the runner.',
+  '',
+  '## Requirements',
+  '',
+  '### Requirement: Attach support',
+  'The runner SHALL accept `--attach <url>`.',
+  '',
+  '#### Scenario: Attach flag used',
+  '- **WHEN** the runner is invoked with `--attach`',
+  '- **THEN** it passes `--attach` to `opencode run`',
+  '',
+  '### Requirement: Task loop parity',
+  'The runner SHALL process tasks in order.',
+  ''
+].join('\n');
+
+const deltaSpec = [
+  '## ADDED Requirements',
+  '',
+  '### Requirement: Event stream',
+  'The runner SHALL emit JSON events.',
+  '',
+  '#### Scenario: Events enabled',
+  '- **WHEN** `--events` is passed',
+  '- **THEN** each line is a JSON object',
+  '',
+  '#### Scenario: Events disabled',
+  '- **WHEN** `--events` is not passed',
+  '- **THEN** stdout is human-readable',
+  '',
+  '## RENAMED Requirements',
+  '',
+  '- FROM: `### Requirement: Task loop parity`',
+  '- TO: `### Requirement: Task loop`',
+  ''
+].join('\n');
+
+const tasks = [
+  '- [ ] 0.1 Loose task',
+  '',
+  '## 1. Runner',
+  '',
+  '- [x] 1.1 Parse flags',
+  '  - details',
+  '- [ ] 1.2 Print help',
+  ''
+].join('\n');
+
+// name (detail) per node, children nested.
+function shape(nodes: OutlineNode[]): unknown[] {
+  return nodes.map(node => (node.children.length > 0
+    ? [`${node.kind}: ${node.name} (${node.detail})`, shape(node.children)]
+    : `${node.kind}: ${node.name} (${node.detail})`));
+}
+
+suite('Markdown Outline Test Suite', () => {
+  test('Nests scenarios under requirements under the Requirements section', () => {
+    assert.deepStrictEqual(shape(MarkdownOutline.specOutline(baselineSpec)), [
+      'purpose: Purpose ()',
+      ['section: Requirements (2)', [
+        ['requirement: Attach support (1 scenario)', ['scenario: Attach flag used (scenario)']],
+        'requirement: Task loop parity (0 scenarios)'
+      ]]
+    ]);
+  });
+
+  test('Groups delta requirements and renames under their operation', () => {
+    const outline = MarkdownOutline.specOutline(deltaSpec);
+    assert.deepStrictEqual(shape(outline), [
+      ['section: ADDED Requirements (1)', [
+        ['requirement: Event stream (2 scenarios)', [
+          'scenario: Events enabled (scenario)',
+          'scenario: Events disabled (scenario)'
+        ]]
+      ]],
+      ['section: RENAMED Requirements (1)', ['rename: Task loop parity → Task loop (renamed)']]
+    ]);
+    assert.deepStrictEqual(outline[0].children[0].range, { startLine: 2, endLine: 11 });
+  });
+
+  test('Lists tasks under their section and keeps tasks before the first header', () => {
+    assert.deepStrictEqual(shape(MarkdownOutline.tasksOutline(tasks)), [
+      'task: 0.1 Loose task ()',
+      ['section: 1. Runner (1/2)', ['task: 1.1 Parse flags (done)', 'task: 1.2 Print help ()']]
+    ]);
+  });
+
+  test('Folds multi-line requirement, scenario, section and task blocks only', () => {
+    const specRanges = MarkdownOutline.foldingRanges('spec.md', deltaSpec);
+    assert.ok(specRanges.some(range => range.startLine === 2 && range.endLine === 11), 'requirement folds');
+    assert.ok(specRanges.some(range => range.startLine === 5 && range.endLine === 7), 'scenario folds');
+    assert.ok(specRanges.every(range => range.endLine > range.startLine));
+
+    const taskRanges = MarkdownOutline.foldingRanges('tasks.md', tasks);
+    assert.ok(taskRanges.some(range => range.startLine === 4 && range.endLine === 5), 'task with details folds');
+    assert.ok(!taskRanges.some(range => range.startLine === 6), 'single-line task does not fold');
+    assert.deepStrictEqual(MarkdownOutline.foldingRanges('proposal.md', tasks), []);
+  });
+});
@@ -0,0 +1,212 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenCodeClient, SseParser } from '../../src/utils/openCodeClient';
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+async function startStubServer(handler: Handler): Promise<{ server: http.Server; baseUrl: string }> {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+async function stopStubServer(server: http.Server): Promise<void> {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+}
+
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+  let text = '';
+  for await (const chunk of req) {
+    text += chunk;
+  }
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Stub of the session endpoints: `GET /event` streams whatever `emitOnPrompt` returns once
+ * `prompt_async` is called, `GET /session/status` returns `statuses`, and every request is recorded.
+ */
+async function startSessionStub(emitOnPrompt: (sessionId: string) => object[], statuses: object = {}) {
+  const requests: Array<{ method?: string; url?: string; body: unknown }> = [];
+  const streams: http.ServerResponse[] = [];
+  const stub = await startStubServer(async (req, res) => {
+    const body = await readBody(req);
+    requests.push({ method: req.method, url: req.url, body });
+    const pathname = new URL(req.url ?? '/', 'http://stub').pathname;
+
+    if (pathname === '/event') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(`data: ${JSON.stringify({ type: 'server.connected', properties: {} })}\n\n`);
+      streams.push(res);
+    } else if (req.method === 'POST' && pathname === '/session') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ id: 'ses_new', title: (body as { title?: string }).title, time: { created: 1, updated: 1 } }));
+    } else if (req.method === 'GET' && pathname === '/session/status') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(statuses));
+    } else if (req.method === 'GET' && pathname === '/session') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify([
+        { id: 'ses_old', title: 'old', time: { created: 1, updated: 2 } },
+        { id: 'ses_child', title: 'child', parentID: 'ses_recent', time: { created: 4, updated: 9 } },
+        { id: 'ses_recent', title: 'recent', time: { created: 3, updated: 5 } }
+      ]));
+    } else if (req.method === 'POST' && /^\/session\/[^/]+\/prompt_async$/.test(pathname)) {
+      res.writeHead(204);
+      res.end();
+      const sessionId = pathname.split('/')[2];
+      for (const event of emitOnPrompt(sessionId)) {
+        streams.forEach(stream => stream.write(`data: ${JSON.stringify(event)}\n\n`));
+      }
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  return { ...stub, requests };
+}
+
+suite('OpenCode Client Test Suite', () => {
+  test('Reads health and version from /global/health', async () => {
+    const { server, baseUrl } = await startStubServer((req, res) => {
+      if (req.method === 'GET' && req.url === '/global/health') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ healthy: true, version: '1.1.44' }));
+        return;
+      }
+      res.writeHead(404);
+      res.end();
+    });
+
+    try {
+      assert.deepStrictEqual(await new OpenCodeClient(baseUrl).health(), { healthy: true, version: '1.1.44' });
+    } finally {
+      await stopStubServer(server);
+    }
+  });
+
+  test('Reports no health for errors and non-OpenCode servers', async () => {
+    const { server, baseUrl } = await startStubServer((_req, res) => {
+      res.writeHead(500);
+      res.end('oops');
+    });
+
+    try {
+      assert.strictEqual(await new OpenCodeClient(baseUrl).health(), undefined);
+    } finally {
+      await stopStubServer(server);
+    }
+
+    // Nothing listens on the port once the stub is closed.
+    assert.strictEqual(await new OpenCodeClient(baseUrl, { timeoutMs: 500 }).health(), undefined);
+  });
+
+  test('Parses server-sent events split across chunks', () => {
+    const parser = new SseParser();
+    const payload = JSON.stringify({ type: 'session.idle', properties: { sessionID: 'ses_1' } });
+
+    assert.deepStrictEqual(parser.feed(`data: ${payload.slice(0, 10)}`), []);
+    assert.deepStrictEqual(parser.feed(`${payload.slice(10)}\r\n\r\n: keep-alive\n\ndata: not json\n\n`), [
+      { type: 'session.idle', properties: { sessionID: 'ses_1' } }
+    ]);
+  });
+
+  test('Lists sessions and picks the latest top-level one', async () => {
+    const { server, baseUrl, requests } = await startSessionStub(() => []);
+
+    try {
+      const client = new OpenCodeClient(baseUrl, { directory: '/work/my project' });
+      assert.strictEqual((await client.listSessions()).length, 3);
+      assert.strictEqual((await client.latestSession())?.id, 'ses_recent');
+      assert.strictEqual(requests[0].url, '/session?directory=%2Fwork%2Fmy+project');
+    } finally {
+      await stopStubServer(server);
+    }
+  });
+
+  test('Runs a prompt in a new session until it goes idle', async () => {
+    const { server, baseUrl, requests } = await startSessionStub(sessionId => [
+      { type: 'session.status', properties: { sessionID: 'ses_other', status: { type: 'idle' } } },
+      { type: 'session.status', properties: { sessionID: sessionId, status: { type: 'busy' } } },
+      { type: 'message.part.updated', properties: { part: { sessionID: sessionId, type: 'text' } } },
+      { type: 'session.idle', properties: { sessionID: sessionId } }
+    ]);
+
+    try {
+      const seen: string[] = [];
+      const result = await new OpenCodeClient(baseUrl).runPrompt('populate the change', {
+        title: 'Fast-forward',
+        agent: 'plan',
+        onEvent: event => seen.push(event.type)
+      });
+
+      assert.deepStrictEqual(result, { sessionId: 'ses_new', success: true, aborted: false, error: undefined });
+      assert.deepStrictEqual(seen, ['session.status', 'message.part.updated', 'session.idle']);
+      assert.deepStrictEqual(requests.find(request => request.url === '/session')?.body, { title: 'Fast-forward' });
+      assert.deepStrictEqual(requests.find(request => request.url?.endsWith('/prompt_async'))?.body, {
+        agent: 'plan',
+        parts: [{ type: 'text', text: 'populate the change' }]
+      });
+    } finally {
+      await stopStubServer(server);
+    }
+  });
+
+  test('Reports session errors from a continued session', async () => {
+    const { server, baseUrl, requests } = await startSessionStub(sessionId => [
+      // Left over from an earlier prompt in the same session.
+      { type: 'session.idle', properties: { sessionID: sessionId } },
+      { type: 'session.status', properties: { sessionID: sessionId, status: { type: 'busy' } } },
+      { type: 'session.error', properties: { sessionID: sessionId, error: { name: 'APIError', data: { message: 'rate limited' } } } },
+      { type: 'session.idle', properties: { sessionID: sessionId } }
+    ], { ses_recent: { type: 'busy' } });
+
+    try {
+      const result = await new OpenCodeClient(baseUrl).runPrompt('archive it', { sessionId: 'ses_recent' });
+
+      assert.deepStrictEqual(result, { sessionId: 'ses_recent', success: false, aborted: false, error: 'rate limited' });
+      assert.ok(!requests.some(request => request.method === 'POST' && request.url === '/session'));
+    } finally {
+      await stopStubServer(server);
+    }
+  });
+
+  test('Finishes on idle without a busy status once the server reports the session idle', async () => {
+    const { server, baseUrl, requests } = await startSessionStub(sessionId => [
+      { type: 'session.idle', properties: { sessionID: sessionId } }
+    ]);
+
+    try {
+      const result = await new OpenCodeClient(baseUrl).runPrompt('archive it', { sessionId: 'ses_recent' });
+
+      assert.deepStrictEqual(result, { sessionId: 'ses_recent', success: true, aborted: false, error: undefined });
+      assert.ok(requests.some(request => request.method === 'GET' && request.url === '/session/status'));
+    } finally {
+      await stopStubServer(server);
+    }
+  });
+
+  test('Reads busy sessions and tolerates servers without session status', async () => {
+    let supported = true;
+    const { server, baseUrl } = await startStubServer((req, res) => {
+      if (supported && req.url === '/session/status') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ses_a: { type: 'busy' }, ses_b: { type: 'retry', attempt: 2 }, ses_c: { type: 'idle' } }));
+        return;
+      }
+      res.writeHead(404);
+      res.end();
+    });
+
+    try {
+      const client = new OpenCodeClient(baseUrl);
+      assert.deepStrictEqual(await client.sessionStates(), { ses_a: 'busy', ses_b: 'retry' });
+      supported = false;
+      assert.deepStrictEqual(await client.sessionStates(), {});
+    } finally {
+      await stopStubServer(server);
+    }
+  });
+});
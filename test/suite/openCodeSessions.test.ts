@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { OpenCodeMessage, OpenCodeSession } from '../../src/types';
+import { OpenCodeSessions } from '../../src/utils/openCodeSessions';
+
+function session(title: string, directory?: string): OpenCodeSession {
+  return { id: 'ses_1', title, directory, time: { created: 0, updated: 0 } };
+}
+
+function userMessage(text: string): OpenCodeMessage {
+  return { info: { id: 'msg', sessionID: 'ses_1', role: 'user' }, parts: [{ type: 'text', text }] };
+}
+
+suite('OpenCode Sessions Test Suite', () => {
+  const changeIds = ['add-auth', 'add-auth-sso', 'fix-login'];
+
+  test('Finds the longest change ID mentioned as a whole word', () => {
+    assert.strictEqual(OpenCodeSessions.findChangeId('use openspec ff skill to populate add-auth-sso', changeIds), 'add-auth-sso');
+    assert.strictEqual(OpenCodeSessions.findChangeId('Change: add-auth. Tasks: 2/3', changeIds), 'add-auth');
+    assert.strictEqual(OpenCodeSessions.findChangeId('readd-auth and fix-login-page', changeIds), undefined);
+  });
+
+  test('Takes the change from the title before the user prompts', () => {
+    const messages = [
+      { info: { id: 'a', sessionID: 'ses_1', role: 'assistant' as const }, parts: [{ type: 'text', text: 'about fix-login' }] },
+      userMessage('archive add-auth')
+    ];
+
+    assert.strictEqual(OpenCodeSessions.changeIdOf(session('Fast-forward fix-login'), messages, changeIds), 'fix-login');
+    assert.strictEqual(OpenCodeSessions.changeIdOf(session('New session'), messages, changeIds), 'add-auth');
+    assert.strictEqual(OpenCodeSessions.changeIdOf(session('New session'), [], changeIds), undefined);
+  });
+
+  test('Describes last activity relative to now', () => {
+    const now = Date.UTC(2026, 1, 20, 12, 0, 0);
+
+    assert.strictEqual(OpenCodeSessions.describeLastActivity(now - 30 * 1000, now), 'just now');
+    assert.strictEqual(OpenCodeSessions.describeLastActivity(now - 5 * 60 * 1000, now), '5m ago');
+    assert.strictEqual(OpenCodeSessions.describeLastActivity(now - 3 * 60 * 60 * 1000, now), '3h ago');
+    assert.strictEqual(OpenCodeSessions.describeLastActivity(now - 2 * 24 * 60 * 60 * 1000, now), '2d ago');
+    assert.strictEqual(OpenCodeSessions.describeLastActivity(Date.UTC(2026, 0, 2), now), '2026-01-02');
+  });
+
+  test('Links sessions into the OpenCode UI by project directory', () => {
+    assert.strictEqual(
+      OpenCodeSessions.uiUrl('http://localhost:4099/', 'ses_1', '/work/app'),
+      `http://localhost:4099/${Buffer.from('/work/app').toString('base64url')}/session/ses_1`
+    );
+    assert.strictEqual(OpenCodeSessions.uiUrl('http://localhost:4099', 'ses_1', undefined), 'http://localhost:4099');
+  });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { OpenSpecConfigParser } from '../../src/utils/openspecConfig';
+
+suite('OpenSpec Config Test Suite', () => {
+  test('Parses schema, context and per-artifact rules', () => {
+    const { config, issues } = OpenSpecConfigParser.parse([
+      'schema: spec-driven',
+      'context: |',
+      '  Tech stack: TypeScript, VS Code API',
+      'rules:',
+      '  proposal:',
+      '    - Keep proposals under 50 words',
+      '    - Always include a "Non-goals" section',
+      '  tasks: Break tasks into chunks of max 2 hours',
+      ''
+    ].join('\n'));
+
+    assert.deepStrictEqual(issues, []);
+    assert.strictEqual(config.schema, 'spec-driven');
+    assert.strictEqual(config.context, 'Tech stack: TypeScript, VS Code API\n');
+    assert.deepStrictEqual(config.rules, {
+      proposal: ['Keep proposals under 50 words', 'Always include a "Non-goals" section'],
+      tasks: ['Break tasks into chunks of max 2 hours']
+    });
+  });
+
+  test('Reports YAML syntax errors and wrongly shaped keys', () => {
+    const syntax = OpenSpecConfigParser.parse('schema: spec-driven\nrules: [unclosed\n');
+    assert.strictEqual(syntax.issues[0].code, 'config-yaml');
+    assert.strictEqual(syntax.issues[0].severity, 'error');
+
+    const shape = OpenSpecConfigParser.parse('schema: spec-driven\nrules:\n  proposal:\n    - nested:\n        - no\n');
+    assert.deepStrictEqual(shape.issues.map(issue => [issue.line, issue.code]), [[1, 'config-shape']]);
+    assert.deepStrictEqual(shape.config.rules, {});
+  });
+
+  test('Accepts the rule list shapes the shipped schema allows', () => {
+    const schemaPath = path.join(__dirname, '..', '..', '..', '..', 'schemas', 'openspec-config.schema.json');
+    const ruleList = JSON.parse(fs.readFileSync(schemaPath, 'utf8')).definitions.ruleList as { oneOf: Array<{ type: string }> };
+    assert.deepStrictEqual(ruleList.oneOf.map(shape => shape.type), ['string', 'array']);
+
+    const { config, issues } = OpenSpecConfigParser.parse('rules:\n  design: Keep it short\n  specs:\n    - One rule\n  tasks: 3\n');
+    assert.deepStrictEqual(config.rules, { design: ['Keep it short'], specs: ['One rule'] });
+    assert.deepStrictEqual(issues.map(issue => [issue.message, issue.code]), [['rules.tasks must be a rule or a list of rules', 'config-shape']]);
+  });
+
+  test('Checks word limits and required headings, ignoring other rules', () => {
+    const proposal = ['## Why', '', 'Short reason.', '', '## What Changes', '', '- One thing', ''].join('\n');
+    const issues = OpenSpecConfigParser.checkRules(proposal, [
+      'Keep proposals under 5 words',
+      'Always include a "Non-goals" section',
+      'Include a Why heading',
+      'Be kind'
+    ]);
+
+    assert.deepStrictEqual(issues.map(issue => [issue.code, issue.severity]), [
+      ['config-rule-word-limit', 'info'],
+      ['config-rule-heading', 'info']
+    ]);
+    assert.match(issues[1].message, /"Non-goals"/);
+  });
+
+  test('Maps active change files to artifacts', () => {
+    assert.strictEqual(OpenSpecConfigParser.artifactForPath('/ws/openspec/changes/add-x/proposal.md'), 'proposal');
+    assert.strictEqual(OpenSpecConfigParser.artifactForPath('/ws/openspec/changes/add-x/specs/runner/spec.md'), 'specs');
+    assert.strictEqual(OpenSpecConfigParser.artifactForPath('/ws/openspec/changes/archive/2026-01-01-add-x/proposal.md'), undefined);
+    assert.strictEqual(OpenSpecConfigParser.artifactForPath('/ws/openspec/specs/runner/spec.md'), undefined);
+  });
+
+  test('Maps files under a configured root', () => {
+    const filePath = path.join('/ws', 'docs', 'specs-root', 'changes', 'add-x', 'tasks.md');
+    const isRootDir = (dir: string) => dir === path.join('/ws', 'docs', 'specs-root');
+    assert.strictEqual(OpenSpecConfigParser.artifactForPath(filePath), undefined);
+    assert.strictEqual(OpenSpecConfigParser.artifactForPath(filePath, isRootDir), 'tasks');
+  });
+
+  test('Appends the project context to prompts', () => {
+    assert.strictEqual(OpenSpecConfigParser.withContext('do it', { rules: {} }), 'do it');
+    assert.strictEqual(
+      OpenSpecConfigParser.withContext('do it', { context: 'TypeScript\n', rules: {} }),
+      'do it\n\nProject context (openspec/config.yaml):\nTypeScript'
+    );
+  });
+
+  test('Warns about unknown keys and rule artifacts', () => {
+    const { issues } = OpenSpecConfigParser.parse('schema: spec-driven\ncontxt: typo\nrules:\n  proposl:\n    - Be brief\n');
+    assert.deepStrictEqual(issues.map(issue => [issue.line, issue.code]), [
+      [1, 'config-unknown-key'],
+      [2, 'config-unknown-key']
+    ]);
+  });
+
+  test('Reads change metadata from .openspec.yaml', () => {
+    assert.deepStrictEqual(
+      OpenSpecConfigParser.parseChangeMetadata('schema: spec-driven\ncreated: 2026-01-30\n'),
+      { schema: 'spec-driven', created: '2026-01-30' }
+    );
+    assert.deepStrictEqual(OpenSpecConfigParser.parseChangeMetadata('schema: [broken'), {});
+  });
+});
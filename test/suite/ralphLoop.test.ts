@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import { RalphLoopEvent } from '../../src/types';
+import { RalphEventParser, RalphLoop, RalphLoopOptions } from '../../src/utils/ralphLoop';
+
+const TASKS = [
+  '## 1. Runner',
+  '',
+  '- [x] 1.1 Done already',
+  '- [ ] 1.2 Parse flags',
+  '  - details for 1.2',
+  '- [ ] 1.3 Print help',
+  '',
+  '## 2. Docs',
+  '',
+  '- [ ] 2.1 Update README',
+  ''
+].join('\n');
+
+function checkOff(text: string, ids: string[]): string {
+  return ids.reduce((current, id) => current.replace(`- [ ] ${id} `, `- [x] ${id} `), text);
+}
+
+// A fake OpenCode that checks off whatever `complete` returns for each batch.
+function loopOptions(complete: (taskIds: string[]) => string[], overrides: Partial<RalphLoopOptions> = {}) {
+  let text = TASKS;
+  const events: RalphLoopEvent[] = [];
+  const prompts: string[] = [];
+  const options: RalphLoopOptions = {
+    changeId: 'add-runner',
+    tasksPath: 'openspec/changes/add-runner/tasks.md',
+    count: 1,
+    readTasks: async () => text,
+    runBatch: async (prompt, taskIds) => {
+      prompts.push(prompt);
+      text = checkOff(text, complete(taskIds));
+      return { success: true };
+    },
+    onEvent: event => events.push(event),
+    ...overrides
+  };
+  return { options, events, prompts };
+}
+
+suite('Ralph Loop Test Suite', () => {
+  test('Batches unchecked tasks within one parent section', () => {
+    assert.deepStrictEqual(RalphLoop.findNextUncheckedTaskIds(TASKS, 5), ['1.2', '1.3']);
+    assert.deepStrictEqual(RalphLoop.findNextUncheckedTaskIds(TASKS, 1), ['1.2']);
+    assert.deepStrictEqual(RalphLoop.findNextUncheckedTaskIds(TASKS, 5, { section: '2' }), ['2.1']);
+    assert.deepStrictEqual(RalphLoop.findNextUncheckedTaskIds(TASKS, 5, { taskId: '1.3' }), ['1.3']);
+    assert.strictEqual(RalphLoop.extractTaskBlock(TASKS, '1.2'), '- [ ] 1.2 Parse flags\n  - details for 1.2');
+    assert.strictEqual(RalphLoop.extractTaskBlock(TASKS, '1.3'), '- [ ] 1.3 Print help');
+  });
+
+  test('Runs batches until every task is checked off', async () => {
+    const { options, events, prompts } = loopOptions(taskIds => taskIds, { count: 2, context: 'Use pnpm.' });
+
+    const result = await RalphLoop.run(options);
+
+    assert.deepStrictEqual(result, { reason: 'completed', completed: ['1.2', '1.3', '2.1'] });
+    assert.deepStrictEqual(
+      events.filter(event => event.type === 'batch.selected').map(event => (event as { taskIds: string[] }).taskIds),
+      [['1.2', '1.3'], ['2.1']]
+    );
+    assert.strictEqual(events[0].type, 'run.started');
+    assert.strictEqual(events[events.length - 1].type, 'run.finished');
+    assert.ok(prompts[0].startsWith('use skills openspec-apply-change to apply\nTarget change: add-runner\n'));
+    assert.ok(prompts[0].includes('Task IDs (complete in order):\n- 1.2\n- 1.3\n'));
+    assert.ok(prompts[0].endsWith('Project context (openspec/config.yaml):\nUse pnpm.\n'));
+  });
+
+  test('Stops at the task that was not checked off', async () => {
+    const { options, events } = loopOptions(taskIds => taskIds.filter(id => id !== '1.3'));
+
+    const result = await RalphLoop.run(options);
+
+    assert.strictEqual(result.reason, 'failed');
+    assert.strictEqual(result.failedTaskId, '1.3');
+    assert.deepStrictEqual(result.completed, ['1.2']);
+    assert.ok(events.some(event => event.type === 'task.failed' && event.taskId === '1.3'));
+  });
+
+  test('Refuses tasks checked off out of order', async () => {
+    const { options } = loopOptions(() => ['1.3'], { count: 2 });
+
+    const result = await RalphLoop.run(options);
+
+    assert.strictEqual(result.reason, 'failed');
+    assert.strictEqual(result.failedTaskId, '1.2');
+    assert.deepStrictEqual(result.completed, []);
+  });
+
+  test('Reports OpenCode failures, cancellation and unknown scopes', async () => {
+    const failing = loopOptions(() => [], { runBatch: async () => ({ success: false, error: 'rate limited' }) });
+    assert.deepStrictEqual(await RalphLoop.run(failing.options), {
+      reason: 'failed',
+      failedTaskId: '1.2',
+      message: 'rate limited',
+      completed: []
+    });
+
+    const aborted = loopOptions(() => [], { runBatch: async () => ({ success: false, aborted: true }) });
+    assert.strictEqual((await RalphLoop.run(aborted.options)).reason, 'cancelled');
+
+    const missing = loopOptions(taskIds => taskIds, { scope: { taskId: '9.9' } });
+    const result = await RalphLoop.run(missing.options);
+    assert.strictEqual(result.reason, 'failed');
+    assert.strictEqual(result.message, 'task 9.9 not found in openspec/changes/add-runner/tasks.md');
+  });
+
+  test('Parses runner events split across chunks and skips other output', () => {
+    const parser = new RalphEventParser();
+    assert.deepStrictEqual(parser.feed('{"type":"batch.selected","iteration":1,"task'), []);
+    assert.deepStrictEqual(parser.feed('Ids":["1.2"]}\r\nnot json\n{"type":"unknown"}\n{"type":"task.verified",'), [
+      { type: 'batch.selected', iteration: 1, taskIds: ['1.2'] }
+    ]);
+    assert.deepStrictEqual(parser.feed('"iteration":1,"taskId":"1.2"}\n{"type":"run.finished","reason":"completed","completed":["1.2"]}'), [
+      { type: 'task.verified', iteration: 1, taskId: '1.2' }
+    ]);
+    assert.deepStrictEqual(parser.flush(), [{ type: 'run.finished', reason: 'completed', completed: ['1.2'] }]);
+  });
+
+  test('Skips runner events missing the fields of their type', () => {
+    const parser = new RalphEventParser();
+    assert.deepStrictEqual(parser.feed([
+      '{"type":"batch.selected","iteration":1}',
+      '{"type":"opencode.invoked","iteration":1,"taskIds":"1.2"}',
+      '{"type":"task.verified","iteration":1,"taskId":12}',
+      '{"type":"run.started","changeId":"add-runner"}',
+      '{"type":"run.finished","reason":"completed"}',
+      '{"type":"task.failed","iteration":1,"taskId":"1.2","message":"not checked off"}',
+      ''
+    ].join('\n')), [
+      { type: 'task.failed', iteration: 1, taskId: '1.2', message: 'not checked off' }
+    ]);
+  });
+});
@@ -760,4 +760,487 @@ suite('Ralph Runner Test Suite', () => {
       await fs.rm(tmpRoot, { recursive: true, force: true });
     }
   });
+
+  test('--task runs only the requested task, even when earlier tasks are unchecked', async () => {
+    const tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'openspec-vscode-runner-'));
+
+    try {
+      const changeName = 'test-change';
+      const tasksFile = path.join(tmpRoot, 'openspec', 'changes', changeName, 'tasks.md');
+      await fs.mkdir(path.dirname(tasksFile), { recursive: true });
+      await fs.writeFile(
+        tasksFile,
+        [
+          '## 1. Runner',
+          '',
+          '- [ ] 1.1 First task',
+          '- [ ] 1.2 Second task',
+          '',
+          '## 2. Docs',
+          '',
+          '- [ ] 2.1 Third task',
+          '- [ ] 2.2 Fourth task',
+          '',
+        ].join('\n'),
+        'utf8'
+      );
+
+      const fakeBin = path.join(tmpRoot, 'fake-bin');
+      await fs.mkdir(fakeBin, { recursive: true });
+
+      const promptLogFile = path.join(tmpRoot, 'opencode-prompts.txt');
+      const opencodeJs = path.join(fakeBin, 'opencode.js');
+      await fs.writeFile(
+        opencodeJs,
+        [
+          "const fs = require('fs');",
+          '',
+          'function readStdin() {',
+          '  return new Promise((resolve) => {',
+          "    let buf = '';",
+          "    process.stdin.setEncoding('utf8');",
+          "    process.stdin.on('data', (c) => (buf += c));",
+          "    process.stdin.on('end', () => resolve(buf));",
+          '  });',
+          '}',
+          '',
+          '(async () => {',
+          '  const input = await readStdin();',
+          "  fs.appendFileSync(process.env.OPENCODE_PROMPT_LOG, input + '\\n---\\n', 'utf8');",
+          "  const tasksFile = input.match(/^Tasks file: (.+)$/m)[1].trim();",
+          "  const ids = [...input.matchAll(/^- ([0-9]+(?:\\.[0-9]+)*)$/gm)].map((m) => m[1]);",
+          "  let text = fs.readFileSync(tasksFile, 'utf8');",
+          '  for (const tid of ids) {',
+          '    text = text.replace(`- [ ] ${tid}`, `- [x] ${tid}`);',
+          '  }',
+          "  fs.writeFileSync(tasksFile, text, 'utf8');",
+          '  process.exit(0);',
+          '})();',
+          '',
+        ].join('\n'),
+        'utf8'
+      );
+
+      const isWin = process.platform === 'win32';
+      if (isWin) {
+        const opencodeCmd = path.join(fakeBin, 'opencode.cmd');
+        await fs.writeFile(opencodeCmd, ['@echo off', 'node "%~dp0opencode.js" %*'].join('\r\n') + '\r\n', 'utf8');
+      } else {
+        const opencodeSh = path.join(fakeBin, 'opencode');
+        await fs.writeFile(opencodeSh, ['#!/usr/bin/env sh', 'node "$(dirname "$0")/opencode.js" "$@"'].join('\n') + '\n', 'utf8');
+        await fs.chmod(opencodeSh, 0o755);
+      }
+
+      const runnerPath = path.join(__dirname, '..', '..', '..', '..', 'ralph_opencode.mjs');
+      const env = {
+        ...process.env,
+        OPENCODE_NPX_PKG: 'this-should-not-be-used',
+        OPENCODE_PROMPT_LOG: promptLogFile,
+        PATH: `${fakeBin}${path.delimiter}${process.env.PATH || ''}`,
+      };
+
+      const res = spawnSync(process.execPath, [runnerPath, '--change', changeName, '--task', '2.2', '--count', '3'], {
+        cwd: tmpRoot,
+        env,
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      assert.strictEqual(res.status, 0, `Runner should exit 0. stderr=\n${res.stderr}`);
+      assert.ok(res.stdout.includes('Scope      : task 2.2'), 'Runner should report the task scope');
+      assert.ok(res.stdout.includes('All tasks in task 2.2 completed.'), 'Runner should stop once the task is done');
+
+      const prompts = (await fs.readFile(promptLogFile, 'utf8')).split('\n---\n').filter(p => p.trim());
+      assert.deepStrictEqual(prompts.map(parseTaskIdsFromRunnerPrompt), [['2.2']]);
+
+      const updated = await fs.readFile(tasksFile, 'utf8');
+      assert.ok(updated.includes('- [ ] 1.1'), 'Runner should not touch tasks outside the scope');
+      assert.ok(updated.includes('- [ ] 2.1'), 'Runner should not touch tasks outside the scope');
+      assert.ok(updated.includes('- [x] 2.2'), 'Runner should complete the requested task');
+    } finally {
+      await fs.rm(tmpRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('--section runs only the unchecked tasks of that section', async () => {
+    const tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'openspec-vscode-runner-'));
+
+    try {
+      const changeName = 'test-change';
+      const tasksFile = path.join(tmpRoot, 'openspec', 'changes', changeName, 'tasks.md');
+      await fs.mkdir(path.dirname(tasksFile), { recursive: true });
+      await fs.writeFile(
+        tasksFile,
+        [
+          '## 1. Runner',
+          '',
+          '- [ ] 1.1 First task',
+          '- [ ] 1.2 Second task',
+          '',
+          '## 2. Docs',
+          '',
+          '- [ ] 2.1 Third task',
+          '- [ ] 2.2 Fourth task',
+          '',
+        ].join('\n'),
+        'utf8'
+      );
+
+      const fakeBin = path.join(tmpRoot, 'fake-bin');
+      await fs.mkdir(fakeBin, { recursive: true });
+
+      const promptLogFile = path.join(tmpRoot, 'opencode-prompts.txt');
+      const opencodeJs = path.join(fakeBin, 'opencode.js');
+      await fs.writeFile(
+        opencodeJs,
+        [
+          "const fs = require('fs');",
+          '',
+          'function readStdin() {',
+          '  return new Promise((resolve) => {',
+          "    let buf = '';",
+          "    process.stdin.setEncoding('utf8');",
+          "    process.stdin.on('data', (c) => (buf += c));",
+          "    process.stdin.on('end', () => resolve(buf));",
+          '  });',
+          '}',
+          '',
+          '(async () => {',
+          '  const input = await readStdin();',
+          "  fs.appendFileSync(process.env.OPENCODE_PROMPT_LOG, input + '\\n---\\n', 'utf8');",
+          "  const tasksFile = input.match(/^Tasks file: (.+)$/m)[1].trim();",
+          "  const ids = [...input.matchAll(/^- ([0-9]+(?:\\.[0-9]+)*)$/gm)].map((m) => m[1]);",
+          "  let text = fs.readFileSync(tasksFile, 'utf8');",
+          '  for (const tid of ids) {',
+          '    text = text.replace(`- [ ] ${tid}`, `- [x] ${tid}`);',
+          '  }',
+          "  fs.writeFileSync(tasksFile, text, 'utf8');",
+          '  process.exit(0);',
+          '})();',
+          '',
+        ].join('\n'),
+        'utf8'
+      );
+
+      const isWin = process.platform === 'win32';
+      if (isWin) {
+        const opencodeCmd = path.join(fakeBin, 'opencode.cmd');
+        await fs.writeFile(opencodeCmd, ['@echo off', 'node "%~dp0opencode.js" %*'].join('\r\n') + '\r\n', 'utf8');
+      } else {
+        const opencodeSh = path.join(fakeBin, 'opencode');
+        await fs.writeFile(opencodeSh, ['#!/usr/bin/env sh', 'node "$(dirname "$0")/opencode.js" "$@"'].join('\n') + '\n', 'utf8');
+        await fs.chmod(opencodeSh, 0o755);
+      }
+
+      const runnerPath = path.join(__dirname, '..', '..', '..', '..', 'ralph_opencode.mjs');
+      const env = {
+        ...process.env,
+        OPENCODE_NPX_PKG: 'this-should-not-be-used',
+        OPENCODE_PROMPT_LOG: promptLogFile,
+        PATH: `${fakeBin}${path.delimiter}${process.env.PATH || ''}`,
+      };
+
+      const res = spawnSync(process.execPath, [runnerPath, '--change', changeName, '--section', '2'], {
+        cwd: tmpRoot,
+        env,
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      assert.strictEqual(res.status, 0, `Runner should exit 0. stderr=\n${res.stderr}`);
+      assert.ok(res.stdout.includes('All tasks in section 2 completed.'), 'Runner should stop once the section is done');
+
+      const prompts = (await fs.readFile(promptLogFile, 'utf8')).split('\n---\n').filter(p => p.trim());
+      assert.deepStrictEqual(prompts.map(parseTaskIdsFromRunnerPrompt), [['2.1'], ['2.2']]);
+
+      const updated = await fs.readFile(tasksFile, 'utf8');
+      assert.ok(updated.includes('- [ ] 1.1'), 'Runner should not touch other sections');
+      assert.ok(updated.includes('- [ ] 1.2'), 'Runner should not touch other sections');
+      assert.ok(updated.includes('- [x] 2.1') && updated.includes('- [x] 2.2'), 'Runner should complete the section');
+    } finally {
+      await fs.rm(tmpRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('--openspec-root reads tasks.md from a nested OpenSpec root', async () => {
+    const tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'openspec-vscode-runner-'));
+
+    try {
+      const changeName = 'test-change';
+      const tasksFile = path.join(tmpRoot, 'docs', 'openspec', 'changes', changeName, 'tasks.md');
+      await fs.mkdir(path.dirname(tasksFile), { recursive: true });
+      await fs.writeFile(
+        tasksFile,
+        [
+          '## 1. Runner',
+          '',
+          '- [ ] 1.1 First task',
+          '- [ ] 1.2 Second task',
+          '',
+          '## 2. Docs',
+          '',
+          '- [ ] 2.1 Third task',
+          '- [ ] 2.2 Fourth task',
+          '',
+        ].join('\n'),
+        'utf8'
+      );
+
+      const fakeBin = path.join(tmpRoot, 'fake-bin');
+      await fs.mkdir(fakeBin, { recursive: true });
+
+      const promptLogFile = path.join(tmpRoot, 'opencode-prompts.txt');
+      const opencodeJs = path.join(fakeBin, 'opencode.js');
+      await fs.writeFile(
+        opencodeJs,
+        [
+          "const fs = require('fs');",
+          '',
+          'function readStdin() {',
+          '  return new Promise((resolve) => {',
+          "    let buf = '';",
+          "    process.stdin.setEncoding('utf8');",
+          "    process.stdin.on('data', (c) => (buf += c));",
+          "    process.stdin.on('end', () => resolve(buf));",
+          '  });',
+          '}',
+          '',
+          '(async () => {',
+          '  const input = await readStdin();',
+          "  fs.appendFileSync(process.env.OPENCODE_PROMPT_LOG, input + '\\n---\\n', 'utf8');",
+          "  const tasksFile = input.match(/^Tasks file: (.+)$/m)[1].trim();",
+          "  const ids = [...input.matchAll(/^- ([0-9]+(?:\\.[0-9]+)*)$/gm)].map((m) => m[1]);",
+          "  let text = fs.readFileSync(tasksFile, 'utf8');",
+          '  for (const tid of ids) {',
+          '    text = text.replace(`- [ ] ${tid}`, `- [x] ${tid}`);',
+          '  }',
+          "  fs.writeFileSync(tasksFile, text, 'utf8');",
+          '  process.exit(0);',
+          '})();',
+          '',
+        ].join('\n'),
+        'utf8'
+      );
+
+      const isWin = process.platform === 'win32';
+      if (isWin) {
+        const opencodeCmd = path.join(fakeBin, 'opencode.cmd');
+        await fs.writeFile(opencodeCmd, ['@echo off', 'node "%~dp0opencode.js" %*'].join('\r\n') + '\r\n', 'utf8');
+      } else {
+        const opencodeSh = path.join(fakeBin, 'opencode');
+        await fs.writeFile(opencodeSh, ['#!/usr/bin/env sh', 'node "$(dirname "$0")/opencode.js" "$@"'].join('\n') + '\n', 'utf8');
+        await fs.chmod(opencodeSh, 0o755);
+      }
+
+      const runnerPath = path.join(__dirname, '..', '..', '..', '..', 'ralph_opencode.mjs');
+      const env = {
+        ...process.env,
+        OPENCODE_NPX_PKG: 'this-should-not-be-used',
+        OPENCODE_PROMPT_LOG: promptLogFile,
+        PATH: `${fakeBin}${path.delimiter}${process.env.PATH || ''}`,
+      };
+
+      const res = spawnSync(process.execPath, [runnerPath, '--change', changeName, '--openspec-root', 'docs/openspec', '--task', '2.2'], {
+        cwd: tmpRoot,
+        env,
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      assert.strictEqual(res.status, 0, `Runner should exit 0. stderr=\n${res.stderr}`);
+      assert.ok(
+        normSlashes(res.stdout).includes('Tasks file : docs/openspec/changes/test-change/tasks.md'),
+        'Runner should resolve tasks.md under the OpenSpec root'
+      );
+
+      const updated = await fs.readFile(tasksFile, 'utf8');
+      assert.ok(updated.includes('- [x] 2.2'), 'Runner should complete the requested task');
+    } finally {
+      await fs.rm(tmpRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('Without --change, a root not named openspec picks the first active change from its changes folder', async () => {
+    const tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'openspec-vscode-runner-'));
+
+    try {
+      const changesDir = path.join(tmpRoot, 'docs', 'specs', 'changes');
+      await fs.mkdir(path.join(changesDir, 'a-no-tasks'), { recursive: true });
+      await fs.mkdir(path.join(changesDir, 'archive', '2026-01-01-a-archived'), { recursive: true });
+      await fs.writeFile(path.join(changesDir, 'archive', '2026-01-01-a-archived', 'tasks.md'), '- [ ] 1.1 Old task\n', 'utf8');
+      const tasksFile = path.join(changesDir, 'b-change', 'tasks.md');
+      await fs.mkdir(path.dirname(tasksFile), { recursive: true });
+      await fs.writeFile(tasksFile, ['## 1. Runner', '', '- [ ] 1.1 First task', ''].join('\n'), 'utf8');
+
+      const fakeBin = path.join(tmpRoot, 'fake-bin');
+      await fs.mkdir(fakeBin, { recursive: true });
+
+      const opencodeJs = path.join(fakeBin, 'opencode.js');
+      await fs.writeFile(
+        opencodeJs,
+        [
+          "const fs = require('fs');",
+          '',
+          'function readStdin() {',
+          '  return new Promise((resolve) => {',
+          "    let buf = '';",
+          "    process.stdin.setEncoding('utf8');",
+          "    process.stdin.on('data', (c) => (buf += c));",
+          "    process.stdin.on('end', () => resolve(buf));",
+          '  });',
+          '}',
+          '',
+          '(async () => {',
+          '  const input = await readStdin();',
+          "  const tasksFile = input.match(/^Tasks file: (.+)$/m)[1].trim();",
+          "  const ids = [...input.matchAll(/^- ([0-9]+(?:\\.[0-9]+)*)$/gm)].map((m) => m[1]);",
+          "  let text = fs.readFileSync(tasksFile, 'utf8');",
+          '  for (const tid of ids) {',
+          '    text = text.replace(`- [ ] ${tid}`, `- [x] ${tid}`);',
+          '  }',
+          "  fs.writeFileSync(tasksFile, text, 'utf8');",
+          '  process.exit(0);',
+          '})();',
+          '',
+        ].join('\n'),
+        'utf8'
+      );
+
+      const isWin = process.platform === 'win32';
+      if (isWin) {
+        const opencodeCmd = path.join(fakeBin, 'opencode.cmd');
+        await fs.writeFile(opencodeCmd, ['@echo off', 'node "%~dp0opencode.js" %*'].join('\r\n') + '\r\n', 'utf8');
+      } else {
+        const opencodeSh = path.join(fakeBin, 'opencode');
+        await fs.writeFile(opencodeSh, ['#!/usr/bin/env sh', 'node "$(dirname "$0")/opencode.js" "$@"'].join('\n') + '\n', 'utf8');
+        await fs.chmod(opencodeSh, 0o755);
+      }
+
+      const runnerPath = path.join(__dirname, '..', '..', '..', '..', 'ralph_opencode.mjs');
+      const env = {
+        ...process.env,
+        OPENCODE_NPX_PKG: 'this-should-not-be-used',
+        OPENSPEC_CHANGE: '',
+        PATH: `${fakeBin}${path.delimiter}${process.env.PATH || ''}`,
+      };
+
+      const res = spawnSync(process.execPath, [runnerPath, '--openspec-root', 'docs/specs'], {
+        cwd: tmpRoot,
+        env,
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      assert.strictEqual(res.status, 0, `Runner should exit 0. stderr=\n${res.stderr}`);
+      assert.ok(res.stdout.includes('Change     : b-change'), 'Runner should pick the first change with tasks.md');
+      assert.ok((await fs.readFile(tasksFile, 'utf8')).includes('- [x] 1.1'), 'Runner should complete the task');
+    } finally {
+      await fs.rm(tmpRoot, { recursive: true, force: true });
+    }
+  });
+
+  test('--events writes NDJSON events to stdout and the log to stderr', async () => {
+    const tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'openspec-vscode-runner-'));
+
+    try {
+      const changeName = 'test-change';
+      const tasksFile = path.join(tmpRoot, 'openspec', 'changes', changeName, 'tasks.md');
+      await fs.mkdir(path.dirname(tasksFile), { recursive: true });
+      await fs.writeFile(
+        tasksFile,
+        [
+          '## 1. Runner',
+          '',
+          '- [ ] 1.1 First task',
+          '- [ ] 1.2 Second task',
+          '',
+        ].join('\n'),
+        'utf8'
+      );
+
+      const fakeBin = path.join(tmpRoot, 'fake-bin');
+      await fs.mkdir(fakeBin, { recursive: true });
+
+      // Checks off 1.1 only, so the second run fails verification.
+      const opencodeJs = path.join(fakeBin, 'opencode.js');
+      await fs.writeFile(
+        opencodeJs,
+        [
+          "const fs = require('fs');",
+          '',
+          'function readStdin() {',
+          '  return new Promise((resolve) => {',
+          "    let buf = '';",
+          "    process.stdin.setEncoding('utf8');",
+          "    process.stdin.on('data', (c) => (buf += c));",
+          "    process.stdin.on('end', () => resolve(buf));",
+          '  });',
+          '}',
+          '',
+          '(async () => {',
+          '  const input = await readStdin();',
+          "  process.stdout.write('opencode output\\n');",
+          "  const tasksFile = input.match(/^Tasks file: (.+)$/m)[1].trim();",
+          "  let text = fs.readFileSync(tasksFile, 'utf8');",
+          "  text = text.replace('- [ ] 1.1', '- [x] 1.1');",
+          "  fs.writeFileSync(tasksFile, text, 'utf8');",
+          '  process.exit(0);',
+          '})();',
+          '',
+        ].join('\n'),
+        'utf8'
+      );
+
+      const isWin = process.platform === 'win32';
+      if (isWin) {
+        const opencodeCmd = path.join(fakeBin, 'opencode.cmd');
+        await fs.writeFile(opencodeCmd, ['@echo off', 'node "%~dp0opencode.js" %*'].join('\r\n') + '\r\n', 'utf8');
+      } else {
+        const opencodeSh = path.join(fakeBin, 'opencode');
+        await fs.writeFile(opencodeSh, ['#!/usr/bin/env sh', 'node "$(dirname "$0")/opencode.js" "$@"'].join('\n') + '\n', 'utf8');
+        await fs.chmod(opencodeSh, 0o755);
+      }
+
+      const runnerPath = path.join(__dirname, '..', '..', '..', '..', 'ralph_opencode.mjs');
+      const env = {
+        ...process.env,
+        OPENCODE_NPX_PKG: 'this-should-not-be-used',
+        PATH: `${fakeBin}${path.delimiter}${process.env.PATH || ''}`,
+      };
+
+      const res = spawnSync(process.execPath, [runnerPath, '--change', changeName, '--events'], {
+        cwd: tmpRoot,
+        env,
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      assert.strictEqual(res.status, 3, `Runner should exit 3. stderr=\n${res.stderr}`);
+      assert.ok(res.stderr.includes('== Iteration 1 /'), 'The human-readable log should go to stderr');
+      assert.ok(res.stderr.includes('opencode output'), 'OpenCode output should go to stderr');
+
+      const events = res.stdout.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+      assert.deepStrictEqual(events.map(event => event.type), [
+        'run.started',
+        'batch.selected',
+        'opencode.invoked',
+        'task.verified',
+        'batch.selected',
+        'opencode.invoked',
+        'task.failed',
+        'run.finished',
+      ]);
+      assert.strictEqual(events[0].changeId, changeName);
+      assert.deepStrictEqual(events[1].taskIds, ['1.1']);
+      assert.strictEqual(events[3].taskId, '1.1');
+      assert.strictEqual(events[6].taskId, '1.2');
+      const finished = events[events.length - 1];
+      assert.strictEqual(finished.reason, 'failed');
+      assert.deepStrictEqual(finished.completed, ['1.1']);
+      assert.strictEqual(finished.failedTaskId, '1.2');
+      assert.strictEqual(finished.exitCode, 3);
+    } finally {
+      await fs.rm(tmpRoot, { recursive: true, force: true });
+    }
+  });
 });
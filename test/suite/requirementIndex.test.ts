@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { RequirementIndex } from '../../src/utils/requirementIndex';
+import { SpecParser } from '../../src/utils/specParser';
+
+const baseline = SpecParser.parse([
+  '## Requirements',
+  '',
+  '### Requirement: Attach support',
+  'The runner SHALL accept `--attach`.',
+  '',
+  '#### Scenario: Attach flag used',
+  '- **WHEN** `--attach` is passed',
+  '- **THEN** it is forwarded',
+  '',
+  '### Requirement: Legacy shell script',
+  'The runner SHALL ship a shell script.',
+  ''
+].join('\n'));
+
+const delta = SpecParser.parse([
+  '## MODIFIED Requirements',
+  '',
+  '### Requirement: Attach support',
+  'The runner SHALL accept `--attach <url>`.',
+  '',
+  '## ADDED Requirements',
+  '',
+  '### Requirement: Task scope',
+  'The runner SHALL accept `--task`.',
+  '',
+  '## RENAMED Requirements',
+  '',
+  '- FROM: `### Requirement: Legacy shell script`',
+  '- TO: `### Requirement: Shell script`',
+  ''
+].join('\n'));
+
+suite('Requirement Index Test Suite', () => {
+  const entries = RequirementIndex.build([
+    { spec: baseline, source: { capability: 'ralph-runner', filePath: '/ws/openspec/specs/ralph-runner/spec.md', isArchived: false } },
+    {
+      spec: delta,
+      source: { capability: 'ralph-runner', filePath: '/ws/openspec/changes/add-scope/specs/ralph-runner/spec.md', changeId: 'add-scope', isArchived: false }
+    },
+    {
+      spec: delta,
+      source: { capability: 'ralph-runner', filePath: '/ws/openspec/changes/archive/2026-01-01-old/specs/ralph-runner/spec.md', changeId: 'old', isArchived: true }
+    }
+  ]);
+
+  test('Indexes baseline and delta requirements, scenarios and renames', () => {
+    const active = entries.filter(entry => !entry.isArchived);
+    assert.deepStrictEqual(active.map(entry => [entry.kind, entry.name, entry.operation, entry.line]), [
+      ['requirement', 'Attach support', undefined, 2],
+      ['scenario', 'Attach flag used', undefined, 5],
+      ['requirement', 'Legacy shell script', undefined, 9],
+      ['requirement', 'Attach support', 'MODIFIED', 2],
+      ['requirement', 'Task scope', 'ADDED', 7],
+      ['requirement', 'Shell script', 'RENAMED', 12]
+    ]);
+    assert.strictEqual(active[5].renamedFrom, 'Legacy shell script');
+  });
+
+  test('Links baseline requirements to the active changes that touch them', () => {
+    const baselineEntries = entries.filter(entry => !entry.changeId);
+    assert.deepStrictEqual(baselineEntries.map(entry => [entry.name, entry.touchedBy]), [
+      ['Attach support', ['add-scope']],
+      ['Attach flag used', ['add-scope']],
+      ['Legacy shell script', ['add-scope']]
+    ]);
+  });
+
+  test('Matches queries as case-insensitive subsequences', () => {
+    const attach = entries[0];
+    assert.ok(RequirementIndex.matches(attach, 'attach'));
+    assert.ok(RequirementIndex.matches(attach, 'atsup'));
+    assert.ok(RequirementIndex.matches(attach, ''));
+    assert.ok(!RequirementIndex.matches(attach, 'support attach'));
+  });
+});
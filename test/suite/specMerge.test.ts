@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { SpecMerger } from '../../src/utils/specMerge';
+import { SpecParser } from '../../src/utils/specParser';
+
+const baselineSpec = [
+  '## Purpose',
+  'Runner behavior.',
+  '',
+  '## Requirements',
+  '',
+  '### Requirement: Attach support',
+  'The runner SHALL accept `--attach`.',
+  '',
+  '#### Scenario: Attach flag used',
+  '- **WHEN** `--attach` is passed',
+  '- **THEN** it is forwarded',
+  '',
+  '### Requirement: Legacy shell script',
+  'The project SHALL ship `ralph_opencode.sh`.',
+  '',
+  '### Requirement: Task loop parity',
+  'The runner SHALL process tasks in order.',
+  ''
+].join('\n');
+
+suite('Spec Merge Test Suite', () => {
+  test('Applies RENAMED, REMOVED, MODIFIED and ADDED operations', () => {
+    const delta = [
+      '## ADDED Requirements',
+      '',
+      '### Requirement: Event stream',
+      'The runner SHALL emit JSON events.',
+      '',
+      '## MODIFIED Requirements',
+      '',
+      '### Requirement: Attach support',
+      'The runner MUST accept `--attach <url>`.',
+      '',
+      '## REMOVED Requirements',
+      '',
+      '### Requirement: Legacy shell script',
+      '',
+      '## RENAMED Requirements',
+      '',
+      '- FROM: `### Requirement: Task loop parity`',
+      '- TO: `### Requirement: Task loop`',
+      ''
+    ].join('\n');
+
+    const result = SpecMerger.apply(baselineSpec, delta, 'ralph-runner');
+    const merged = SpecParser.parse(result.content);
+
+    assert.deepStrictEqual(result.issues, []);
+    assert.deepStrictEqual(result.counts, { ADDED: 1, MODIFIED: 1, REMOVED: 1, RENAMED: 1 });
+    assert.strictEqual(merged.purpose, 'Runner behavior.');
+    assert.deepStrictEqual(merged.requirements.map(r => r.name), ['Attach support', 'Task loop', 'Event stream']);
+    assert.strictEqual(merged.requirements[0].body, 'The runner MUST accept `--attach <url>`.');
+    assert.strictEqual(merged.requirements[0].scenarios.length, 0);
+    assert.strictEqual(merged.requirements[1].body, 'The runner SHALL process tasks in order.');
+  });
+
+  test('Reports operations that reference missing requirements', () => {
+    const delta = [
+      '## MODIFIED Requirements',
+      '',
+      '### Requirement: Attach suport',
+      'Typo in the name.',
+      '',
+      '## ADDED Requirements',
+      '',
+      '### Requirement: Attach support',
+      'Already exists.',
+      ''
+    ].join('\n');
+
+    const result = SpecMerger.apply(baselineSpec, delta, 'ralph-runner');
+
+    assert.deepStrictEqual(result.issues.map(i => [i.operation, i.requirement, i.line]), [
+      ['MODIFIED', 'Attach suport', 2],
+      ['ADDED', 'Attach support', 7]
+    ]);
+    assert.strictEqual(result.content, `${baselineSpec.trimEnd()}\n`);
+  });
+
+  test('Creates a new spec when the capability has no baseline', () => {
+    const delta = [
+      '## ADDED Requirements',
+      '',
+      '### Requirement: Event stream',
+      'The runner SHALL emit JSON events.',
+      ''
+    ].join('\n');
+
+    const result = SpecMerger.apply(undefined, delta, 'ralph-events');
+    const merged = SpecParser.parse(result.content);
+
+    assert.strictEqual(merged.title, 'ralph-events Specification');
+    assert.deepStrictEqual(merged.requirements.map(r => r.name), ['Event stream']);
+    assert.ok(merged.requirementsRange);
+  });
+});
@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import { SpecParser } from '../../src/utils/specParser';
+
+const baselineSpec = [
+  '## Purpose',
+  'Define requirements for the runner.',
+  '',
+  '## Requirements',
+  '',
+  '### Requirement: Attach support',
+  'The runner SHALL accept `--attach <url>`.',
+  '',
+  '#### Scenario: Attach flag used',
+  '- **WHEN** the runner is invoked with `--attach`',
+  '- **THEN** it passes `--attach` to `opencode run`',
+  '- **AND** it keeps the URL unchanged',
+  '',
+  '### Requirement: Task loop parity',
+  'The runner SHALL process tasks in order.',
+  '',
+  '```md',
+  '### Requirement: Not a real requirement',
+  '```',
+  '',
+  '#### Scenario: Marks tasks done sequentially',
+  '- **WHEN** `tasks.md` contains unchecked tasks',
+  '- **THEN** the runner processes tasks one-by-one',
+  '',
+  '#### Scenario: Default count is 1',
+  '- **WHEN** the runner is invoked without `--count`',
+  '- **THEN** it completes at most one task',
+  ''
+].join('\n');
+
+const deltaSpec = [
+  '## ADDED Requirements',
+  '',
+  '### Requirement: Event stream',
+  'The runner SHALL emit JSON events.',
+  '',
+  '#### Scenario: Events enabled',
+  '- **WHEN** `--events` is passed',
+  '- **THEN** each line is a JSON object',
+  '',
+  '## MODIFIED Requirements',
+  '',
+  '### Requirement: Attach support',
+  'The runner MUST accept `--attach <url>`.',
+  '',
+  '## REMOVED Requirements',
+  '',
+  '### Requirement: Legacy shell script',
+  '',
+  '## RENAMED Requirements',
+  '',
+  '- FROM: `### Requirement: Task loop parity`',
+  '- TO: `### Requirement: Task loop`',
+  ''
+].join('\n');
+
+suite('Spec Parser Test Suite', () => {
+  test('Parses purpose, requirements and scenarios of a baseline spec', () => {
+    const spec = SpecParser.parse(baselineSpec);
+
+    assert.strictEqual(spec.isDelta, false);
+    assert.strictEqual(spec.purpose, 'Define requirements for the runner.');
+    assert.deepStrictEqual(spec.purposeRange, { startLine: 0, endLine: 1 });
+    assert.deepStrictEqual(spec.requirements.map(r => r.name), ['Attach support', 'Task loop parity']);
+
+    const attach = spec.requirements[0];
+    assert.strictEqual(attach.body, 'The runner SHALL accept `--attach <url>`.');
+    assert.deepStrictEqual(attach.range, { startLine: 5, endLine: 11 });
+    assert.strictEqual(attach.scenarios.length, 1);
+    assert.deepStrictEqual(attach.scenarios[0].steps.map(s => s.keyword), ['WHEN', 'THEN', 'AND']);
+    assert.strictEqual(attach.scenarios[0].steps[2].text, 'it keeps the URL unchanged');
+    assert.strictEqual(attach.scenarios[0].steps[0].line, 9);
+  });
+
+  test('Ignores headings inside fenced code blocks', () => {
+    const spec = SpecParser.parse(baselineSpec);
+    const loop = spec.requirements[1];
+
+    assert.strictEqual(SpecParser.countRequirements(spec), 2);
+    assert.deepStrictEqual(loop.scenarios.map(s => s.name), ['Marks tasks done sequentially', 'Default count is 1']);
+    assert.deepStrictEqual(loop.scenarios[1].range, { startLine: 24, endLine: 26 });
+    assert.ok(loop.body.includes('Not a real requirement'));
+  });
+
+  test('Parses ADDED/MODIFIED/REMOVED/RENAMED delta sections', () => {
+    const spec = SpecParser.parse(deltaSpec);
+
+    assert.strictEqual(spec.isDelta, true);
+    assert.strictEqual(spec.requirements.length, 0);
+    assert.deepStrictEqual(spec.deltas.map(d => d.operation), ['ADDED', 'MODIFIED', 'REMOVED', 'RENAMED']);
+    assert.strictEqual(spec.deltas[0].requirements[0].name, 'Event stream');
+    assert.strictEqual(spec.deltas[1].requirements[0].body, 'The runner MUST accept `--attach <url>`.');
+    assert.strictEqual(spec.deltas[2].requirements[0].name, 'Legacy shell script');
+    assert.deepStrictEqual(spec.deltas[3].renames.map(r => [r.from, r.to]), [['Task loop parity', 'Task loop']]);
+    assert.deepStrictEqual(spec.deltas[3].renames[0].range, { startLine: 20, endLine: 21 });
+  });
+
+  test('Finds requirements by whitespace-normalized name', () => {
+    const spec = SpecParser.parse(baselineSpec);
+    assert.ok(SpecParser.findRequirement(spec.requirements, '  Task   loop parity '));
+    assert.strictEqual(SpecParser.findRequirement(spec.requirements, 'Missing'), undefined);
+  });
+
+  test('Suggests the closest requirement for a mistyped name', () => {
+    const spec = SpecParser.parse([
+      '### Requirement: Attach support',
+      'The runner SHALL accept `--attach`.',
+      '',
+      '### Requirement: Batch size',
+      'The runner SHALL accept `--count`.',
+      ''
+    ].join('\n'));
+
+    assert.strictEqual(SpecParser.findClosestRequirement(spec.requirements, 'Attach suport')?.name, 'Attach support');
+    assert.strictEqual(SpecParser.findClosestRequirement(spec.requirements, 'batch SIZE')?.name, 'Batch size');
+    assert.strictEqual(SpecParser.findClosestRequirement(spec.requirements, 'Pause before exit'), undefined);
+  });
+});
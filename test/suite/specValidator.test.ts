@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { SpecValidator } from '../../src/utils/specValidator';
+
+const baselineSpec = [
+  '## Purpose',
+  'Runner behavior.',
+  '',
+  '## Requirements',
+  '',
+  '### Requirement: Attach support',
+  'The runner SHALL accept `--attach`.',
+  '',
+  '#### Scenario: Attach flag used',
+  '- **WHEN** `--attach` is passed',
+  '- **THEN** it is forwarded',
+  ''
+].join('\n');
+
+suite('Spec Validator Test Suite', () => {
+  test('Accepts a well-formed baseline spec', () => {
+    assert.deepStrictEqual(SpecValidator.validateSpec(baselineSpec), []);
+  });
+
+  test('Flags missing scenarios, SHALL/MUST, WHEN/THEN and duplicates', () => {
+    const content = [
+      '## Requirements',
+      '',
+      '### Requirement: No scenario',
+      'The runner processes tasks.',
+      '',
+      '### Requirement: Weak scenario',
+      'The runner MUST verify tasks.',
+      '',
+      '#### Scenario: Missing then',
+      '- **WHEN** a task is done',
+      '',
+      '### Requirement: Weak scenario',
+      'The runner MUST verify tasks.',
+      '',
+      '#### Scenario: Complete',
+      '- **WHEN** a task is done',
+      '- **THEN** it is verified',
+      ''
+    ].join('\n');
+
+    const issues = SpecValidator.validateSpec(content);
+    assert.deepStrictEqual(issues.map(i => [i.code, i.line]), [
+      ['requirement-missing-shall', 2],
+      ['requirement-missing-scenario', 2],
+      ['scenario-missing-steps', 8],
+      ['requirement-duplicate', 11]
+    ]);
+  });
+
+  test('Flags MODIFIED/REMOVED entries missing from the baseline', () => {
+    const delta = [
+      '## MODIFIED Requirements',
+      '',
+      '### Requirement: Attach suport',
+      'The runner SHALL accept `--attach <url>`.',
+      '',
+      '#### Scenario: Attach flag used',
+      '- **WHEN** `--attach` is passed',
+      '- **THEN** it is forwarded',
+      '',
+      '## REMOVED Requirements',
+      '',
+      '### Requirement: Legacy shell script',
+      ''
+    ].join('\n');
+
+    const issues = SpecValidator.validateDelta(delta, baselineSpec, 'ralph-runner');
+    assert.deepStrictEqual(issues.map(i => [i.code, i.line, i.severity]), [
+      ['delta-removed', 11, 'error'],
+      ['delta-modified', 2, 'error']
+    ]);
+  });
+
+  test('Requires a baseline for non-ADDED deltas', () => {
+    const delta = [
+      '## REMOVED Requirements',
+      '',
+      '### Requirement: Legacy shell script',
+      ''
+    ].join('\n');
+
+    const issues = SpecValidator.validateDelta(delta, undefined, 'new-capability');
+    assert.deepStrictEqual(issues.map(i => i.code), ['missing-baseline']);
+  });
+});
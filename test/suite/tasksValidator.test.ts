@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import { TasksParser } from '../../src/utils/tasksParser';
+import { TasksValidator } from '../../src/utils/tasksValidator';
+
+const validTasks = [
+  '# Tasks',
+  '',
+  '## 1. Runner CLI',
+  '',
+  '- [x] 1.1 Parse flags',
+  '- [ ] 1.2 Forward `--attach`',
+  '  - keep the default URL',
+  '',
+  '## 2. Docs',
+  '',
+  '- [ ] 2.1 Update README',
+  ''
+].join('\n');
+
+suite('Tasks Validator Test Suite', () => {
+  test('Parses sections, tasks and progress', () => {
+    const parsed = TasksParser.parse(validTasks);
+
+    assert.deepStrictEqual(parsed.sections.map(s => [s.number, s.title, s.tasks.length]), [
+      [1, 'Runner CLI', 2],
+      [2, 'Docs', 1]
+    ]);
+    assert.strictEqual(parsed.completedCount, 1);
+    assert.strictEqual(parsed.totalCount, 3);
+    assert.strictEqual(TasksParser.nextUncheckedTask(parsed)?.id, '1.2');
+    assert.strictEqual(TasksParser.findTask(parsed, '2.1')?.line, 10);
+  });
+
+  test('Accepts a well-formed tasks.md', () => {
+    assert.deepStrictEqual(TasksValidator.validate(validTasks), []);
+  });
+
+  test('Flags malformed headers and task lines with fixes', () => {
+    const content = [
+      '## Runner CLI',
+      '',
+      '- [X] 1.1. Parse flags',
+      '- [ ] Forward attach',
+      '- Update README',
+      '### 2. Docs',
+      ''
+    ].join('\n');
+
+    const issues = TasksValidator.validate(content);
+    assert.deepStrictEqual(issues.map(i => [i.code, i.line]), [
+      ['section-header-format', 0],
+      ['task-format', 2],
+      ['task-missing-id', 3],
+      ['section-header-format', 5]
+    ]);
+    assert.deepStrictEqual(issues.map(i => i.fixes[0]?.edits[0]?.newText), [
+      '## 1. Runner CLI',
+      '- [x] 1.1 Parse flags',
+      undefined,
+      '## 2. Docs'
+    ]);
+  });
+
+  test('Converts plain bullets in a numbered section to the next task ID', () => {
+    const content = ['## 1. Runner CLI', '', '- [ ] 1.1 Parse flags', '- Forward attach', ''].join('\n');
+
+    const issues = TasksValidator.validate(content);
+    assert.deepStrictEqual(issues.map(i => i.code), ['task-not-checkbox']);
+    assert.strictEqual(issues[0].fixes[0].edits[0].newText, '- [ ] 1.2 Forward attach');
+  });
+
+  test('Flags duplicate and out-of-order IDs and renumbers the section', () => {
+    const content = [
+      '## 1. Runner CLI',
+      '',
+      '- [x] 1.2 Parse flags',
+      '- [ ] 1.1 Forward attach',
+      '- [ ] 1.1 Pause before exit',
+      '- [ ] 2.1 Wrong section',
+      ''
+    ].join('\n');
+
+    const issues = TasksValidator.validate(content);
+    assert.deepStrictEqual(issues.map(i => [i.code, i.line]), [
+      ['task-out-of-order', 3],
+      ['task-duplicate-id', 4],
+      ['task-section-mismatch', 5]
+    ]);
+    assert.deepStrictEqual(issues[0].fixes[0].edits, [
+      { line: 2, newText: '- [x] 1.1 Parse flags' },
+      { line: 3, newText: '- [ ] 1.2 Forward attach' },
+      { line: 4, newText: '- [ ] 1.3 Pause before exit' },
+      { line: 5, newText: '- [ ] 1.4 Wrong section' }
+    ]);
+  });
+});